@@ -1,23 +1,75 @@
 import { useEffect, useState } from 'react';
 
+import { chatClient } from '@/api/chatClient';
+import { sessionClient } from '@/api/sessionClient';
 import { connectSse } from '@/api/sseClient';
+import SessionHistoryPanel from '@/components/SessionHistoryPanel';
+import TitleBar from '@/components/TitleBar';
 import { useAgentState } from '@/hooks/useAgentState';
+import { useSessions } from '@/hooks/useSessions';
 import Chat from '@/pages/Chat';
+import Schedules from '@/pages/Schedules';
 import Start from '@/pages/Start';
 
 export default function App() {
-  const { agentDir, sessionState, hasInitialPrompt } = useAgentState();
+  const { agentDir, sessionId, sessionState, hasInitialPrompt } = useAgentState();
+  const sessions = useSessions();
   const [manualStart, setManualStart] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
 
   useEffect(() => {
     connectSse();
+    // Each session stream begins with `chat:init`; a freshly selected session starts over.
+    return chatClient.onInit(() => {
+      setManualStart(false);
+    });
   }, []);
 
-  const shouldShowStart = !hasInitialPrompt && sessionState === 'idle' && !manualStart;
+  const handleSelectSession = (nextSessionId: string) => {
+    setShowHistory(false);
+    setShowSchedules(false);
+    if (nextSessionId !== sessionId) {
+      sessionClient.switchSession(nextSessionId);
+    }
+  };
+
+  const handleNewChat = async () => {
+    try {
+      const response = await sessionClient.createSession();
+      if (response.success && response.session) {
+        handleSelectSession(response.session.id);
+      }
+    } catch (error) {
+      console.error('Failed to create session', error);
+    }
+  };
 
-  if (shouldShowStart) {
-    return <Start onStarted={() => setManualStart(true)} />;
-  }
+  const shouldShowStart = !hasInitialPrompt && sessionState === 'idle' && !manualStart;
 
-  return <Chat agentDir={agentDir} sessionState={sessionState} />;
+  return (
+    <>
+      <TitleBar
+        onOpenHistory={() => setShowHistory(true)}
+        onNewChat={handleNewChat}
+        onOpenSchedules={() => setShowSchedules(true)}
+      />
+      <div className="pt-12">
+        {showSchedules ?
+          <Schedules onOpenSession={handleSelectSession} onClose={() => setShowSchedules(false)} />
+        : shouldShowStart ?
+          <Start onStarted={() => setManualStart(true)} />
+        : <Chat agentDir={agentDir} sessionId={sessionId} sessionState={sessionState} />}
+      </div>
+      {showHistory && (
+        <SessionHistoryPanel
+          sessions={sessions}
+          activeSessionId={sessionId}
+          onSelect={handleSelectSession}
+          onNewChat={handleNewChat}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+    </>
+  );
 }
@@ -10,12 +10,49 @@ import type {
   ToolUse
 } from '@/types/stream';
 
-import type { SendMessagePayload, SendMessageResponse } from '../../shared/types/ipc';
+import type {
+  CheckpointListPayload,
+  RestoreCheckpointResponse
+} from '../../shared/types/checkpoint';
+import type { FsChangePayload } from '../../shared/types/fs-change';
+import type { GitCommitResponse, GitDiffPayload, GitStatusPayload } from '../../shared/types/git';
+import type {
+  NotificationHookPayload,
+  PostToolUseHookPayload,
+  PreToolUseHookPayload,
+  StopHookPayload
+} from '../../shared/types/hooks';
+import type {
+  ChatModelPreference,
+  GetChatModelPreferenceResponse,
+  SendMessagePayload,
+  SendMessageResponse,
+  SetChatModelPreferenceResponse,
+  SuccessResponse
+} from '../../shared/types/ipc';
+import type { McpConfig, McpStatusPayload } from '../../shared/types/mcp';
+import type {
+  PermissionRequest,
+  PermissionResolvedPayload,
+  PermissionResponsePayload
+} from '../../shared/types/permission';
+import type { PromptSettings, PromptSettingsPayload } from '../../shared/types/prompt';
+import type { MessageQueuePayload, UpdateQueuedMessagePayload } from '../../shared/types/queue';
+import type {
+  RunScheduledJobResponse,
+  SaveScheduledJobResponse,
+  ScheduledJobInput,
+  ScheduleListPayload
+} from '../../shared/types/schedule';
+import type { SubagentDefinition, SubagentListResponse } from '../../shared/types/subagent';
 import type { SystemInitInfo } from '../../shared/types/system';
+import type { SessionUsage } from '../../shared/types/usage';
 import { onEvent } from './eventBus';
+import type { SessionSummary } from './sessionClient';
 
 export type ChatInitPayload = {
   agentDir: string;
+  sessionId: string;
   sessionState: 'idle' | 'running' | 'error';
   hasInitialPrompt: boolean;
 };
@@ -39,6 +76,11 @@ export type ChatMessageReplayPayload = {
   };
 };
 
+export type ChatTruncatePayload = {
+  // Removed messages: the rewound user message and everything after it.
+  messageIds: string[];
+};
+
 export type ChatStatusPayload = {
   sessionState: 'idle' | 'running' | 'error';
 };
@@ -51,9 +93,25 @@ export type ChatSystemInitPayload = {
   info: SystemInitInfo;
 };
 
-async function postJson<T>(path: string, body?: unknown): Promise<T> {
+export type ForkSessionResponse = SuccessResponse & {
+  session?: SessionSummary;
+  // Set when forking at a user message, which the fork leaves out so it can be edited.
+  draft?: string | null;
+};
+
+let activeSessionId: string | null = null;
+
+// Until a session is picked explicitly, requests go to the server's default session, which is
+// also the one `/chat/stream` is connected to.
+function sessionPath(action: string): string {
+  return activeSessionId ?
+      `/sessions/${encodeURIComponent(activeSessionId)}/${action}`
+    : `/chat/${action}`;
+}
+
+async function requestJson<T>(path: string, body?: unknown, method = 'POST'): Promise<T> {
   const response = await fetch(path, {
-    method: 'POST',
+    method,
     headers: { 'Content-Type': 'application/json' },
     body: body ? JSON.stringify(body) : undefined
   });
@@ -61,12 +119,136 @@ async function postJson<T>(path: string, body?: unknown): Promise<T> {
 }
 
 export const chatClient = {
-  sendMessage: (payload: SendMessagePayload): Promise<SendMessageResponse> =>
-    postJson('/chat/send', payload),
-  stopMessage: (): Promise<{ success: boolean; error?: string }> => postJson('/chat/stop'),
+  setActiveSession: (sessionId: string | null) => {
+    activeSessionId = sessionId;
+  },
+  getStreamPath: (): string => sessionPath('stream'),
+  sendMessage: async (payload: SendMessagePayload): Promise<SendMessageResponse> => {
+    if (!payload.attachments?.length) {
+      return requestJson(sessionPath('send'), { text: payload.text });
+    }
+    const formData = new FormData();
+    formData.append('text', payload.text);
+    payload.attachments.forEach((attachment) => {
+      formData.append(
+        'attachments',
+        new Blob([attachment.data as BlobPart], { type: attachment.mimeType }),
+        attachment.name
+      );
+    });
+    const response = await fetch(sessionPath('send'), { method: 'POST', body: formData });
+    return (await response.json()) as SendMessageResponse;
+  },
+  stopMessage: (): Promise<{ success: boolean; error?: string }> =>
+    requestJson(sessionPath('stop')),
+  resetSession: (): Promise<SuccessResponse> => requestJson(sessionPath('reset')),
+  forkSession: (messageId: string): Promise<ForkSessionResponse> =>
+    requestJson(sessionPath('fork'), { messageId }),
+  rewindMessage: (messageId: string, text: string): Promise<SuccessResponse> =>
+    requestJson(sessionPath('rewind'), { messageId, text }),
+  cancelQueuedMessage: (itemId: string): Promise<SuccessResponse> =>
+    requestJson(sessionPath(`queue/${encodeURIComponent(itemId)}`), undefined, 'DELETE'),
+  updateQueuedMessage: (
+    itemId: string,
+    payload: UpdateQueuedMessagePayload
+  ): Promise<SuccessResponse> =>
+    requestJson(sessionPath(`queue/${encodeURIComponent(itemId)}`), payload, 'PATCH'),
+  respondToPermission: (payload: PermissionResponsePayload): Promise<SuccessResponse> =>
+    requestJson(sessionPath('permission'), payload),
+  getModelPreference: async (): Promise<GetChatModelPreferenceResponse> => {
+    const response = await fetch('/chat/model');
+    return (await response.json()) as GetChatModelPreferenceResponse;
+  },
+  setModelPreference: async (
+    preference: ChatModelPreference
+  ): Promise<SetChatModelPreferenceResponse> => {
+    const response = await fetch('/chat/model', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ preference })
+    });
+    return (await response.json()) as SetChatModelPreferenceResponse;
+  },
+  getPromptSettings: async (): Promise<PromptSettingsPayload> => {
+    const response = await fetch('/chat/prompt');
+    return (await response.json()) as PromptSettingsPayload;
+  },
+  setPromptSettings: (
+    settings: PromptSettings
+  ): Promise<SuccessResponse & Partial<PromptSettingsPayload>> =>
+    requestJson('/chat/prompt', settings, 'PUT'),
+  getMcpConfig: async (): Promise<McpConfig> => {
+    const response = await fetch('/agent/mcp');
+    return (await response.json()) as McpConfig;
+  },
+  setMcpConfig: (config: McpConfig): Promise<SuccessResponse & Partial<McpConfig>> =>
+    requestJson('/agent/mcp', config, 'PUT'),
+  getMcpStatus: async (): Promise<McpStatusPayload> => {
+    const response = await fetch(sessionPath('mcp'));
+    return (await response.json()) as McpStatusPayload;
+  },
+  setMcpServerEnabled: (name: string, enabled: boolean): Promise<SuccessResponse> =>
+    requestJson(sessionPath('mcp'), { name, enabled }, 'PATCH'),
+  listCheckpoints: async (): Promise<CheckpointListPayload> => {
+    const response = await fetch('/agent/checkpoints');
+    return (await response.json()) as CheckpointListPayload;
+  },
+  restoreCheckpoint: (checkpointId: string): Promise<RestoreCheckpointResponse> =>
+    requestJson(`/agent/checkpoints/${encodeURIComponent(checkpointId)}/restore`),
+  getGitStatus: async (): Promise<GitStatusPayload & { error?: string }> => {
+    const response = await fetch('/agent/git/status');
+    return (await response.json()) as GitStatusPayload & { error?: string };
+  },
+  getGitDiff: async (options: {
+    path?: string;
+    sessionId?: string;
+  }): Promise<Partial<GitDiffPayload> & { error?: string }> => {
+    const params = new URLSearchParams();
+    if (options.path) {
+      params.set('path', options.path);
+    }
+    if (options.sessionId) {
+      params.set('sessionId', options.sessionId);
+    }
+    const response = await fetch(`/agent/git/diff?${params.toString()}`);
+    return (await response.json()) as Partial<GitDiffPayload> & { error?: string };
+  },
+  setGitStaged: (paths: string[], staged: boolean): Promise<SuccessResponse> =>
+    requestJson('/agent/git/stage', { paths, staged }),
+  commitGit: (message: string): Promise<GitCommitResponse> =>
+    requestJson('/agent/git/commit', { message }),
+  listSubagents: async (): Promise<SubagentListResponse> => {
+    const response = await fetch('/agent/agents');
+    return (await response.json()) as SubagentListResponse;
+  },
+  saveSubagent: (
+    agent: SubagentDefinition,
+    previousName?: string
+  ): Promise<SuccessResponse & { agent?: SubagentDefinition }> =>
+    previousName ?
+      requestJson(`/agent/agents/${encodeURIComponent(previousName)}`, agent, 'PUT')
+    : requestJson('/agent/agents', agent),
+  deleteSubagent: (name: string): Promise<SuccessResponse> =>
+    requestJson(`/agent/agents/${encodeURIComponent(name)}`, undefined, 'DELETE'),
+  listSchedules: async (): Promise<ScheduleListPayload> => {
+    const response = await fetch('/agent/schedules');
+    return (await response.json()) as ScheduleListPayload;
+  },
+  saveSchedule: (job: ScheduledJobInput, id?: string): Promise<SaveScheduledJobResponse> =>
+    id ?
+      requestJson(`/agent/schedules/${encodeURIComponent(id)}`, job, 'PATCH')
+    : requestJson('/agent/schedules', job),
+  setSchedulePaused: (id: string, paused: boolean): Promise<SaveScheduledJobResponse> =>
+    requestJson(`/agent/schedules/${encodeURIComponent(id)}`, { paused }, 'PATCH'),
+  deleteSchedule: (id: string): Promise<SuccessResponse> =>
+    requestJson(`/agent/schedules/${encodeURIComponent(id)}`, undefined, 'DELETE'),
+  runSchedule: (id: string): Promise<RunScheduledJobResponse> =>
+    requestJson(`/agent/schedules/${encodeURIComponent(id)}/run`),
   onInit: (callback: (payload: ChatInitPayload) => void) => onEvent('chat:init', callback),
   onMessageReplay: (callback: (payload: ChatMessageReplayPayload) => void) =>
     onEvent('chat:message-replay', callback),
+  onTruncate: (callback: (payload: ChatTruncatePayload) => void) =>
+    onEvent('chat:truncate', callback),
   onStatus: (callback: (payload: ChatStatusPayload) => void) => onEvent('chat:status', callback),
   onMessageChunk: (callback: (chunk: string) => void) => onEvent('chat:message-chunk', callback),
   onThinkingStart: (callback: (data: ThinkingStart) => void) =>
@@ -117,5 +299,29 @@ export const chatClient = {
   onAgentError: (callback: (payload: ChatAgentErrorPayload) => void) =>
     onEvent('chat:agent-error', callback),
   onSystemInit: (callback: (payload: ChatSystemInitPayload) => void) =>
-    onEvent('chat:system-init', callback)
+    onEvent('chat:system-init', callback),
+  onPermissionRequest: (callback: (request: PermissionRequest) => void) =>
+    onEvent('chat:permission-request', callback),
+  onPermissionResolved: (callback: (payload: PermissionResolvedPayload) => void) =>
+    onEvent('chat:permission-resolved', callback),
+  onModelChange: (callback: (payload: GetChatModelPreferenceResponse) => void) =>
+    onEvent('chat:model', callback),
+  onUsage: (callback: (usage: SessionUsage) => void) => onEvent('chat:usage', callback),
+  onQueue: (callback: (payload: MessageQueuePayload) => void) => onEvent('chat:queue', callback),
+  onPromptSettings: (callback: (payload: PromptSettingsPayload) => void) =>
+    onEvent('chat:prompt-settings', callback),
+  onMcpStatus: (callback: (payload: McpStatusPayload) => void) => onEvent('chat:mcp', callback),
+  onCheckpointsUpdate: (callback: (payload: CheckpointListPayload) => void) =>
+    onEvent('checkpoints:update', callback),
+  onFsChange: (callback: (payload: FsChangePayload) => void) =>
+    onEvent('agent:fs-change', callback),
+  onSchedulesUpdate: (callback: (payload: ScheduleListPayload) => void) =>
+    onEvent('schedules:update', callback),
+  onHookPreToolUse: (callback: (payload: PreToolUseHookPayload) => void) =>
+    onEvent('chat:hook-pre-tool-use', callback),
+  onHookPostToolUse: (callback: (payload: PostToolUseHookPayload) => void) =>
+    onEvent('chat:hook-post-tool-use', callback),
+  onHookNotification: (callback: (payload: NotificationHookPayload) => void) =>
+    onEvent('chat:hook-notification', callback),
+  onHookStop: (callback: (payload: StopHookPayload) => void) => onEvent('chat:hook-stop', callback)
 };
@@ -5,7 +5,14 @@ const replayBuffer: Record<string, unknown[]> = {
   'chat:message-replay': [],
   'chat:system-init': [],
   'chat:log': [],
-  'chat:logs': []
+  'chat:logs': [],
+  'chat:permission-request': [],
+  'chat:permission-resolved': [],
+  'chat:model': [],
+  'chat:usage': [],
+  'chat:queue': [],
+  'chat:prompt-settings': [],
+  'chat:mcp': []
 };
 const replayEvents = new Set(Object.keys(replayBuffer));
 
@@ -40,6 +47,14 @@ export function emitEvent(event: string, payload: unknown): void {
     });
   }
 
+  if (event === 'chat:truncate') {
+    // Late subscribers should not see the removed messages replayed.
+    const removed = new Set((payload as { messageIds?: string[] } | null)?.messageIds ?? []);
+    replayBuffer['chat:message-replay'] = replayBuffer['chat:message-replay'].filter(
+      (item) => !removed.has((item as { message?: { id?: string } } | null)?.message?.id ?? '')
+    );
+  }
+
   if (replayEvents.has(event)) {
     replayBuffer[event].push(payload);
   }
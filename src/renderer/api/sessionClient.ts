@@ -0,0 +1,40 @@
+import { chatClient } from './chatClient';
+import { onEvent } from './eventBus';
+import { connectSse } from './sseClient';
+
+export type SessionSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  sessionState: 'idle' | 'running' | 'error';
+  messageCount: number;
+};
+
+export type SessionListPayload = {
+  sessions: SessionSummary[];
+  defaultSessionId: string | null;
+};
+
+export type CreateSessionResponse = {
+  success: boolean;
+  error?: string;
+  session?: SessionSummary;
+};
+
+export const sessionClient = {
+  listSessions: async (): Promise<SessionListPayload> => {
+    const response = await fetch('/sessions');
+    return (await response.json()) as SessionListPayload;
+  },
+  createSession: async (): Promise<CreateSessionResponse> => {
+    const response = await fetch('/sessions', { method: 'POST' });
+    return (await response.json()) as CreateSessionResponse;
+  },
+  switchSession: (sessionId: string) => {
+    chatClient.setActiveSession(sessionId);
+    connectSse(chatClient.getStreamPath());
+  },
+  onSessionsUpdate: (callback: (payload: SessionListPayload) => void) =>
+    onEvent('sessions:update', callback)
+};
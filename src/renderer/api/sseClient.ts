@@ -3,6 +3,7 @@ import { emitEvent } from './eventBus';
 const JSON_EVENTS = new Set([
   'chat:init',
   'chat:message-replay',
+  'chat:truncate',
   'chat:thinking-start',
   'chat:thinking-chunk',
   'chat:tool-use-start',
@@ -19,7 +20,22 @@ const JSON_EVENTS = new Set([
   'chat:system-init',
   'chat:logs',
   'chat:status',
-  'chat:agent-error'
+  'chat:agent-error',
+  'chat:permission-request',
+  'chat:permission-resolved',
+  'chat:model',
+  'chat:usage',
+  'chat:queue',
+  'chat:prompt-settings',
+  'chat:mcp',
+  'chat:hook-pre-tool-use',
+  'chat:hook-post-tool-use',
+  'chat:hook-notification',
+  'chat:hook-stop',
+  'sessions:update',
+  'checkpoints:update',
+  'agent:fs-change',
+  'schedules:update'
 ]);
 
 const STRING_EVENTS = new Set([
@@ -32,6 +48,7 @@ const STRING_EVENTS = new Set([
 const NULL_EVENTS = new Set(['chat:message-complete', 'chat:message-stopped']);
 
 let eventSource: EventSource | null = null;
+let eventSourcePath: string | null = null;
 
 function handleEvent(event: MessageEvent<string>): void {
   const { type, data } = event;
@@ -55,12 +72,15 @@ function handleEvent(event: MessageEvent<string>): void {
   }
 }
 
-export function connectSse(): void {
-  if (eventSource) {
+export function connectSse(path = '/chat/stream'): void {
+  if (eventSource && eventSourcePath === path) {
     return;
   }
+  // Switching sessions: the new stream starts with `chat:init`, which resets client state.
+  disconnectSse();
 
-  eventSource = new EventSource('/chat/stream');
+  eventSourcePath = path;
+  eventSource = new EventSource(path);
   const events = [...JSON_EVENTS, ...STRING_EVENTS, ...NULL_EVENTS];
   events.forEach((eventName) => {
     eventSource?.addEventListener(eventName, handleEvent as EventListener);
@@ -77,4 +97,5 @@ export function disconnectSse(): void {
   }
   eventSource.close();
   eventSource = null;
+  eventSourcePath = null;
 }
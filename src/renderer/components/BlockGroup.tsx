@@ -2,6 +2,7 @@ import { ChevronDown, ChevronUp } from 'lucide-react';
 import { useState } from 'react';
 
 import Markdown from '@/components/Markdown';
+import PermissionRequestCard from '@/components/PermissionRequestCard';
 import {
   getThinkingBadgeConfig,
   getThinkingLabel,
@@ -12,11 +13,15 @@ import { ThinkingHeader } from '@/components/tools/utils';
 import ToolUse from '@/components/ToolUse';
 import type { ContentBlock, ToolUseSimple } from '@/types/chat';
 
+import type { PermissionRequest, PermissionResponsePayload } from '../../shared/types/permission';
+
 interface BlockGroupProps {
   blocks: ContentBlock[];
   isLatestActiveSection?: boolean;
   isStreaming?: boolean;
   hasTextAfter?: boolean;
+  permissionRequests?: PermissionRequest[];
+  onPermissionRespond?: (payload: PermissionResponsePayload) => Promise<void>;
 }
 
 interface ThinkingBadgeProps {
@@ -103,7 +108,9 @@ export default function BlockGroup({
   blocks,
   isLatestActiveSection = false,
   isStreaming = false,
-  hasTextAfter = false
+  hasTextAfter = false,
+  permissionRequests,
+  onPermissionRespond
 }: BlockGroupProps) {
   const [manualExpandedState, setManualExpandedState] = useState<boolean | null>(null);
   const [wasManuallyToggled, setWasManuallyToggled] = useState(false);
@@ -142,6 +149,15 @@ export default function BlockGroup({
 
   if (blocks.length === 0) return null;
 
+  // Approval cards stay visible even when the group is collapsed, since the agent is blocked.
+  const toolIds = new Set(
+    blocks.flatMap((block) =>
+      block.tool ? [block.tool.id, ...(block.tool.subagentCalls?.map((call) => call.id) ?? [])] : []
+    )
+  );
+  const pendingRequests =
+    permissionRequests?.filter((request) => toolIds.has(request.toolUseId)) ?? [];
+
   return (
     <div className="mt-1.5 mb-4">
       <div className="flex flex-wrap items-center gap-1.5">
@@ -171,6 +187,17 @@ export default function BlockGroup({
           return null;
         })}
       </div>
+      {onPermissionRespond && pendingRequests.length > 0 && (
+        <div className="mt-2 space-y-2">
+          {pendingRequests.map((request) => (
+            <PermissionRequestCard
+              key={request.id}
+              request={request}
+              onRespond={onPermissionRespond}
+            />
+          ))}
+        </div>
+      )}
       {isExpanded && hasExpandableContent && (
         <div className="expanded-block-section mt-3 ml-3 pl-2.5">
           <div className="space-y-4">
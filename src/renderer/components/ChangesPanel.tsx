@@ -0,0 +1,263 @@
+import { ChevronDown, ChevronRight, GitBranch } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type { GitFileChange, GitStatusPayload } from '../../shared/types/git';
+
+interface ChangesPanelProps {
+  sessionId: string;
+  sessionState: 'idle' | 'running' | 'error';
+}
+
+type DiffState = { key: string; text: string; truncated: boolean } | null;
+
+const SESSION_DIFF_KEY = '<session>';
+
+function isStaged(file: GitFileChange): boolean {
+  return file.index !== ' ' && file.index !== '?';
+}
+
+function DiffView({ text, truncated }: { text: string; truncated: boolean }) {
+  if (!text) {
+    return <div className="px-3 py-2 text-[11px] text-[var(--ink-muted)]">No changes.</div>;
+  }
+  return (
+    <pre className="max-h-80 overflow-auto bg-[var(--paper-strong)] px-3 py-2 font-mono text-[11px] leading-snug">
+      {text.split('\n').map((line, index) => {
+        const color =
+          line.startsWith('+++') || line.startsWith('---') ? 'text-[var(--ink-muted)]'
+          : line.startsWith('+') ? 'text-emerald-600'
+          : line.startsWith('-') ? 'text-red-600'
+          : line.startsWith('@@') ? 'text-[var(--accent)]'
+          : 'text-[var(--ink)]';
+        return (
+          <div key={index} className={color}>
+            {line || ' '}
+          </div>
+        );
+      })}
+      {truncated && <div className="text-[var(--ink-muted)]">… diff truncated</div>}
+    </pre>
+  );
+}
+
+export default function ChangesPanel({ sessionId, sessionState }: ChangesPanelProps) {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [status, setStatus] = useState<GitStatusPayload | null>(null);
+  const [diff, setDiff] = useState<DiffState>(null);
+  const [commitMessage, setCommitMessage] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const payload = await chatClient.getGitStatus();
+      if (payload.error) {
+        setError(payload.error);
+        return;
+      }
+      setStatus(payload);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read git status.');
+    }
+  }, []);
+
+  // The agent changes files while it runs, so refresh whenever it finishes a turn.
+  useEffect(() => {
+    if (!isCollapsed && sessionState !== 'running') {
+      void refresh();
+    }
+  }, [isCollapsed, sessionState, refresh]);
+
+  const toggleDiff = async (key: string, path?: string) => {
+    if (diff?.key === key) {
+      setDiff(null);
+      return;
+    }
+    try {
+      const payload = await chatClient.getGitDiff(
+        path ? { path } : { sessionId: sessionId || undefined }
+      );
+      if (payload.error) {
+        setError(payload.error);
+        return;
+      }
+      setDiff({ key, text: payload.diff ?? '', truncated: Boolean(payload.truncated) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the diff.');
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setIsBusy(true);
+    try {
+      const response = await action();
+      if (!response.success) {
+        setError(response.error ?? 'Git command failed.');
+        return false;
+      }
+      setDiff(null);
+      await refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Git command failed.');
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const files = status?.isRepo ? status.files : [];
+  const stagedCount = files.filter(isStaged).length;
+
+  const handleCommit = async () => {
+    if (await runAction(() => chatClient.commitGit(commitMessage))) {
+      setCommitMessage('');
+    }
+  };
+
+  return (
+    <div
+      className={`flex h-full flex-col border-l border-[var(--line)] bg-[var(--paper-contrast)]/70 transition-all duration-300 ${isCollapsed ? 'w-12' : 'w-80 lg:w-96'}`}
+    >
+      {isCollapsed ?
+        <div className="flex h-full flex-col items-center">
+          <div className="flex flex-1 items-center justify-center py-4">
+            <button
+              type="button"
+              onClick={() => setIsCollapsed(false)}
+              className="action-button flex items-center justify-center p-2 transition-colors hover:bg-[var(--paper-strong)]"
+              title="Show changes panel"
+            >
+              <GitBranch className="h-5 w-5 text-[var(--ink-muted)]" />
+            </button>
+          </div>
+        </div>
+      : <>
+          <div className="border-b border-[var(--line)] px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div className="text-[11px] font-semibold tracking-[0.2em] text-[var(--ink-muted)] uppercase">
+                Changes
+              </div>
+              <button
+                type="button"
+                onClick={() => setIsCollapsed(true)}
+                className="action-button p-1 hover:bg-[var(--paper-strong)]"
+                title="Hide changes panel"
+              >
+                <ChevronRight className="h-4 w-4 text-[var(--ink-muted)]" />
+              </button>
+            </div>
+            {status?.isRepo && (
+              <div className="mt-2 flex items-center gap-1.5 text-xs text-[var(--ink)]">
+                <GitBranch className="h-3.5 w-3.5 text-[var(--ink-muted)]" />
+                {status.branch ?? `detached at ${status.head?.slice(0, 7) ?? 'unknown'}`}
+              </div>
+            )}
+          </div>
+
+          {status?.isRepo && (
+            <div className="flex items-center gap-2 border-b border-[var(--line)] px-4 py-3">
+              <button
+                type="button"
+                onClick={() => void toggleDiff(SESSION_DIFF_KEY)}
+                className="action-button px-3 py-1 text-[11px] font-semibold"
+              >
+                {diff?.key === SESSION_DIFF_KEY ? 'Hide session diff' : 'Session diff'}
+              </button>
+              <button
+                type="button"
+                onClick={() => void refresh()}
+                className="action-button px-3 py-1 text-[11px] font-semibold"
+              >
+                Refresh
+              </button>
+            </div>
+          )}
+
+          {error && <div className="px-4 py-2 text-[11px] text-red-600">{error}</div>}
+
+          <div className="flex-1 overflow-y-auto">
+            {status && !status.isRepo && (
+              <div className="px-4 py-3 text-xs text-[var(--ink-muted)]">
+                The agent directory is not a git repository.
+              </div>
+            )}
+            {diff?.key === SESSION_DIFF_KEY && (
+              <div className="border-b border-[var(--line)]">
+                <div className="px-4 pt-2 text-[10px] font-semibold tracking-[0.2em] text-[var(--ink-muted)] uppercase">
+                  Since this session started
+                </div>
+                <DiffView text={diff.text} truncated={diff.truncated} />
+              </div>
+            )}
+            {status?.isRepo && files.length === 0 && (
+              <div className="px-4 py-3 text-xs text-[var(--ink-muted)]">Working tree clean.</div>
+            )}
+            <ul>
+              {files.map((file) => (
+                <li key={file.path} className="border-b border-[var(--line)]/60">
+                  <div className="flex items-center gap-2 px-4 py-1.5 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={isStaged(file)}
+                      disabled={isBusy}
+                      title={isStaged(file) ? 'Unstage' : 'Stage'}
+                      onChange={(event) =>
+                        void runAction(() =>
+                          chatClient.setGitStaged([file.path], event.target.checked)
+                        )
+                      }
+                    />
+                    <span className="w-5 shrink-0 font-mono text-[10px] text-[var(--ink-muted)]">
+                      {`${file.index}${file.worktree}`.trim()}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => void toggleDiff(file.path, file.path)}
+                      className="flex min-w-0 flex-1 items-center gap-1 text-left text-[var(--ink)] hover:text-[var(--accent)]"
+                      title={file.originalPath ? `${file.originalPath} → ${file.path}` : file.path}
+                    >
+                      {diff?.key === file.path ?
+                        <ChevronDown className="h-3 w-3 shrink-0" />
+                      : <ChevronRight className="h-3 w-3 shrink-0" />}
+                      <span className="truncate">{file.path}</span>
+                    </button>
+                  </div>
+                  {diff?.key === file.path && (
+                    <DiffView text={diff.text} truncated={diff.truncated} />
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {status?.isRepo && (
+            <div className="border-t border-[var(--line)] px-4 py-3">
+              <textarea
+                value={commitMessage}
+                rows={2}
+                placeholder="Commit message"
+                onChange={(event) => setCommitMessage(event.target.value)}
+                className="w-full resize-none rounded-lg border border-[var(--line)] bg-[var(--paper-strong)] px-2 py-1 text-xs outline-none focus:border-[var(--accent)]"
+              />
+              <div className="mt-2 flex items-center justify-between text-[11px] text-[var(--ink-muted)]">
+                <span>{stagedCount} staged</span>
+                <button
+                  type="button"
+                  onClick={() => void handleCommit()}
+                  disabled={isBusy || stagedCount === 0 || !commitMessage.trim()}
+                  className="action-button bg-[var(--ink)] px-3 py-1 font-semibold text-[var(--paper-strong)] hover:bg-[var(--accent)] disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Commit
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      }
+    </div>
+  );
+}
@@ -2,23 +2,12 @@ import { ChevronLeft, ChevronRight, FileText, Folder, FolderOpen } from 'lucide-
 import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { Tree, type NodeApi } from 'react-arborist';
 
-type DirectoryTreeNode = {
-  id: string;
-  name: string;
-  path: string;
-  type: 'file' | 'dir';
-  children?: DirectoryTreeNode[];
-};
-
-type DirectoryTreeResponse = {
-  root: string;
-  summary: {
-    totalFiles: number;
-    totalDirs: number;
-  };
-  tree: DirectoryTreeNode;
-  truncated: boolean;
-};
+import { chatClient } from '@/api/chatClient';
+import {
+  applyFsChange,
+  type DirectoryTreeNode,
+  type DirectoryTreeResponse
+} from '@/utils/directoryTree';
 
 interface DirectoryPanelProps {
   agentDir: string;
@@ -30,6 +19,9 @@ type FilePreview = {
   size: number;
 };
 
+// How long a file the agent just touched stays highlighted.
+const RECENT_CHANGE_MS = 4000;
+
 function getParentPath(path: string): string {
   if (!path) {
     return '';
@@ -58,6 +50,7 @@ export default function DirectoryPanel({ agentDir }: DirectoryPanelProps) {
   const [isCollapsed, setIsCollapsed] = useState(true);
   const treeContainerRef = useRef<HTMLDivElement>(null);
   const [treeHeight, setTreeHeight] = useState(240);
+  const [recentPaths, setRecentPaths] = useState<Map<string, number>>(new Map());
 
   const refresh = () => {
     setError(null);
@@ -75,6 +68,43 @@ export default function DirectoryPanel({ agentDir }: DirectoryPanelProps) {
     refresh();
   }, [agentDir]);
 
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const unsubscribe = chatClient.onFsChange((change) => {
+      setDirectoryInfo((current) => (current ? applyFsChange(current, change) : current));
+
+      const touched = [...change.added.map((entry) => entry.path), ...change.changed];
+      if (touched.length === 0) {
+        return;
+      }
+      const touchedAt = Date.now();
+      setRecentPaths((current) => {
+        const next = new Map(current);
+        touched.forEach((path) => next.set(path, touchedAt));
+        return next;
+      });
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setRecentPaths((current) => {
+          const next = new Map(current);
+          // Paths touched again since then keep their newer highlight.
+          touched.forEach((path) => {
+            if (next.get(path) === touchedAt) {
+              next.delete(path);
+            }
+          });
+          return next;
+        });
+      }, RECENT_CHANGE_MS);
+      timers.add(timer);
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => clearTimeout(timer));
+    };
+  }, []);
+
   const updateTreeHeight = () => {
     const element = treeContainerRef.current;
     if (!element) {
@@ -305,7 +335,9 @@ export default function DirectoryPanel({ agentDir }: DirectoryPanelProps) {
                       return (
                         <div style={style} className="pr-2">
                           <div
-                            className={`tree-item group ${node.isSelected ? 'selected' : ''}`}
+                            className={`tree-item group ${node.isSelected ? 'selected' : ''} ${
+                              recentPaths.has(data.path) ? 'recent' : ''
+                            }`}
                             onClick={(event) => {
                               node.handleClick(event);
                               setSelectedNode(node.data as DirectoryTreeNode);
@@ -0,0 +1,66 @@
+import { ShieldAlert } from 'lucide-react';
+
+import type { HookActivity } from '@/hooks/useHookActivity';
+
+interface HookActivityPanelProps {
+  activity: HookActivity[];
+}
+
+function describe(entry: HookActivity): string {
+  switch (entry.event) {
+    case 'PreToolUse':
+    case 'PostToolUse':
+      return entry.toolName;
+    case 'Notification':
+      return entry.title ? `${entry.title}: ${entry.message}` : entry.message;
+    case 'Stop':
+      return 'Turn finished';
+  }
+}
+
+export default function HookActivityPanel({ activity }: HookActivityPanelProps) {
+  return (
+    <div className="border-b border-[var(--line)] bg-[var(--paper-contrast)]/70 px-4 py-3">
+      <div className="mb-2 text-[11px] font-semibold tracking-[0.2em] text-[var(--ink-muted)] uppercase">
+        Hook Activity
+      </div>
+      <div className="max-h-52 space-y-1 overflow-y-auto rounded-xl border border-[var(--line)] bg-[var(--paper-strong)] p-3 text-[11px] text-[var(--ink)] shadow-[var(--shadow-soft)]">
+        {activity.length === 0 ?
+          <div className="text-[var(--ink-muted)]">No hook events yet.</div>
+        : activity.map((entry, index) => {
+            const blockedReason = entry.event === 'PreToolUse' ? entry.blockedReason : undefined;
+            const results = 'results' in entry ? entry.results : [];
+            return (
+              <div key={`${index}-${entry.timestamp}`}>
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-[10px] text-[var(--ink-muted)]">
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                  </span>
+                  <span className="font-semibold">{entry.event}</span>
+                  <span className="truncate">{describe(entry)}</span>
+                  {blockedReason && (
+                    <span className="flex items-center gap-1 text-red-600">
+                      <ShieldAlert className="h-3 w-3" />
+                      Blocked
+                    </span>
+                  )}
+                </div>
+                {results.map((result) => (
+                  <div
+                    key={result.rule}
+                    className={`ml-4 font-mono text-[10px] whitespace-pre-wrap ${
+                      result.error || result.blocked ? 'text-red-600' : 'text-[var(--ink-muted)]'
+                    }`}
+                  >
+                    {result.rule}
+                    {(result.output ?? result.error) && ` → ${result.output ?? result.error}`}
+                  </div>
+                ))}
+              </div>
+            );
+          })
+        }
+      </div>
+    </div>
+  );
+}
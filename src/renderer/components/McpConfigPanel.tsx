@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+
+import type { McpConfig } from '../../shared/types/mcp';
+
+interface McpConfigPanelProps {
+  loadConfig: () => Promise<McpConfig>;
+  saveConfig: (config: McpConfig) => Promise<string | null>;
+  onClose: () => void;
+}
+
+export default function McpConfigPanel({ loadConfig, saveConfig, onClose }: McpConfigPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadConfig()
+      .then((config) => {
+        if (isMounted) {
+          setDraft(JSON.stringify(config, null, 2));
+        }
+      })
+      .catch((loadError) => {
+        if (isMounted) {
+          setError(loadError instanceof Error ? loadError.message : 'Failed to load MCP config.');
+        }
+      })
+      .finally(() => {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [loadConfig]);
+
+  const handleSave = async () => {
+    let config: McpConfig;
+    try {
+      config = JSON.parse(draft) as McpConfig;
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : 'Invalid JSON.');
+      return;
+    }
+    setIsSaving(true);
+    const saveError = await saveConfig(config);
+    setIsSaving(false);
+    if (saveError) {
+      setError(saveError);
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 px-4 py-6 backdrop-blur-sm">
+      <div className="glass-panel w-full max-w-2xl">
+        <div className="flex items-start justify-between gap-4 border-b border-[var(--line)] px-5 py-4">
+          <div>
+            <div className="text-[13px] font-semibold text-[var(--ink)]">MCP Servers</div>
+            <div className="text-[11px] text-[var(--ink-muted)]">
+              Edits the project&apos;s .mcp.json. Sessions reconnect after their current turn.
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="action-button px-3 py-1 text-[11px] font-semibold"
+          >
+            Close
+          </button>
+        </div>
+        <div className="space-y-3 px-5 py-4">
+          <textarea
+            value={draft}
+            rows={16}
+            disabled={isLoading}
+            spellCheck={false}
+            onChange={(event) => {
+              setDraft(event.target.value);
+              setError(null);
+            }}
+            className="w-full resize-y rounded-xl border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-2 font-mono text-xs text-[var(--ink)] outline-none focus:border-[var(--accent)]"
+          />
+          {error && <div className="text-[11px] whitespace-pre-wrap text-red-600">{error}</div>}
+          <div className="flex justify-end">
+            <button
+              type="button"
+              disabled={isLoading || isSaving}
+              onClick={handleSave}
+              className="action-button px-3 py-1 text-[11px] font-semibold disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
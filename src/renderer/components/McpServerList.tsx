@@ -0,0 +1,76 @@
+import type { McpServerConnectionStatus, McpServerState } from '../../shared/types/mcp';
+
+interface McpServerListProps {
+  servers: McpServerState[];
+  onToggle: (name: string, enabled: boolean) => void;
+  onEditConfig: () => void;
+}
+
+const STATUS_STYLES: Record<McpServerConnectionStatus, { dot: string; label: string }> = {
+  connected: { dot: 'bg-emerald-500', label: 'Connected' },
+  pending: { dot: 'bg-amber-400', label: 'Connecting' },
+  'needs-auth': { dot: 'bg-amber-400', label: 'Needs auth' },
+  failed: { dot: 'bg-red-500', label: 'Failed' },
+  disabled: { dot: 'bg-[var(--line)]', label: 'Disabled' },
+  inactive: { dot: 'bg-[var(--line)]', label: 'Starts with the next message' }
+};
+
+export default function McpServerList({ servers, onToggle, onEditConfig }: McpServerListProps) {
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between">
+        <div className="text-[10px] font-semibold tracking-[0.2em] text-[var(--ink-muted)] uppercase">
+          MCP Servers
+        </div>
+        <button
+          type="button"
+          onClick={onEditConfig}
+          className="action-button px-2 py-0.5 text-[10px] font-semibold"
+        >
+          Edit config
+        </button>
+      </div>
+      {servers.length === 0 ?
+        <div className="text-[11px] text-[var(--ink-muted)]">No servers in .mcp.json.</div>
+      : servers.map((server) => {
+          const status = STATUS_STYLES[server.status];
+          return (
+            <div
+              key={server.name}
+              className="rounded-xl border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-2"
+            >
+              <div className="flex items-center gap-2 text-xs text-[var(--ink)]">
+                <span className={`h-2 w-2 shrink-0 rounded-full ${status.dot}`} />
+                <span className="font-semibold">{server.name}</span>
+                <span className="text-[10px] text-[var(--ink-muted)]">{status.label}</span>
+                <label className="ml-auto flex items-center gap-1.5 text-[10px] text-[var(--ink-muted)]">
+                  <input
+                    type="checkbox"
+                    checked={server.enabled}
+                    onChange={(event) => onToggle(server.name, event.target.checked)}
+                  />
+                  Enabled
+                </label>
+              </div>
+              {server.error && (
+                <div className="mt-1 text-[11px] break-all text-red-600">{server.error}</div>
+              )}
+              {server.tools.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {server.tools.map((tool) => (
+                    <span
+                      key={tool}
+                      className="rounded-full border border-[var(--line)] px-2 py-0.5 text-[10px] text-[var(--ink)]"
+                    >
+                      {tool}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })
+      }
+    </div>
+  );
+}
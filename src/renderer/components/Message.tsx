@@ -1,14 +1,65 @@
+import { GitBranch, Pencil, Undo2 } from 'lucide-react';
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+
 import AttachmentPreviewList from '@/components/AttachmentPreviewList';
 import BlockGroup from '@/components/BlockGroup';
 import Markdown from '@/components/Markdown';
 import type { ContentBlock, Message as MessageType } from '@/types/chat';
 
+import type { PermissionRequest, PermissionResponsePayload } from '../../shared/types/permission';
+
 interface MessageProps {
   message: MessageType;
   isLoading?: boolean;
+  permissionRequests?: PermissionRequest[];
+  onPermissionRespond?: (payload: PermissionResponsePayload) => Promise<void>;
+  onFork?: (messageId: string) => void;
+  // Rewinds the conversation to this user message and resends it with the edited text.
+  onEdit?: (messageId: string, text: string) => void;
+  // Undoes the file changes made from this user message on.
+  onRestore?: (messageId: string) => void;
+}
+
+function ActionButton({
+  title,
+  onClick,
+  children
+}: {
+  title: string;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      title={title}
+      onClick={onClick}
+      className="rounded-full p-1 text-[var(--ink-muted)] opacity-0 transition group-hover:opacity-100 hover:bg-[var(--paper-contrast)] hover:text-[var(--ink)] focus:opacity-100"
+    >
+      {children}
+    </button>
+  );
 }
 
-export default function Message({ message, isLoading = false }: MessageProps) {
+export default function Message({
+  message,
+  isLoading = false,
+  permissionRequests,
+  onPermissionRespond,
+  onFork,
+  onEdit,
+  onRestore
+}: MessageProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const forkButton =
+    onFork && !isLoading ?
+      <ActionButton title="Fork conversation from here" onClick={() => onFork(message.id)}>
+        <GitBranch className="h-3.5 w-3.5" />
+      </ActionButton>
+    : null;
+
   if (message.role === 'user') {
     const userContent = typeof message.content === 'string' ? message.content : '';
     const hasText = userContent.trim().length > 0;
@@ -25,14 +76,73 @@ export default function Message({ message, isLoading = false }: MessageProps) {
         )
       })) ?? [];
 
+    const saveEdit = () => {
+      if (onEdit && (draft.trim() || hasAttachments) && draft !== userContent) {
+        onEdit(message.id, draft);
+      }
+      setIsEditing(false);
+    };
+
     return (
-      <div className="flex justify-end px-1">
+      <div className="group flex items-start justify-end gap-1 px-1">
+        {onEdit && !isEditing && (
+          <ActionButton
+            title="Edit and resend"
+            onClick={() => {
+              setDraft(userContent);
+              setIsEditing(true);
+            }}
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </ActionButton>
+        )}
+        {!isEditing && forkButton}
+        {onRestore && !isEditing && !isLoading && (
+          <ActionButton title="Undo file changes from here" onClick={() => onRestore(message.id)}>
+            <Undo2 className="h-3.5 w-3.5" />
+          </ActionButton>
+        )}
         <article className="relative max-w-[min(34rem,calc(100%-2rem))] rounded-2xl border border-[var(--line)] bg-[var(--paper-strong)] px-4 py-3 text-base leading-relaxed text-[var(--ink)] shadow-[var(--shadow-soft)]">
-          {hasText && (
-            <div className="prose prose-base max-w-none prose-neutral">
-              <Markdown>{userContent}</Markdown>
+          {isEditing ?
+            <div className="min-w-[min(28rem,70vw)]">
+              <textarea
+                value={draft}
+                autoFocus
+                rows={3}
+                onChange={(event) => setDraft(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter' && !event.shiftKey) {
+                    event.preventDefault();
+                    saveEdit();
+                  } else if (event.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                className="w-full resize-y rounded-lg border border-[var(--line)] bg-transparent px-2 py-1 outline-none focus:border-[var(--accent)]"
+              />
+              <div className="mt-2 flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(false)}
+                  className="action-button px-3 py-1 text-[11px] font-semibold"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={saveEdit}
+                  className="action-button bg-[var(--ink)] px-3 py-1 text-[11px] font-semibold text-[var(--paper-strong)] hover:bg-[var(--accent)]"
+                >
+                  Resend
+                </button>
+              </div>
             </div>
-          )}
+          : hasText && (
+              <div className="prose prose-base max-w-none prose-neutral">
+                <Markdown>{userContent}</Markdown>
+              </div>
+            )
+          }
           {hasAttachments && (
             <div className={hasText ? 'mt-2' : ''}>
               <AttachmentPreviewList attachments={attachmentItems} />
@@ -46,13 +156,14 @@ export default function Message({ message, isLoading = false }: MessageProps) {
   // Assistant message
   if (typeof message.content === 'string') {
     return (
-      <div className="flex justify-start">
+      <div className="group flex justify-start">
         <article className="w-full px-3 py-2">
           <div className="rounded-2xl border border-[var(--line)]/60 bg-[var(--paper-strong)]/70 px-4 py-3 shadow-[var(--shadow-soft)]">
             <div className="prose prose-base max-w-none text-base leading-relaxed prose-neutral">
               <Markdown>{message.content}</Markdown>
             </div>
           </div>
+          {forkButton && <div className="mt-1 flex">{forkButton}</div>}
         </article>
       </div>
     );
@@ -101,7 +212,7 @@ export default function Message({ message, isLoading = false }: MessageProps) {
   const isStreaming = isLoading && hasIncompleteBlocks;
 
   return (
-    <div className="flex justify-start">
+    <div className="group flex justify-start">
       <article className="w-full px-3 py-2">
         <div className="space-y-3">
           {groupedBlocks.map((item, index) => {
@@ -137,10 +248,13 @@ export default function Message({ message, isLoading = false }: MessageProps) {
                 isLatestActiveSection={isLatestActiveSection}
                 isStreaming={isStreaming}
                 hasTextAfter={hasTextAfter}
+                permissionRequests={permissionRequests}
+                onPermissionRespond={onPermissionRespond}
               />
             );
           })}
         </div>
+        {forkButton && <div className="mt-1 flex">{forkButton}</div>}
       </article>
     </div>
   );
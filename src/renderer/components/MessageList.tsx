@@ -6,11 +6,20 @@ import Message from '@/components/Message';
 import { getRandomSuggestion } from '@/constants/chatSuggestions';
 import type { Message as MessageType } from '@/types/chat';
 
+import type { PermissionRequest, PermissionResponsePayload } from '../../shared/types/permission';
+
 interface MessageListProps {
   messages: MessageType[];
   isLoading: boolean;
   containerRef: RefObject<HTMLDivElement | null>;
   bottomPadding?: number;
+  permissionRequests?: PermissionRequest[];
+  onPermissionRespond?: (payload: PermissionResponsePayload) => Promise<void>;
+  onFork?: (messageId: string) => void;
+  onEdit?: (messageId: string, text: string) => void;
+  // User messages whose turn changed files, which `onRestore` can undo.
+  restorableMessageIds?: Set<string>;
+  onRestore?: (messageId: string) => void;
 }
 
 const containerClasses = 'flex-1 overflow-y-auto px-3 py-3';
@@ -19,7 +28,13 @@ export default function MessageList({
   messages,
   isLoading,
   containerRef,
-  bottomPadding
+  bottomPadding,
+  permissionRequests,
+  onPermissionRespond,
+  onFork,
+  onEdit,
+  restorableMessageIds,
+  onRestore
 }: MessageListProps) {
   const containerStyle: CSSProperties | undefined =
     bottomPadding ? { paddingBottom: bottomPadding } : undefined;
@@ -63,6 +78,11 @@ export default function MessageList({
             key={message.id}
             message={message}
             isLoading={isLoading && index === messages.length - 1}
+            permissionRequests={permissionRequests}
+            onPermissionRespond={onPermissionRespond}
+            onFork={onFork}
+            onEdit={onEdit}
+            onRestore={restorableMessageIds?.has(message.id) ? onRestore : undefined}
           />
         ))}
         {isLoading && (
@@ -0,0 +1,55 @@
+import { Loader2 } from 'lucide-react';
+
+import type { ChatModelPreference } from '../../shared/types/ipc';
+
+interface ModelSelectorProps {
+  preference: ChatModelPreference | null;
+  model: string | null;
+  isUpdating: boolean;
+  onChange: (preference: ChatModelPreference) => void;
+}
+
+const OPTIONS: { preference: ChatModelPreference; label: string }[] = [
+  { preference: 'fast', label: 'Fast' },
+  { preference: 'smart-sonnet', label: 'Sonnet' },
+  { preference: 'smart-opus', label: 'Opus' }
+];
+
+export default function ModelSelector({
+  preference,
+  model,
+  isUpdating,
+  onChange
+}: ModelSelectorProps) {
+  return (
+    <div
+      className="flex items-center gap-1 rounded-full border border-[var(--line)] bg-[var(--paper-contrast)] p-0.5"
+      title={model ?? undefined}
+    >
+      {OPTIONS.map((option) => {
+        const isActive = option.preference === preference;
+        return (
+          <button
+            key={option.preference}
+            type="button"
+            aria-pressed={isActive}
+            disabled={isUpdating}
+            onClick={() => {
+              if (!isActive) {
+                onChange(option.preference);
+              }
+            }}
+            className={`rounded-full px-2.5 py-0.5 text-[11px] font-semibold transition disabled:cursor-not-allowed ${
+              isActive ?
+                'bg-[var(--ink)] text-[var(--paper-strong)]'
+              : 'text-[var(--ink-muted)] hover:text-[var(--ink)]'
+            }`}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+      {isUpdating && <Loader2 className="mx-1 h-3 w-3 animate-spin text-[var(--ink-muted)]" />}
+    </div>
+  );
+}
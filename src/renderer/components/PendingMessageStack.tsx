@@ -0,0 +1,133 @@
+import { ArrowDown, ArrowUp, Check, Clock, Paperclip, Pencil, X } from 'lucide-react';
+import { useState } from 'react';
+
+import type { QueuedMessage, UpdateQueuedMessagePayload } from '../../shared/types/queue';
+
+interface PendingMessageStackProps {
+  items: QueuedMessage[];
+  onCancel: (itemId: string) => void;
+  onUpdate: (itemId: string, payload: UpdateQueuedMessagePayload) => void;
+}
+
+const iconButtonClass =
+  'rounded-full p-1 text-[var(--ink-muted)] transition hover:bg-[var(--paper-contrast)] hover:text-[var(--ink)] disabled:cursor-not-allowed disabled:opacity-40';
+
+export default function PendingMessageStack({
+  items,
+  onCancel,
+  onUpdate
+}: PendingMessageStackProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const startEditing = (item: QueuedMessage) => {
+    setEditingId(item.id);
+    setDraft(item.text);
+  };
+
+  const saveEdit = (itemId: string) => {
+    if (draft.trim()) {
+      onUpdate(itemId, { text: draft });
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mx-6 mt-3 rounded-2xl border border-[var(--line)] bg-[var(--paper-contrast)]/60 px-3 py-2">
+      <div className="mb-1 flex items-center gap-1.5 text-[10px] font-semibold tracking-[0.2em] text-[var(--ink-muted)] uppercase">
+        <Clock className="h-3 w-3" />
+        Queued ({items.length})
+      </div>
+      <ol className="space-y-1">
+        {items.map((item, index) => (
+          <li
+            key={item.id}
+            className="flex items-start gap-2 rounded-xl bg-[var(--paper-strong)] px-3 py-2 text-xs text-[var(--ink)]"
+          >
+            <span className="mt-0.5 text-[10px] font-semibold text-[var(--ink-muted)]">
+              {index + 1}
+            </span>
+            <div className="min-w-0 flex-1">
+              {editingId === item.id ?
+                <textarea
+                  value={draft}
+                  autoFocus
+                  rows={2}
+                  onChange={(event) => setDraft(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter' && !event.shiftKey) {
+                      event.preventDefault();
+                      saveEdit(item.id);
+                    } else if (event.key === 'Escape') {
+                      setEditingId(null);
+                    }
+                  }}
+                  className="w-full resize-none rounded-lg border border-[var(--line)] bg-transparent px-2 py-1 outline-none focus:border-[var(--accent)]"
+                />
+              : <div className="line-clamp-2 break-words whitespace-pre-wrap">
+                  {item.text || <span className="text-[var(--ink-muted)]">(attachments only)</span>}
+                </div>
+              }
+              {item.attachments.length > 0 && (
+                <div className="mt-1 flex items-center gap-1 text-[10px] text-[var(--ink-muted)]">
+                  <Paperclip className="h-3 w-3" />
+                  {item.attachments.map((attachment) => attachment.name).join(', ')}
+                </div>
+              )}
+            </div>
+            <div className="flex shrink-0 items-center">
+              {editingId === item.id ?
+                <button
+                  type="button"
+                  title="Save"
+                  onClick={() => saveEdit(item.id)}
+                  className={iconButtonClass}
+                >
+                  <Check className="h-3.5 w-3.5" />
+                </button>
+              : <button
+                  type="button"
+                  title="Edit"
+                  onClick={() => startEditing(item)}
+                  className={iconButtonClass}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </button>
+              }
+              <button
+                type="button"
+                title="Move up"
+                disabled={index === 0}
+                onClick={() => onUpdate(item.id, { position: index - 1 })}
+                className={iconButtonClass}
+              >
+                <ArrowUp className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                title="Move down"
+                disabled={index === items.length - 1}
+                onClick={() => onUpdate(item.id, { position: index + 1 })}
+                className={iconButtonClass}
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                title="Cancel"
+                onClick={() => onCancel(item.id)}
+                className={iconButtonClass}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
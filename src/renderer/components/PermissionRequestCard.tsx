@@ -0,0 +1,132 @@
+import { ShieldQuestion } from 'lucide-react';
+import { useState } from 'react';
+
+import type { PermissionRequest, PermissionResponsePayload } from '../../shared/types/permission';
+
+interface PermissionRequestCardProps {
+  request: PermissionRequest;
+  onRespond: (payload: PermissionResponsePayload) => Promise<void>;
+}
+
+type Mode = 'choose' | 'always' | 'deny';
+
+export default function PermissionRequestCard({ request, onRespond }: PermissionRequestCardProps) {
+  const [mode, setMode] = useState<Mode>('choose');
+  const [pattern, setPattern] = useState(request.suggestedPattern ?? '');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const respond = async (payload: Omit<PermissionResponsePayload, 'requestId'>) => {
+    setIsSubmitting(true);
+    try {
+      await onRespond({ requestId: request.id, ...payload });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const detail = request.subject ?? JSON.stringify(request.input, null, 2);
+
+  return (
+    <div className="rounded-2xl border border-[var(--accent)]/40 bg-white/95 px-4 py-3 text-[11px] text-[var(--ink)] shadow-[var(--shadow-soft)]">
+      <div className="flex items-start gap-2">
+        <ShieldQuestion className="mt-0.5 h-4 w-4 shrink-0 text-[var(--accent)]" />
+        <div className="min-w-0 flex-1">
+          <div className="font-semibold">
+            Allow <span className="font-mono">{request.toolName}</span>?
+          </div>
+          {request.decisionReason && (
+            <div className="mt-1 text-[var(--ink-muted)]">{request.decisionReason}</div>
+          )}
+          <pre className="mt-2 max-h-40 overflow-auto rounded-lg bg-[var(--paper-contrast)] px-2 py-1.5 font-mono text-[11px] whitespace-pre-wrap">
+            {detail}
+          </pre>
+
+          {mode === 'always' && (
+            <label className="mt-2 block">
+              <span className="text-[var(--ink-muted)]">
+                Pattern (leave empty to allow every {request.toolName} call)
+              </span>
+              <input
+                value={pattern}
+                onChange={(event) => setPattern(event.target.value)}
+                className="mt-1 w-full rounded-lg border border-[var(--line)] bg-[var(--paper-strong)] px-2 py-1 font-mono outline-none focus:border-[var(--accent)]"
+              />
+            </label>
+          )}
+          {mode === 'deny' && (
+            <label className="mt-2 block">
+              <span className="text-[var(--ink-muted)]">Reason (sent to the agent)</span>
+              <input
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                className="mt-1 w-full rounded-lg border border-[var(--line)] bg-[var(--paper-strong)] px-2 py-1 outline-none focus:border-[var(--accent)]"
+              />
+            </label>
+          )}
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            {mode === 'choose' && (
+              <>
+                <button
+                  type="button"
+                  disabled={isSubmitting}
+                  onClick={() => respond({ decision: 'allow' })}
+                  className="action-button bg-[var(--ink)] px-3 py-1 font-semibold text-[var(--paper-strong)] hover:bg-[var(--accent)]"
+                >
+                  Allow once
+                </button>
+                <button
+                  type="button"
+                  disabled={isSubmitting}
+                  onClick={() => setMode('always')}
+                  className="action-button px-3 py-1 font-semibold"
+                >
+                  Always allow…
+                </button>
+                <button
+                  type="button"
+                  disabled={isSubmitting}
+                  onClick={() => setMode('deny')}
+                  className="action-button px-3 py-1 font-semibold"
+                >
+                  Deny…
+                </button>
+              </>
+            )}
+            {mode === 'always' && (
+              <button
+                type="button"
+                disabled={isSubmitting}
+                onClick={() => respond({ decision: 'allow-always', pattern })}
+                className="action-button bg-[var(--ink)] px-3 py-1 font-semibold text-[var(--paper-strong)] hover:bg-[var(--accent)]"
+              >
+                Always allow
+              </button>
+            )}
+            {mode === 'deny' && (
+              <button
+                type="button"
+                disabled={isSubmitting}
+                onClick={() => respond({ decision: 'deny', message: reason })}
+                className="action-button bg-[var(--ink)] px-3 py-1 font-semibold text-[var(--paper-strong)] hover:bg-[var(--accent)]"
+              >
+                Deny
+              </button>
+            )}
+            {mode !== 'choose' && (
+              <button
+                type="button"
+                disabled={isSubmitting}
+                onClick={() => setMode('choose')}
+                className="action-button px-3 py-1 font-semibold"
+              >
+                Back
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+
+import type { OutputStyleInfo, PromptSettings } from '../../shared/types/prompt';
+
+interface PromptSettingsPanelProps {
+  settings: PromptSettings | null;
+  outputStyles: OutputStyleInfo[];
+  isSaving: boolean;
+  onSave: (settings: PromptSettings) => void;
+  onClose: () => void;
+}
+
+// Select value standing in for `outputStyle: null`.
+const SETTINGS_FILE_STYLE = '';
+
+export default function PromptSettingsPanel({
+  settings,
+  outputStyles,
+  isSaving,
+  onSave,
+  onClose
+}: PromptSettingsPanelProps) {
+  const [appendSystemPrompt, setAppendSystemPrompt] = useState(settings?.appendSystemPrompt ?? '');
+  const [outputStyle, setOutputStyle] = useState(settings?.outputStyle ?? SETTINGS_FILE_STYLE);
+  const selectedStyle = outputStyles.find((style) => style.name === outputStyle);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 px-4 py-6 backdrop-blur-sm">
+      <div className="glass-panel w-full max-w-2xl">
+        <div className="flex items-start justify-between gap-4 border-b border-[var(--line)] px-5 py-4">
+          <div>
+            <div className="text-[13px] font-semibold text-[var(--ink)]">Prompt</div>
+            <div className="text-[11px] text-[var(--ink-muted)]">
+              Saved to the agent directory. Running sessions restart after the current turn and keep
+              their conversation.
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="action-button px-3 py-1 text-[11px] font-semibold"
+          >
+            Close
+          </button>
+        </div>
+        <div className="space-y-4 px-5 py-4">
+          <label className="grid gap-2">
+            <span className="text-[10px] font-semibold tracking-[0.2em] text-[var(--ink-muted)] uppercase">
+              Output style
+            </span>
+            <select
+              value={outputStyle}
+              onChange={(event) => setOutputStyle(event.target.value)}
+              className="rounded-xl border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-2 text-xs text-[var(--ink)] outline-none focus:border-[var(--accent)]"
+            >
+              <option value={SETTINGS_FILE_STYLE}>From Claude settings</option>
+              {outputStyles.map((style) => (
+                <option key={`${style.source}-${style.name}`} value={style.name}>
+                  {style.name}
+                  {style.source === 'built-in' ? '' : ` (${style.source})`}
+                </option>
+              ))}
+            </select>
+            {selectedStyle?.description && (
+              <span className="text-[11px] text-[var(--ink-muted)]">
+                {selectedStyle.description}
+              </span>
+            )}
+          </label>
+          <label className="grid gap-2">
+            <span className="text-[10px] font-semibold tracking-[0.2em] text-[var(--ink-muted)] uppercase">
+              Appended system prompt
+            </span>
+            <textarea
+              value={appendSystemPrompt}
+              rows={8}
+              placeholder="Extra instructions added to the system prompt"
+              onChange={(event) => setAppendSystemPrompt(event.target.value)}
+              className="resize-y rounded-xl border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-2 font-mono text-xs text-[var(--ink)] outline-none focus:border-[var(--accent)]"
+            />
+          </label>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              disabled={isSaving}
+              onClick={() =>
+                onSave({
+                  appendSystemPrompt,
+                  outputStyle: outputStyle === SETTINGS_FILE_STYLE ? null : outputStyle
+                })
+              }
+              className="action-button px-3 py-1 text-[11px] font-semibold disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
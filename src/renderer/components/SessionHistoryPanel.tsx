@@ -0,0 +1,89 @@
+import { Plus } from 'lucide-react';
+
+import type { SessionSummary } from '@/api/sessionClient';
+
+interface SessionHistoryPanelProps {
+  sessions: SessionSummary[];
+  activeSessionId: string;
+  onSelect: (sessionId: string) => void;
+  onNewChat: () => void;
+  onClose: () => void;
+}
+
+function formatUpdatedAt(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return date.toLocaleString();
+}
+
+export default function SessionHistoryPanel({
+  sessions,
+  activeSessionId,
+  onSelect,
+  onNewChat,
+  onClose
+}: SessionHistoryPanelProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 px-4 py-6 backdrop-blur-sm">
+      <div className="glass-panel w-full max-w-2xl">
+        <div className="flex items-start justify-between gap-4 border-b border-[var(--line)] px-5 py-4">
+          <div>
+            <div className="text-[13px] font-semibold text-[var(--ink)]">Sessions</div>
+            <div className="text-[11px] text-[var(--ink-muted)]">
+              Every session runs against the same agent directory.
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={onNewChat}
+              className="action-button flex items-center gap-1 px-3 py-1 text-[11px] font-semibold"
+            >
+              <Plus className="h-3 w-3" />
+              New
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="action-button px-3 py-1 text-[11px] font-semibold"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+        <div className="max-h-[60vh] overflow-y-auto px-3 py-3">
+          {sessions.length === 0 ?
+            <div className="px-2 py-4 text-[11px] text-[var(--ink-muted)]">No sessions yet.</div>
+          : sessions.map((session) => {
+              const isActive = session.id === activeSessionId;
+              return (
+                <button
+                  key={session.id}
+                  type="button"
+                  onClick={() => onSelect(session.id)}
+                  className={`flex w-full items-start justify-between gap-3 rounded-xl px-3 py-2 text-left transition-colors ${
+                    isActive ? 'bg-[var(--paper-contrast)]' : 'hover:bg-[var(--paper-contrast)]/60'
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="truncate text-xs font-semibold text-[var(--ink)]">
+                      {session.title}
+                    </div>
+                    <div className="mt-1 text-[10px] text-[var(--ink-muted)]">
+                      {formatUpdatedAt(session.updatedAt)} · {session.messageCount} messages
+                    </div>
+                  </div>
+                  <span className="shrink-0 rounded-full border border-[var(--line)] bg-[var(--paper-strong)] px-2 py-0.5 text-[10px] text-[var(--ink-muted)]">
+                    {session.sessionState}
+                  </span>
+                </button>
+              );
+            })
+          }
+        </div>
+      </div>
+    </div>
+  );
+}
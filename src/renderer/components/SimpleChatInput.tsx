@@ -1,20 +1,32 @@
-import { ArrowUp } from 'lucide-react';
+import { ArrowUp, Paperclip } from 'lucide-react';
 import { useEffect, useRef } from 'react';
 
+import AttachmentPreviewList, {
+  type AttachmentPreviewItem
+} from '@/components/AttachmentPreviewList';
+
 interface SimpleChatInputProps {
   value: string;
   onChange: (value: string) => void;
   onSend: () => void;
   isLoading: boolean;
+  attachments?: AttachmentPreviewItem[];
+  onFilesSelected?: (files: File[]) => void;
+  onRemoveAttachment?: (id: string) => void;
 }
 
 export default function SimpleChatInput({
   value,
   onChange,
   onSend,
-  isLoading
+  isLoading,
+  attachments = [],
+  onFilesSelected,
+  onRemoveAttachment
 }: SimpleChatInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canSend = Boolean(value.trim()) || attachments.length > 0;
 
   useEffect(() => {
     textareaRef.current?.focus();
@@ -23,32 +35,77 @@ export default function SimpleChatInput({
   const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (event.key === 'Enter' && !event.shiftKey) {
       event.preventDefault();
-      if (!isLoading && value.trim()) {
+      if (!isLoading && canSend) {
         onSend();
       }
     }
   };
 
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      onFilesSelected?.(files);
+    }
+    // Allow picking the same file again after removing it.
+    event.target.value = '';
+  };
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(event.clipboardData.files);
+    if (files.length > 0 && onFilesSelected) {
+      event.preventDefault();
+      onFilesSelected(files);
+    }
+  };
+
   return (
     <div className="border-t border-[var(--line)] px-6 py-4">
-      <div className="mx-auto flex max-w-3xl items-end gap-3 rounded-2xl border border-[var(--line)] bg-transparent px-4 py-3">
-        <textarea
-          ref={textareaRef}
-          value={value}
-          onChange={(event) => onChange(event.target.value)}
-          onKeyDown={handleKeyDown}
-          rows={1}
-          placeholder="输入你要解决的bug 链接"
-          className="min-h-[44px] w-full resize-none bg-transparent text-sm text-[var(--ink)] outline-none placeholder:text-[var(--ink-muted)]"
+      <div className="mx-auto max-w-3xl rounded-2xl border border-[var(--line)] bg-transparent px-4 py-3">
+        <AttachmentPreviewList
+          attachments={attachments}
+          onRemove={onRemoveAttachment}
+          className="mb-3"
+          imageDimensions="h-20 w-20"
         />
-        <button
-          type="button"
-          onClick={onSend}
-          disabled={isLoading || !value.trim()}
-          className="flex h-8 w-8 items-center justify-center rounded-full bg-[var(--ink)] text-[var(--paper-strong)] transition-colors hover:bg-[var(--accent)] disabled:bg-[var(--ink-muted)] disabled:cursor-not-allowed"
-        >
-          <ArrowUp className="h-4 w-4" />
-        </button>
+        <div className="flex items-end gap-3">
+          {onFilesSelected && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={handleFileChange}
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                title="Attach files"
+                className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full border border-[var(--line)] text-[var(--ink-muted)] transition-colors hover:text-[var(--ink)]"
+              >
+                <Paperclip className="h-4 w-4" />
+              </button>
+            </>
+          )}
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            rows={1}
+            placeholder="输入你要解决的bug 链接"
+            className="min-h-[44px] w-full resize-none bg-transparent text-sm text-[var(--ink)] outline-none placeholder:text-[var(--ink-muted)]"
+          />
+          <button
+            type="button"
+            onClick={onSend}
+            disabled={isLoading || !canSend}
+            className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-[var(--ink)] text-[var(--paper-strong)] transition-colors hover:bg-[var(--accent)] disabled:cursor-not-allowed disabled:bg-[var(--ink-muted)]"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,228 @@
+import { Plus } from 'lucide-react';
+import { useState } from 'react';
+
+import { useSubagents } from '@/hooks/useSubagents';
+
+import type { SubagentDefinition, SubagentModel } from '../../shared/types/subagent';
+
+interface SubagentsPanelProps {
+  onClose: () => void;
+}
+
+type Draft = {
+  name: string;
+  description: string;
+  tools: string;
+  model: SubagentModel | '';
+  prompt: string;
+};
+
+const EMPTY_DRAFT: Draft = { name: '', description: '', tools: '', model: '', prompt: '' };
+const MODEL_OPTIONS: SubagentModel[] = ['inherit', 'sonnet', 'opus', 'haiku'];
+
+const fieldClass =
+  'rounded-xl border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-2 text-xs text-[var(--ink)] outline-none focus:border-[var(--accent)]';
+const labelClass = 'text-[10px] font-semibold tracking-[0.2em] text-[var(--ink-muted)] uppercase';
+
+function toDraft(agent: SubagentDefinition): Draft {
+  return {
+    name: agent.name,
+    description: agent.description,
+    tools: agent.tools?.join(', ') ?? '',
+    model: agent.model ?? '',
+    prompt: agent.prompt
+  };
+}
+
+function fromDraft(draft: Draft): SubagentDefinition {
+  const tools = draft.tools
+    .split(',')
+    .map((tool) => tool.trim())
+    .filter(Boolean);
+  return {
+    name: draft.name.trim(),
+    description: draft.description,
+    ...(tools.length > 0 ? { tools } : {}),
+    ...(draft.model ? { model: draft.model } : {}),
+    prompt: draft.prompt
+  };
+}
+
+export default function SubagentsPanel({ onClose }: SubagentsPanelProps) {
+  const { agents, isLoading, error: loadError, saveAgent, deleteAgent } = useSubagents();
+  // null while creating a new subagent.
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectAgent = (agent: SubagentDefinition | null) => {
+    setSelectedName(agent?.name ?? null);
+    setDraft(agent ? toDraft(agent) : EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const updateDraft = (update: Partial<Draft>) => {
+    setDraft((prev) => ({ ...prev, ...update }));
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const agent = fromDraft(draft);
+    const saveError = await saveAgent(agent, selectedName ?? undefined);
+    setIsSaving(false);
+    if (saveError) {
+      setError(saveError);
+      return;
+    }
+    setSelectedName(agent.name);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedName || !window.confirm(`Delete the "${selectedName}" subagent?`)) {
+      return;
+    }
+    const deleteError = await deleteAgent(selectedName);
+    if (deleteError) {
+      setError(deleteError);
+      return;
+    }
+    selectAgent(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 px-4 py-6 backdrop-blur-sm">
+      <div className="glass-panel flex max-h-[90vh] w-full max-w-4xl flex-col">
+        <div className="flex items-start justify-between gap-4 border-b border-[var(--line)] px-5 py-4">
+          <div>
+            <div className="text-[13px] font-semibold text-[var(--ink)]">Subagents</div>
+            <div className="text-[11px] text-[var(--ink-muted)]">
+              Saved to .claude/agents. Sessions pick up changes after their current turn.
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="action-button px-3 py-1 text-[11px] font-semibold"
+          >
+            Close
+          </button>
+        </div>
+        <div className="flex min-h-0 flex-1">
+          <div className="w-56 shrink-0 space-y-1 overflow-y-auto border-r border-[var(--line)] p-3">
+            <button
+              type="button"
+              onClick={() => selectAgent(null)}
+              className={`flex w-full items-center gap-1.5 rounded-lg px-2 py-1.5 text-left text-xs font-semibold ${
+                selectedName === null ?
+                  'bg-[var(--paper-contrast)] text-[var(--ink)]'
+                : 'text-[var(--ink-muted)] hover:text-[var(--ink)]'
+              }`}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              New subagent
+            </button>
+            {isLoading && (
+              <div className="px-2 text-[11px] text-[var(--ink-muted)]">Loading...</div>
+            )}
+            {loadError && <div className="px-2 text-[11px] text-red-600">{loadError}</div>}
+            {agents.map((agent) => (
+              <button
+                key={agent.name}
+                type="button"
+                onClick={() => selectAgent(agent)}
+                className={`w-full rounded-lg px-2 py-1.5 text-left ${
+                  selectedName === agent.name ?
+                    'bg-[var(--paper-contrast)]'
+                  : 'hover:bg-[var(--paper-contrast)]/60'
+                }`}
+              >
+                <div className="text-xs font-semibold text-[var(--ink)]">{agent.name}</div>
+                <div className="line-clamp-2 text-[10px] text-[var(--ink-muted)]">
+                  {agent.description}
+                </div>
+              </button>
+            ))}
+          </div>
+          <div className="min-w-0 flex-1 space-y-3 overflow-y-auto px-5 py-4">
+            <label className="grid gap-1.5">
+              <span className={labelClass}>Name</span>
+              <input
+                value={draft.name}
+                placeholder="code-reviewer"
+                onChange={(event) => updateDraft({ name: event.target.value })}
+                className={fieldClass}
+              />
+            </label>
+            <label className="grid gap-1.5">
+              <span className={labelClass}>Description</span>
+              <input
+                value={draft.description}
+                placeholder="When Claude should delegate to this subagent"
+                onChange={(event) => updateDraft({ description: event.target.value })}
+                className={fieldClass}
+              />
+            </label>
+            <div className="grid grid-cols-[1fr_10rem] gap-3">
+              <label className="grid gap-1.5">
+                <span className={labelClass}>Tools</span>
+                <input
+                  value={draft.tools}
+                  placeholder="Read, Grep, Glob (empty inherits all tools)"
+                  onChange={(event) => updateDraft({ tools: event.target.value })}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="grid gap-1.5">
+                <span className={labelClass}>Model</span>
+                <select
+                  value={draft.model}
+                  onChange={(event) => updateDraft({ model: event.target.value as Draft['model'] })}
+                  className={fieldClass}
+                >
+                  <option value="">Default</option>
+                  {MODEL_OPTIONS.map((model) => (
+                    <option key={model} value={model}>
+                      {model}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <label className="grid gap-1.5">
+              <span className={labelClass}>Prompt</span>
+              <textarea
+                value={draft.prompt}
+                rows={12}
+                placeholder="The subagent's system prompt"
+                onChange={(event) => updateDraft({ prompt: event.target.value })}
+                className={`${fieldClass} resize-y font-mono`}
+              />
+            </label>
+            {error && <div className="text-[11px] whitespace-pre-wrap text-red-600">{error}</div>}
+            <div className="flex justify-end gap-2">
+              {selectedName && (
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  className="action-button px-3 py-1 text-[11px] font-semibold"
+                >
+                  Delete
+                </button>
+              )}
+              <button
+                type="button"
+                disabled={isSaving}
+                onClick={handleSave}
+                className="action-button px-3 py-1 text-[11px] font-semibold disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
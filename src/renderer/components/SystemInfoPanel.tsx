@@ -1,8 +1,18 @@
+import type { McpServerState } from '../../shared/types/mcp';
 import type { SystemInitInfo } from '../../shared/types/system';
+import McpServerList from './McpServerList';
 
 interface SystemInfoPanelProps {
   info: SystemInitInfo | null;
   showHeader?: boolean;
+  // The model selected at runtime, which can differ from the one reported at init.
+  activeModel?: string | null;
+  // When given, configured MCP servers are listed with their status and a per-session toggle.
+  mcp?: {
+    servers: McpServerState[];
+    onToggle: (name: string, enabled: boolean) => void;
+    onEditConfig: () => void;
+  };
 }
 
 type InfoRowProps = {
@@ -53,7 +63,13 @@ function InfoChips({ label, items, emptyLabel = 'None' }: InfoChipsProps) {
   );
 }
 
-export default function SystemInfoPanel({ info, showHeader = true }: SystemInfoPanelProps) {
+export default function SystemInfoPanel({
+  info,
+  showHeader = true,
+  activeModel,
+  mcp
+}: SystemInfoPanelProps) {
+  const model = activeModel ?? info?.model;
   return (
     <div>
       {showHeader && (
@@ -81,9 +97,14 @@ export default function SystemInfoPanel({ info, showHeader = true }: SystemInfoP
               </div>
               <div className="grid gap-2 text-xs text-[var(--ink)]">
                 <div className="flex flex-wrap gap-2">
-                  {info.model && (
+                  {model && (
                     <span className="rounded-full border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-1 text-[10px] text-[var(--ink)]">
-                      Model: {info.model}
+                      Model: {model}
+                    </span>
+                  )}
+                  {info.model && model !== info.model && (
+                    <span className="rounded-full border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-1 text-[10px] text-[var(--ink-muted)]">
+                      Started with: {info.model}
                     </span>
                   )}
                   {info.permissionMode && (
@@ -123,9 +144,20 @@ export default function SystemInfoPanel({ info, showHeader = true }: SystemInfoP
           <InfoChips label="Agents" items={info.agents} emptyLabel="No agents reported." />
           <InfoChips label="Skills" items={info.skills} emptyLabel="No skills reported." />
           <InfoChips label="Plugins" items={info.plugins} emptyLabel="No plugins reported." />
-          <InfoChips label="MCP Servers" items={info.mcp_servers} emptyLabel="No servers." />
+          {!mcp && (
+            <InfoChips label="MCP Servers" items={info.mcp_servers} emptyLabel="No servers." />
+          )}
         </div>
       }
+      {mcp && (
+        <div className="mt-4">
+          <McpServerList
+            servers={mcp.servers}
+            onToggle={mcp.onToggle}
+            onEditConfig={mcp.onEditConfig}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -1,15 +1,16 @@
-import { History, Plus } from 'lucide-react';
+import { Clock, History, Plus } from 'lucide-react';
 
 interface TitleBarProps {
   onOpenHistory?: () => void;
   onNewChat?: () => void;
+  onOpenSchedules?: () => void;
 }
 
-export default function TitleBar({ onOpenHistory, onNewChat }: TitleBarProps) {
+export default function TitleBar({ onOpenHistory, onNewChat, onOpenSchedules }: TitleBarProps) {
   // Detect Windows platform
   const isWindows = navigator.platform.toLowerCase().includes('win');
 
-  const hasActions = onOpenHistory || onNewChat;
+  const hasActions = onOpenHistory || onNewChat || onOpenSchedules;
 
   return (
     <div className="pointer-events-none fixed top-0 right-0 left-0 z-40 h-12 border-b border-neutral-200/70 bg-white/80 backdrop-blur-md [-webkit-app-region:drag] dark:border-neutral-800 dark:bg-neutral-900/80">
@@ -42,6 +43,18 @@ export default function TitleBar({ onOpenHistory, onNewChat }: TitleBarProps) {
                 <Plus className="h-4 w-4" />
               </button>
             )}
+
+            {onOpenSchedules && (
+              <button
+                onClick={onOpenSchedules}
+                className="flex items-center gap-2 rounded-full border border-neutral-200/60 bg-white px-3 py-1.5 text-sm font-medium text-neutral-700 shadow-sm shadow-black/5 transition-colors hover:border-neutral-300 hover:bg-neutral-50 dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100 dark:shadow-black/20 dark:hover:border-neutral-600 dark:hover:bg-neutral-800"
+                title="Open scheduled prompts"
+                aria-label="Open scheduled prompts"
+              >
+                <Clock className="h-4 w-4" />
+                <span className="hidden sm:inline">Schedules</span>
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,64 @@
+import { Coins } from 'lucide-react';
+
+import type { SessionUsage, TokenUsage } from '../../shared/types/usage';
+
+interface UsageMeterProps {
+  usage: SessionUsage | null;
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`;
+  }
+  if (count >= 1_000) {
+    return `${(count / 1_000).toFixed(1)}k`;
+  }
+  return String(count);
+}
+
+function formatCost(costUsd: number): string {
+  return `$${costUsd < 1 ? costUsd.toFixed(4) : costUsd.toFixed(2)}`;
+}
+
+function totalTokens(usage: TokenUsage): number {
+  return (
+    usage.inputTokens +
+    usage.outputTokens +
+    usage.cacheReadInputTokens +
+    usage.cacheCreationInputTokens
+  );
+}
+
+export default function UsageMeter({ usage }: UsageMeterProps) {
+  if (!usage || usage.turns.length === 0) {
+    return null;
+  }
+
+  const { total } = usage;
+  const lastTurn = usage.turns[usage.turns.length - 1];
+  const subagentTokens = usage.turns.reduce(
+    (sum, turn) => sum + totalTokens(turn.subagentUsage),
+    0
+  );
+  const details = [
+    `Turns: ${usage.turns.length}`,
+    `Input: ${total.usage.inputTokens.toLocaleString()}`,
+    `Output: ${total.usage.outputTokens.toLocaleString()}`,
+    `Cache read: ${total.usage.cacheReadInputTokens.toLocaleString()}`,
+    `Cache write: ${total.usage.cacheCreationInputTokens.toLocaleString()}`,
+    `Subagents: ${subagentTokens.toLocaleString()} tokens`,
+    `Last turn: ${formatCost(lastTurn.costUsd)}, ${formatTokens(totalTokens(lastTurn.usage))} tokens`
+  ].join('\n');
+
+  return (
+    <span
+      title={details}
+      className="flex items-center gap-1.5 rounded-full border border-[var(--line)] bg-[var(--paper-contrast)] px-3 py-1 font-semibold text-[var(--ink-muted)]"
+    >
+      <Coins className="h-3.5 w-3.5" />
+      {formatCost(total.costUsd)}
+      <span className="font-normal">·</span>
+      {formatTokens(totalTokens(total.usage))} tokens
+    </span>
+  );
+}
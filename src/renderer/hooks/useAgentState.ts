@@ -5,6 +5,7 @@ import { chatClient, type ChatInitPayload } from '@/api/chatClient';
 export function useAgentState(): ChatInitPayload {
   const [state, setState] = useState<ChatInitPayload>({
     agentDir: '',
+    sessionId: '',
     sessionState: 'idle',
     hasInitialPrompt: false
   });
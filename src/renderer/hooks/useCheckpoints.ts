@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type { Checkpoint } from '../../shared/types/checkpoint';
+
+export function useCheckpoints(): Checkpoint[] {
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    chatClient
+      .listCheckpoints()
+      .then((payload) => {
+        if (isMounted) {
+          setCheckpoints(payload.checkpoints ?? []);
+        }
+      })
+      .catch(() => {
+        // The next `checkpoints:update` event will fill the list in.
+      });
+    const unsubscribe = chatClient.onCheckpointsUpdate((payload) => {
+      setCheckpoints(payload?.checkpoints ?? []);
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return checkpoints;
+}
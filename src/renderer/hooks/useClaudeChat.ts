@@ -87,6 +87,13 @@ export function useClaudeChat(): {
       ]);
     });
 
+    const unsubscribeTruncate = chatClient.onTruncate((payload) => {
+      const removed = new Set(payload?.messageIds ?? []);
+      removed.forEach((id) => seenIdsRef.current.delete(id));
+      isStreamingRef.current = false;
+      setMessages((prev) => prev.filter((message) => !removed.has(message.id)));
+    });
+
     // Listen for streaming message chunks
     const unsubscribeMessageChunk = chatClient.onMessageChunk((chunk: string) => {
       setMessages((prev) => {
@@ -846,6 +853,7 @@ export function useClaudeChat(): {
     return () => {
       unsubscribeInit();
       unsubscribeMessageReplay();
+      unsubscribeTruncate();
       unsubscribeMessageChunk();
       unsubscribeThinkingStart();
       unsubscribeThinkingChunk();
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type {
+  NotificationHookPayload,
+  PostToolUseHookPayload,
+  PreToolUseHookPayload,
+  StopHookPayload
+} from '../../shared/types/hooks';
+
+export type HookActivity =
+  | ({ event: 'PreToolUse' } & PreToolUseHookPayload)
+  | ({ event: 'PostToolUse' } & PostToolUseHookPayload)
+  | ({ event: 'Notification' } & NotificationHookPayload)
+  | ({ event: 'Stop' } & StopHookPayload);
+
+const MAX_ACTIVITY = 200;
+
+export function useHookActivity(): HookActivity[] {
+  const [activity, setActivity] = useState<HookActivity[]>([]);
+
+  useEffect(() => {
+    const append = (entry: HookActivity) => {
+      setActivity((prev) => [...prev.slice(-(MAX_ACTIVITY - 1)), entry]);
+    };
+    const unsubscribers = [
+      chatClient.onInit(() => setActivity([])),
+      chatClient.onHookPreToolUse((payload) => append({ event: 'PreToolUse', ...payload })),
+      chatClient.onHookPostToolUse((payload) => append({ event: 'PostToolUse', ...payload })),
+      chatClient.onHookNotification((payload) => append({ event: 'Notification', ...payload })),
+      chatClient.onHookStop((payload) => append({ event: 'Stop', ...payload }))
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, []);
+
+  return activity;
+}
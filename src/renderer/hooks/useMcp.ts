@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type { McpConfig, McpServerState } from '../../shared/types/mcp';
+
+export function useMcp() {
+  const [servers, setServers] = useState<McpServerState[]>([]);
+
+  useEffect(() => {
+    const unsubscribe = chatClient.onMcpStatus((payload) => {
+      setServers(payload.servers);
+    });
+    return unsubscribe;
+  }, []);
+
+  // Asks the running query for fresh connection status; the result also arrives as `chat:mcp`.
+  const refreshStatus = useCallback(async () => {
+    try {
+      const payload = await chatClient.getMcpStatus();
+      setServers(payload.servers);
+    } catch {
+      // Keep the last known status.
+    }
+  }, []);
+
+  // Resolves with an error message when the toggle failed, or null on success.
+  const setServerEnabled = useCallback(
+    async (name: string, enabled: boolean): Promise<string | null> => {
+      try {
+        const response = await chatClient.setMcpServerEnabled(name, enabled);
+        return response.success ? null : (response.error ?? 'Failed to update MCP server.');
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Failed to update MCP server.';
+      }
+    },
+    []
+  );
+
+  const loadConfig = useCallback((): Promise<McpConfig> => chatClient.getMcpConfig(), []);
+
+  // Resolves with an error message when the config was rejected, or null on success.
+  const saveConfig = useCallback(async (config: McpConfig): Promise<string | null> => {
+    try {
+      const response = await chatClient.setMcpConfig(config);
+      return response.success ? null : (response.error ?? 'Failed to save MCP config.');
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Failed to save MCP config.';
+    }
+  }, []);
+
+  return { servers, refreshStatus, setServerEnabled, loadConfig, saveConfig };
+}
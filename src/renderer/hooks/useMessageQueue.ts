@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type { QueuedMessage } from '../../shared/types/queue';
+
+export function useMessageQueue(): QueuedMessage[] {
+  const [items, setItems] = useState<QueuedMessage[]>([]);
+
+  useEffect(() => {
+    const unsubscribeInit = chatClient.onInit(() => {
+      setItems([]);
+    });
+    const unsubscribeQueue = chatClient.onQueue((payload) => {
+      setItems(payload?.items ?? []);
+    });
+
+    return () => {
+      unsubscribeInit();
+      unsubscribeQueue();
+    };
+  }, []);
+
+  return items;
+}
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type { ChatModelPreference } from '../../shared/types/ipc';
+
+export function useModelPreference() {
+  const [preference, setPreference] = useState<ChatModelPreference | null>(null);
+  const [model, setModel] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    chatClient
+      .getModelPreference()
+      .then((payload) => {
+        if (isMounted) {
+          setPreference(payload.preference);
+          setModel(payload.model);
+        }
+      })
+      .catch(() => {
+        // The `chat:model` event sent when the stream opens fills this in.
+      });
+    const unsubscribe = chatClient.onModelChange((payload) => {
+      setPreference(payload.preference);
+      setModel(payload.model);
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  // Resolves with an error message when the switch failed, or null on success.
+  const updatePreference = useCallback(
+    async (nextPreference: ChatModelPreference): Promise<string | null> => {
+      setIsUpdating(true);
+      try {
+        const response = await chatClient.setModelPreference(nextPreference);
+        setPreference(response.preference);
+        if (response.model) {
+          setModel(response.model);
+        }
+        return response.success ? null : (response.error ?? 'Failed to switch model.');
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Failed to switch model.';
+      } finally {
+        setIsUpdating(false);
+      }
+    },
+    []
+  );
+
+  return { preference, model, isUpdating, updatePreference };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type { PermissionRequest } from '../../shared/types/permission';
+
+export function usePermissionRequests(): PermissionRequest[] {
+  const [requests, setRequests] = useState<PermissionRequest[]>([]);
+
+  useEffect(() => {
+    const unsubscribeInit = chatClient.onInit(() => {
+      setRequests([]);
+    });
+    // Subscribe to requests before resolutions so replayed events settle to the pending set.
+    const unsubscribeRequest = chatClient.onPermissionRequest((request) => {
+      if (!request) {
+        return;
+      }
+      setRequests((prev) =>
+        prev.some((item) => item.id === request.id) ? prev : [...prev, request]
+      );
+    });
+    const unsubscribeResolved = chatClient.onPermissionResolved((payload) => {
+      if (!payload) {
+        return;
+      }
+      setRequests((prev) => prev.filter((item) => item.id !== payload.id));
+    });
+
+    return () => {
+      unsubscribeInit();
+      unsubscribeRequest();
+      unsubscribeResolved();
+    };
+  }, []);
+
+  return requests;
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type { OutputStyleInfo, PromptSettings } from '../../shared/types/prompt';
+
+export function usePromptSettings() {
+  const [settings, setSettings] = useState<PromptSettings | null>(null);
+  const [outputStyles, setOutputStyles] = useState<OutputStyleInfo[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    chatClient
+      .getPromptSettings()
+      .then((payload) => {
+        if (isMounted) {
+          setSettings(payload.settings);
+          setOutputStyles(payload.outputStyles);
+        }
+      })
+      .catch(() => {
+        // The `chat:prompt-settings` event sent when the stream opens fills this in.
+      });
+    const unsubscribe = chatClient.onPromptSettings((payload) => {
+      setSettings(payload.settings);
+      setOutputStyles(payload.outputStyles);
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  // Resolves with an error message when saving failed, or null on success.
+  const saveSettings = useCallback(async (nextSettings: PromptSettings): Promise<string | null> => {
+    setIsSaving(true);
+    try {
+      const response = await chatClient.setPromptSettings(nextSettings);
+      if (response.settings) {
+        setSettings(response.settings);
+      }
+      if (response.outputStyles) {
+        setOutputStyles(response.outputStyles);
+      }
+      return response.success ? null : (response.error ?? 'Failed to save prompt settings.');
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Failed to save prompt settings.';
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  return { settings, outputStyles, isSaving, saveSettings };
+}
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type { JobRun, ScheduledJob, ScheduledJobInput } from '../../shared/types/schedule';
+
+export function useSchedules() {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    chatClient
+      .listSchedules()
+      .then((payload) => {
+        if (isMounted) {
+          setJobs(payload.jobs);
+          setRuns(payload.runs);
+          setError(null);
+        }
+      })
+      .catch((loadError) => {
+        if (isMounted) {
+          setError(loadError instanceof Error ? loadError.message : 'Failed to load schedules.');
+        }
+      })
+      .finally(() => {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      });
+    // Every change, including runs started by the schedule, arrives as `schedules:update`.
+    const unsubscribe = chatClient.onSchedulesUpdate((payload) => {
+      setJobs(payload?.jobs ?? []);
+      setRuns(payload?.runs ?? []);
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  // Resolves with the saved job, or an error message when saving failed.
+  const saveJob = useCallback(
+    async (job: ScheduledJobInput, id?: string): Promise<ScheduledJob | string> => {
+      try {
+        const response = await chatClient.saveSchedule(job, id);
+        if (!response.success || !response.job) {
+          return response.error ?? 'Failed to save the job.';
+        }
+        return response.job;
+      } catch (saveError) {
+        return saveError instanceof Error ? saveError.message : 'Failed to save the job.';
+      }
+    },
+    []
+  );
+
+  // The remaining actions resolve with an error message, or null on success.
+  const setJobPaused = useCallback(async (id: string, paused: boolean): Promise<string | null> => {
+    try {
+      const response = await chatClient.setSchedulePaused(id, paused);
+      return response.success ? null : (response.error ?? 'Failed to update the job.');
+    } catch (updateError) {
+      return updateError instanceof Error ? updateError.message : 'Failed to update the job.';
+    }
+  }, []);
+
+  const deleteJob = useCallback(async (id: string): Promise<string | null> => {
+    try {
+      const response = await chatClient.deleteSchedule(id);
+      return response.success ? null : (response.error ?? 'Failed to delete the job.');
+    } catch (deleteError) {
+      return deleteError instanceof Error ? deleteError.message : 'Failed to delete the job.';
+    }
+  }, []);
+
+  const runJob = useCallback(async (id: string): Promise<string | null> => {
+    try {
+      const response = await chatClient.runSchedule(id);
+      return response.success ? null : (response.error ?? 'Failed to start the job.');
+    } catch (runError) {
+      return runError instanceof Error ? runError.message : 'Failed to start the job.';
+    }
+  }, []);
+
+  return { jobs, runs, isLoading, error, saveJob, setJobPaused, deleteJob, runJob };
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+
+import { sessionClient, type SessionSummary } from '@/api/sessionClient';
+
+export function useSessions(): SessionSummary[] {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    sessionClient
+      .listSessions()
+      .then((payload) => {
+        if (isMounted) {
+          setSessions(payload.sessions ?? []);
+        }
+      })
+      .catch(() => {
+        // The next `sessions:update` event will fill the list in.
+      });
+    const unsubscribe = sessionClient.onSessionsUpdate((payload) => {
+      setSessions(payload?.sessions ?? []);
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return sessions;
+}
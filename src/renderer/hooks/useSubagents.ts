@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type { SubagentDefinition } from '../../shared/types/subagent';
+
+export function useSubagents() {
+  const [agents, setAgents] = useState<SubagentDefinition[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await chatClient.listSubagents();
+      setAgents(response.agents);
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load subagents.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  // Resolves with an error message when saving failed, or null on success.
+  const saveAgent = useCallback(
+    async (agent: SubagentDefinition, previousName?: string): Promise<string | null> => {
+      try {
+        const response = await chatClient.saveSubagent(agent, previousName);
+        if (!response.success) {
+          return response.error ?? 'Failed to save subagent.';
+        }
+        await reload();
+        return null;
+      } catch (saveError) {
+        return saveError instanceof Error ? saveError.message : 'Failed to save subagent.';
+      }
+    },
+    [reload]
+  );
+
+  const deleteAgent = useCallback(
+    async (name: string): Promise<string | null> => {
+      try {
+        const response = await chatClient.deleteSubagent(name);
+        if (!response.success) {
+          return response.error ?? 'Failed to delete subagent.';
+        }
+        await reload();
+        return null;
+      } catch (deleteError) {
+        return deleteError instanceof Error ? deleteError.message : 'Failed to delete subagent.';
+      }
+    },
+    [reload]
+  );
+
+  return { agents, isLoading, error, saveAgent, deleteAgent };
+}
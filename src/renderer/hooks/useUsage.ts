@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+import { chatClient } from '@/api/chatClient';
+
+import type { SessionUsage } from '../../shared/types/usage';
+
+export function useUsage(): SessionUsage | null {
+  const [usage, setUsage] = useState<SessionUsage | null>(null);
+
+  useEffect(() => {
+    const unsubscribeInit = chatClient.onInit(() => {
+      setUsage(null);
+    });
+    const unsubscribeUsage = chatClient.onUsage((payload) => {
+      setUsage(payload);
+    });
+
+    return () => {
+      unsubscribeInit();
+      unsubscribeUsage();
+    };
+  }, []);
+
+  return usage;
+}
@@ -2,28 +2,71 @@ import { AlertTriangle } from 'lucide-react';
 import { useEffect, useState } from 'react';
 
 import { chatClient } from '@/api/chatClient';
+import { sessionClient } from '@/api/sessionClient';
+import type { AttachmentPreviewItem } from '@/components/AttachmentPreviewList';
+import ChangesPanel from '@/components/ChangesPanel';
 import DirectoryPanel from '@/components/DirectoryPanel';
+import HookActivityPanel from '@/components/HookActivityPanel';
+import McpConfigPanel from '@/components/McpConfigPanel';
 import MessageList from '@/components/MessageList';
+import ModelSelector from '@/components/ModelSelector';
+import PendingMessageStack from '@/components/PendingMessageStack';
+import PermissionRequestCard from '@/components/PermissionRequestCard';
+import PromptSettingsPanel from '@/components/PromptSettingsPanel';
 import SimpleChatInput from '@/components/SimpleChatInput';
+import SubagentsPanel from '@/components/SubagentsPanel';
 import SystemInfoPanel from '@/components/SystemInfoPanel';
+import UsageMeter from '@/components/UsageMeter';
 import { useAgentLogs } from '@/hooks/useAgentLogs';
 import { useAutoScroll } from '@/hooks/useAutoScroll';
+import { useCheckpoints } from '@/hooks/useCheckpoints';
 import { useClaudeChat } from '@/hooks/useClaudeChat';
+import { useHookActivity } from '@/hooks/useHookActivity';
+import { useMcp } from '@/hooks/useMcp';
+import { useMessageQueue } from '@/hooks/useMessageQueue';
+import { useModelPreference } from '@/hooks/useModelPreference';
+import { usePermissionRequests } from '@/hooks/usePermissionRequests';
+import { usePromptSettings } from '@/hooks/usePromptSettings';
 import { useSystemInit } from '@/hooks/useSystemInit';
+import { useUsage } from '@/hooks/useUsage';
+import { formatFileSize } from '@/utils/formatFileSize';
+
+import { MAX_ATTACHMENT_BYTES } from '../../shared/constants';
+import type { ChatModelPreference } from '../../shared/types/ipc';
+import type { PermissionResponsePayload } from '../../shared/types/permission';
+import type { PromptSettings } from '../../shared/types/prompt';
+import type { UpdateQueuedMessagePayload } from '../../shared/types/queue';
+
+type PendingAttachment = AttachmentPreviewItem & { file: File };
 
 interface ChatProps {
   agentDir: string;
+  sessionId: string;
   sessionState: 'idle' | 'running' | 'error';
 }
 
-export default function Chat({ agentDir, sessionState }: ChatProps) {
+export default function Chat({ agentDir, sessionId, sessionState }: ChatProps) {
   const [inputValue, setInputValue] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [isSending, setIsSending] = useState(false);
   const [showLogs, setShowLogs] = useState(false);
+  const [showHookActivity, setShowHookActivity] = useState(false);
   const [agentError, setAgentError] = useState<string | null>(null);
   const [showSystemInfo, setShowSystemInfo] = useState(false);
+  const [showPromptSettings, setShowPromptSettings] = useState(false);
+  const [showMcpConfig, setShowMcpConfig] = useState(false);
+  const [showSubagents, setShowSubagents] = useState(false);
   const { messages, setMessages, isLoading, setIsLoading } = useClaudeChat();
   const logs = useAgentLogs();
+  const hookActivity = useHookActivity();
   const systemInitInfo = useSystemInit();
+  const permissionRequests = usePermissionRequests();
+  const modelPreference = useModelPreference();
+  const promptSettings = usePromptSettings();
+  const usage = useUsage();
+  const mcp = useMcp();
+  const queuedMessages = useMessageQueue();
+  const checkpoints = useCheckpoints();
   const messagesContainerRef = useAutoScroll(isLoading, messages);
 
   useEffect(() => {
@@ -40,16 +83,132 @@ export default function Chat({ agentDir, sessionState }: ChatProps) {
     };
   }, []);
 
+  const handleReset = async () => {
+    if (!window.confirm('Clear this conversation and start over?')) {
+      return;
+    }
+    try {
+      const response = await chatClient.resetSession();
+      if (!response.success && response.error) {
+        setAgentError(response.error);
+      }
+    } catch (error) {
+      setAgentError(error instanceof Error ? error.message : 'Failed to reset the session.');
+    }
+  };
+
+  const handleModelPreferenceChange = async (preference: ChatModelPreference) => {
+    const error = await modelPreference.updatePreference(preference);
+    if (error) {
+      setAgentError(error);
+    }
+  };
+
+  const handleSavePromptSettings = async (settings: PromptSettings) => {
+    const error = await promptSettings.saveSettings(settings);
+    if (error) {
+      setAgentError(error);
+      return;
+    }
+    setShowPromptSettings(false);
+  };
+
+  const handleToggleMcpServer = async (name: string, enabled: boolean) => {
+    const error = await mcp.setServerEnabled(name, enabled);
+    if (error) {
+      setAgentError(error);
+    }
+  };
+
+  const handlePermissionRespond = async (payload: PermissionResponsePayload) => {
+    try {
+      const response = await chatClient.respondToPermission(payload);
+      if (!response.success && response.error) {
+        setAgentError(response.error);
+      }
+    } catch (error) {
+      setAgentError(
+        error instanceof Error ? error.message : 'Failed to answer permission request.'
+      );
+    }
+  };
+
+  // Requests for tools that have not streamed into the transcript yet are shown on their own.
+  const renderedToolIds = new Set(
+    messages.flatMap((message) =>
+      typeof message.content === 'string' ?
+        []
+      : message.content.flatMap((block) =>
+          block.tool ?
+            [block.tool.id, ...(block.tool.subagentCalls?.map((call) => call.id) ?? [])]
+          : []
+        )
+    )
+  );
+  const unmatchedPermissionRequests = permissionRequests.filter(
+    (request) => !renderedToolIds.has(request.toolUseId)
+  );
+
+  const handleFilesSelected = (files: File[]) => {
+    const oversized = files.filter((file) => file.size > MAX_ATTACHMENT_BYTES);
+    if (oversized.length > 0) {
+      setAgentError(
+        `${oversized.map((file) => file.name).join(', ')} exceeds the ${formatFileSize(MAX_ATTACHMENT_BYTES)} attachment limit.`
+      );
+    }
+    const accepted = files
+      .filter((file) => file.size <= MAX_ATTACHMENT_BYTES)
+      .map((file) => {
+        const isImage = file.type.startsWith('image/');
+        return {
+          id: crypto.randomUUID(),
+          file,
+          name: file.name,
+          size: file.size,
+          isImage,
+          previewUrl: isImage ? URL.createObjectURL(file) : undefined
+        };
+      });
+    setPendingAttachments((prev) => [...prev, ...accepted]);
+  };
+
+  const handleRemoveAttachment = (id: string) => {
+    setPendingAttachments((prev) => {
+      const removed = prev.find((attachment) => attachment.id === id);
+      if (removed?.previewUrl) {
+        URL.revokeObjectURL(removed.previewUrl);
+      }
+      return prev.filter((attachment) => attachment.id !== id);
+    });
+  };
+
   const handleSendMessage = async () => {
     const trimmedMessage = inputValue.trim();
-    if (!trimmedMessage || isLoading || sessionState === 'running') {
+    const attachmentsToSend = pendingAttachments;
+    // Messages sent while the agent is working are queued on the server.
+    if ((!trimmedMessage && attachmentsToSend.length === 0) || isSending) {
       return;
     }
     setInputValue('');
+    setPendingAttachments([]);
+    setIsSending(true);
     setIsLoading(true);
 
     try {
-      const response = await chatClient.sendMessage({ text: trimmedMessage });
+      const attachments = await Promise.all(
+        attachmentsToSend.map(async (attachment) => ({
+          name: attachment.file.name,
+          mimeType: attachment.file.type || 'application/octet-stream',
+          size: attachment.file.size,
+          data: await attachment.file.arrayBuffer()
+        }))
+      );
+      attachmentsToSend.forEach((attachment) => {
+        if (attachment.previewUrl) {
+          URL.revokeObjectURL(attachment.previewUrl);
+        }
+      });
+      const response = await chatClient.sendMessage({ text: trimmedMessage, attachments });
       if (!response.success && response.error) {
         const errorMessage = {
           id: (Date.now() + 1).toString(),
@@ -69,6 +228,79 @@ export default function Chat({ agentDir, sessionState }: ChatProps) {
       };
       setMessages((prev) => [...prev, errorMessage]);
       setIsLoading(false);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCancelQueued = async (itemId: string) => {
+    try {
+      const response = await chatClient.cancelQueuedMessage(itemId);
+      if (!response.success && response.error) {
+        setAgentError(response.error);
+      }
+    } catch (error) {
+      setAgentError(error instanceof Error ? error.message : 'Failed to cancel queued message.');
+    }
+  };
+
+  const handleFork = async (messageId: string) => {
+    try {
+      const response = await chatClient.forkSession(messageId);
+      if (!response.success || !response.session) {
+        setAgentError(response.error ?? 'Failed to fork the conversation.');
+        return;
+      }
+      sessionClient.switchSession(response.session.id);
+      if (response.draft) {
+        setInputValue(response.draft);
+      }
+    } catch (error) {
+      setAgentError(error instanceof Error ? error.message : 'Failed to fork the conversation.');
+    }
+  };
+
+  const handleEditMessage = async (messageId: string, text: string) => {
+    try {
+      const response = await chatClient.rewindMessage(messageId, text);
+      if (!response.success && response.error) {
+        setAgentError(response.error);
+      }
+    } catch (error) {
+      setAgentError(error instanceof Error ? error.message : 'Failed to resend the message.');
+    }
+  };
+
+  const sessionCheckpoints = checkpoints.filter((checkpoint) => checkpoint.sessionId === sessionId);
+
+  const handleRestoreCheckpoint = async (messageId: string) => {
+    const checkpoint = sessionCheckpoints.find((item) => item.messageId === messageId);
+    if (
+      !checkpoint ||
+      !window.confirm(
+        'Undo the file changes the agent made from this message on? Later checkpoints are restored too.'
+      )
+    ) {
+      return;
+    }
+    try {
+      const response = await chatClient.restoreCheckpoint(checkpoint.id);
+      if (!response.success && response.error) {
+        setAgentError(response.error);
+      }
+    } catch (error) {
+      setAgentError(error instanceof Error ? error.message : 'Failed to restore the checkpoint.');
+    }
+  };
+
+  const handleUpdateQueued = async (itemId: string, payload: UpdateQueuedMessagePayload) => {
+    try {
+      const response = await chatClient.updateQueuedMessage(itemId, payload);
+      if (!response.success && response.error) {
+        setAgentError(response.error);
+      }
+    } catch (error) {
+      setAgentError(error instanceof Error ? error.message : 'Failed to update queued message.');
     }
   };
 
@@ -88,11 +320,23 @@ export default function Chat({ agentDir, sessionState }: ChatProps) {
             </div>
           </div>
           <div className="flex-1 text-center">
-            <h1 className="font-display text-2xl text-[var(--ink)]">
-              接下来我们来改哪个bug
-            </h1>
+            <h1 className="font-display text-2xl text-[var(--ink)]">接下来我们来改哪个bug</h1>
           </div>
           <div className="flex items-center gap-3 text-[11px] text-[var(--ink-muted)]">
+            <UsageMeter usage={usage} />
+            <ModelSelector
+              preference={modelPreference.preference}
+              model={modelPreference.model}
+              isUpdating={modelPreference.isUpdating}
+              onChange={handleModelPreferenceChange}
+            />
+            <button
+              type="button"
+              onClick={handleReset}
+              className="action-button px-3 py-1 font-semibold"
+            >
+              Reset
+            </button>
             <button
               type="button"
               onClick={() => setShowLogs((prev) => !prev)}
@@ -102,7 +346,31 @@ export default function Chat({ agentDir, sessionState }: ChatProps) {
             </button>
             <button
               type="button"
-              onClick={() => setShowSystemInfo(true)}
+              onClick={() => setShowHookActivity((prev) => !prev)}
+              className="action-button px-3 py-1 font-semibold"
+            >
+              {showHookActivity ? 'Hide hooks' : 'Hooks'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowPromptSettings(true)}
+              className="action-button px-3 py-1 font-semibold"
+            >
+              Prompt
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowSubagents(true)}
+              className="action-button px-3 py-1 font-semibold"
+            >
+              Agents
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setShowSystemInfo(true);
+                void mcp.refreshStatus();
+              }}
               className="action-button px-3 py-1 font-semibold"
             >
               System Info
@@ -110,11 +378,19 @@ export default function Chat({ agentDir, sessionState }: ChatProps) {
           </div>
         </div>
 
+        <PendingMessageStack
+          items={queuedMessages}
+          onCancel={handleCancelQueued}
+          onUpdate={handleUpdateQueued}
+        />
         <SimpleChatInput
           value={inputValue}
           onChange={setInputValue}
           onSend={handleSendMessage}
-          isLoading={isLoading || sessionState === 'running'}
+          isLoading={isSending}
+          attachments={pendingAttachments}
+          onFilesSelected={handleFilesSelected}
+          onRemoveAttachment={handleRemoveAttachment}
         />
 
         <div className="flex flex-1 flex-col">
@@ -154,19 +430,59 @@ export default function Chat({ agentDir, sessionState }: ChatProps) {
                 </div>
               </div>
             )}
+            {showHookActivity && <HookActivityPanel activity={hookActivity} />}
+            {unmatchedPermissionRequests.length > 0 && (
+              <div className="space-y-2 border-b border-[var(--line)] px-4 py-3">
+                {unmatchedPermissionRequests.map((request) => (
+                  <PermissionRequestCard
+                    key={request.id}
+                    request={request}
+                    onRespond={handlePermissionRespond}
+                  />
+                ))}
+              </div>
+            )}
             <MessageList
               messages={messages}
               isLoading={isLoading}
               containerRef={messagesContainerRef}
               bottomPadding={120}
+              permissionRequests={permissionRequests}
+              onPermissionRespond={handlePermissionRespond}
+              onFork={handleFork}
+              onEdit={handleEditMessage}
+              restorableMessageIds={
+                new Set(sessionCheckpoints.map((checkpoint) => checkpoint.messageId))
+              }
+              onRestore={handleRestoreCheckpoint}
             />
           </div>
         </div>
       </div>
 
+      <div className="flex w-full flex-col lg:w-auto">
+        <ChangesPanel sessionId={sessionId} sessionState={sessionState} />
+      </div>
       <div className="flex w-full flex-col lg:w-auto">
         <DirectoryPanel agentDir={agentDir} />
       </div>
+      {showPromptSettings && (
+        <PromptSettingsPanel
+          settings={promptSettings.settings}
+          outputStyles={promptSettings.outputStyles}
+          isSaving={promptSettings.isSaving}
+          onSave={handleSavePromptSettings}
+          onClose={() => setShowPromptSettings(false)}
+        />
+      )}
+      {showSubagents && <SubagentsPanel onClose={() => setShowSubagents(false)} />}
+      {showMcpConfig && (
+        <McpConfigPanel
+          loadConfig={mcp.loadConfig}
+          saveConfig={mcp.saveConfig}
+          onClose={() => setShowMcpConfig(false)}
+        />
+      )}
       {showSystemInfo && (
         <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 px-4 py-6 backdrop-blur-sm">
           <div className="glass-panel w-full max-w-3xl">
@@ -186,7 +502,19 @@ export default function Chat({ agentDir, sessionState }: ChatProps) {
               </button>
             </div>
             <div className="px-5 py-4">
-              <SystemInfoPanel info={systemInitInfo} showHeader={false} />
+              <SystemInfoPanel
+                info={systemInitInfo}
+                showHeader={false}
+                activeModel={modelPreference.model}
+                mcp={{
+                  servers: mcp.servers,
+                  onToggle: handleToggleMcpServer,
+                  onEditConfig: () => {
+                    setShowSystemInfo(false);
+                    setShowMcpConfig(true);
+                  }
+                }}
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,326 @@
+import { Plus } from 'lucide-react';
+import { useState } from 'react';
+
+import { useSchedules } from '@/hooks/useSchedules';
+
+import type {
+  JobRun,
+  JobRunStatus,
+  ScheduledJob,
+  ScheduledJobInput,
+  ScheduleTarget
+} from '../../shared/types/schedule';
+
+interface SchedulesProps {
+  onOpenSession: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT: ScheduledJobInput = {
+  name: '',
+  prompt: '',
+  cron: '0 7 * * *',
+  target: 'new-session',
+  paused: false
+};
+
+const TARGET_LABELS: Record<ScheduleTarget, string> = {
+  'new-session': 'A new session for each run',
+  'default-session': 'The default session queue'
+};
+
+const STATUS_CLASSES: Record<JobRunStatus, string> = {
+  running: 'text-[var(--accent)]',
+  success: 'text-emerald-600',
+  error: 'text-red-600',
+  skipped: 'text-[var(--ink-muted)]',
+  cancelled: 'text-[var(--ink-muted)]'
+};
+
+const fieldClass =
+  'rounded-xl border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-2 text-xs text-[var(--ink)] outline-none focus:border-[var(--accent)]';
+const labelClass = 'text-[10px] font-semibold tracking-[0.2em] text-[var(--ink-muted)] uppercase';
+
+function formatTime(value: string | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function toDraft(job: ScheduledJob): ScheduledJobInput {
+  return {
+    name: job.name,
+    prompt: job.prompt,
+    cron: job.cron,
+    target: job.target,
+    paused: job.paused
+  };
+}
+
+function RunRow({ run, onOpenSession }: { run: JobRun; onOpenSession: (id: string) => void }) {
+  return (
+    <div className="space-y-1 rounded-xl border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-2">
+      <div className="flex items-center justify-between gap-3 text-[11px]">
+        <div className="flex items-center gap-2">
+          <span className={`font-semibold capitalize ${STATUS_CLASSES[run.status]}`}>
+            {run.status}
+          </span>
+          <span className="text-[var(--ink-muted)]">
+            {formatTime(run.startedAt)} · {run.manual ? 'manual' : 'scheduled'}
+            {run.costUsd !== undefined && ` · $${run.costUsd.toFixed(4)}`}
+          </span>
+        </div>
+        {run.sessionId && (
+          <button
+            type="button"
+            onClick={() => onOpenSession(run.sessionId as string)}
+            className="action-button px-3 py-1 text-[11px] font-semibold"
+          >
+            Open session
+          </button>
+        )}
+      </div>
+      {run.error && <div className="text-[11px] whitespace-pre-wrap text-red-600">{run.error}</div>}
+      {run.summary && (
+        <div className="line-clamp-4 text-[11px] whitespace-pre-wrap text-[var(--ink)]">
+          {run.summary}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Schedules({ onOpenSession, onClose }: SchedulesProps) {
+  const {
+    jobs,
+    runs,
+    isLoading,
+    error: loadError,
+    saveJob,
+    setJobPaused,
+    deleteJob,
+    runJob
+  } = useSchedules();
+  // null while creating a new job.
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScheduledJobInput>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedJob = jobs.find((job) => job.id === selectedId) ?? null;
+  const selectedRuns = selectedId ? runs.filter((run) => run.jobId === selectedId) : [];
+
+  const selectJob = (job: ScheduledJob | null) => {
+    setSelectedId(job?.id ?? null);
+    setDraft(job ? toDraft(job) : EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const updateDraft = (update: Partial<ScheduledJobInput>) => {
+    setDraft((prev) => ({ ...prev, ...update }));
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await saveJob(draft, selectedId ?? undefined);
+    setIsSaving(false);
+    if (typeof result === 'string') {
+      setError(result);
+      return;
+    }
+    selectJob(result);
+  };
+
+  const handleTogglePaused = async () => {
+    if (!selectedJob) {
+      return;
+    }
+    const updateError = await setJobPaused(selectedJob.id, !selectedJob.paused);
+    if (updateError) {
+      setError(updateError);
+      return;
+    }
+    updateDraft({ paused: !selectedJob.paused });
+  };
+
+  const handleRunNow = async () => {
+    if (selectedId) {
+      setError(await runJob(selectedId));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedJob || !window.confirm(`Delete the "${selectedJob.name}" job and its history?`)) {
+      return;
+    }
+    const deleteError = await deleteJob(selectedJob.id);
+    if (deleteError) {
+      setError(deleteError);
+      return;
+    }
+    selectJob(null);
+  };
+
+  return (
+    <div className="page-enter flex h-[calc(100vh-3rem)] flex-col bg-[var(--paper)] text-[var(--ink)]">
+      <div className="flex items-start justify-between gap-4 border-b border-[var(--line)] px-5 py-4">
+        <div>
+          <div className="text-[13px] font-semibold text-[var(--ink)]">Schedules</div>
+          <div className="text-[11px] text-[var(--ink-muted)]">
+            Prompts run on a cron schedule in server time. Saved to .agent-ui/schedules.
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="action-button px-3 py-1 text-[11px] font-semibold"
+        >
+          Back to chat
+        </button>
+      </div>
+      <div className="flex min-h-0 flex-1">
+        <div className="w-64 shrink-0 space-y-1 overflow-y-auto border-r border-[var(--line)] p-3">
+          <button
+            type="button"
+            onClick={() => selectJob(null)}
+            className={`flex w-full items-center gap-1.5 rounded-lg px-2 py-1.5 text-left text-xs font-semibold ${
+              selectedId === null ?
+                'bg-[var(--paper-contrast)] text-[var(--ink)]'
+              : 'text-[var(--ink-muted)] hover:text-[var(--ink)]'
+            }`}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            New job
+          </button>
+          {isLoading && <div className="px-2 text-[11px] text-[var(--ink-muted)]">Loading...</div>}
+          {loadError && <div className="px-2 text-[11px] text-red-600">{loadError}</div>}
+          {jobs.map((job) => (
+            <button
+              key={job.id}
+              type="button"
+              onClick={() => selectJob(job)}
+              className={`w-full rounded-lg px-2 py-1.5 text-left ${
+                selectedId === job.id ?
+                  'bg-[var(--paper-contrast)]'
+                : 'hover:bg-[var(--paper-contrast)]/60'
+              }`}
+            >
+              <div className="text-xs font-semibold text-[var(--ink)]">{job.name}</div>
+              <div className="text-[10px] text-[var(--ink-muted)]">
+                <span className="font-mono">{job.cron}</span> ·{' '}
+                {job.paused ? 'paused' : `next ${formatTime(job.nextRunAt)}`}
+              </div>
+            </button>
+          ))}
+        </div>
+        <div className="min-w-0 flex-1 space-y-3 overflow-y-auto px-5 py-4">
+          <div className="grid grid-cols-[1fr_12rem] gap-3">
+            <label className="grid gap-1.5">
+              <span className={labelClass}>Name</span>
+              <input
+                value={draft.name}
+                placeholder="Nightly log review"
+                onChange={(event) => updateDraft({ name: event.target.value })}
+                className={fieldClass}
+              />
+            </label>
+            <label className="grid gap-1.5">
+              <span className={labelClass}>Cron</span>
+              <input
+                value={draft.cron}
+                placeholder="0 7 * * 1-5"
+                onChange={(event) => updateDraft({ cron: event.target.value })}
+                className={`${fieldClass} font-mono`}
+              />
+            </label>
+          </div>
+          <label className="grid gap-1.5">
+            <span className={labelClass}>Runs in</span>
+            <select
+              value={draft.target}
+              onChange={(event) => updateDraft({ target: event.target.value as ScheduleTarget })}
+              className={fieldClass}
+            >
+              {Object.entries(TARGET_LABELS).map(([target, label]) => (
+                <option key={target} value={target}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="grid gap-1.5">
+            <span className={labelClass}>Prompt</span>
+            <textarea
+              value={draft.prompt}
+              rows={6}
+              placeholder="Check the nightly logs in ./logs and summarize failures"
+              onChange={(event) => updateDraft({ prompt: event.target.value })}
+              className={`${fieldClass} resize-y`}
+            />
+          </label>
+          {!selectedJob && (
+            <label className="flex items-center gap-2 text-xs text-[var(--ink)]">
+              <input
+                type="checkbox"
+                checked={draft.paused}
+                onChange={(event) => updateDraft({ paused: event.target.checked })}
+              />
+              Create paused
+            </label>
+          )}
+          {error && <div className="text-[11px] whitespace-pre-wrap text-red-600">{error}</div>}
+          <div className="flex justify-end gap-2">
+            {selectedJob && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  className="action-button px-3 py-1 text-[11px] font-semibold"
+                >
+                  Delete
+                </button>
+                <button
+                  type="button"
+                  onClick={handleTogglePaused}
+                  className="action-button px-3 py-1 text-[11px] font-semibold"
+                >
+                  {selectedJob.paused ? 'Resume' : 'Pause'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleRunNow}
+                  className="action-button px-3 py-1 text-[11px] font-semibold"
+                >
+                  Run now
+                </button>
+              </>
+            )}
+            <button
+              type="button"
+              disabled={isSaving}
+              onClick={handleSave}
+              className="action-button px-3 py-1 text-[11px] font-semibold disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+          {selectedJob && (
+            <div className="space-y-2 border-t border-[var(--line)] pt-3">
+              <div className="flex items-center justify-between">
+                <span className={labelClass}>Run history</span>
+                <span className="text-[11px] text-[var(--ink-muted)]">
+                  {selectedJob.paused ? 'Paused' : `Next run ${formatTime(selectedJob.nextRunAt)}`}
+                </span>
+              </div>
+              {selectedRuns.length === 0 && (
+                <div className="text-[11px] text-[var(--ink-muted)]">No runs yet.</div>
+              )}
+              {selectedRuns.map((run) => (
+                <RunRow key={run.id} run={run} onOpenSession={onOpenSession} />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
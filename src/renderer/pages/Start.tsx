@@ -57,7 +57,7 @@ export default function Start({ onStarted }: StartProps) {
           </p>
           <div className="mt-6 flex flex-wrap items-center gap-3 text-[11px]">
             <span className="rounded-full border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-1 text-[var(--ink-muted)]">
-              Single session
+              Parallel sessions
             </span>
             <span className="rounded-full border border-[var(--line)] bg-[var(--paper-strong)] px-3 py-1 text-[var(--ink-muted)]">
               Bun + SSE
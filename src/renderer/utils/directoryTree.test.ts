@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+
+import { applyFsChange, type DirectoryTreeResponse } from './directoryTree';
+
+function createInfo(): DirectoryTreeResponse {
+  return {
+    root: '/agent',
+    summary: { totalFiles: 3, totalDirs: 2 },
+    truncated: false,
+    tree: {
+      id: 'root',
+      name: '.',
+      path: '',
+      type: 'dir',
+      children: [
+        {
+          id: 'docs',
+          name: 'docs',
+          path: 'docs',
+          type: 'dir',
+          children: [{ id: 'docs/guide.md', name: 'guide.md', path: 'docs/guide.md', type: 'file' }]
+        },
+        {
+          id: 'src',
+          name: 'src',
+          path: 'src',
+          type: 'dir',
+          children: [{ id: 'src/b.ts', name: 'b.ts', path: 'src/b.ts', type: 'file' }]
+        },
+        { id: 'README.md', name: 'README.md', path: 'README.md', type: 'file' }
+      ]
+    }
+  };
+}
+
+describe('applyFsChange', () => {
+  test('inserts added entries in directory order', () => {
+    const info = createInfo();
+    const next = applyFsChange(info, {
+      added: [
+        { path: 'src/a.ts', type: 'file' },
+        { path: 'lib', type: 'dir' },
+        { path: 'lib/util.ts', type: 'file' }
+      ],
+      changed: [],
+      removed: []
+    });
+
+    const names = next.tree.children?.map((child) => child.name);
+    expect(names).toEqual(['docs', 'lib', 'src', 'README.md']);
+    expect(next.tree.children?.[1].children?.map((child) => child.path)).toEqual(['lib/util.ts']);
+    expect(next.tree.children?.[2].children?.map((child) => child.name)).toEqual(['a.ts', 'b.ts']);
+    expect(next.summary).toEqual({ totalFiles: 5, totalDirs: 3 });
+    // Untouched subtrees are reused.
+    expect(next.tree.children?.[0]).toBe(info.tree.children![0]);
+  });
+
+  test('removes a directory with everything under it', () => {
+    const next = applyFsChange(createInfo(), { added: [], changed: [], removed: ['docs'] });
+
+    expect(next.tree.children?.map((child) => child.path)).toEqual(['src', 'README.md']);
+    expect(next.summary).toEqual({ totalFiles: 2, totalDirs: 1 });
+  });
+
+  test('leaves the tree alone for unknown parents, duplicates and content changes', () => {
+    const info = createInfo();
+    const next = applyFsChange(info, {
+      added: [
+        { path: 'missing/x.ts', type: 'file' },
+        { path: 'README.md', type: 'file' }
+      ],
+      changed: ['src/b.ts'],
+      removed: ['nope.txt']
+    });
+
+    expect(next).toBe(info);
+  });
+});
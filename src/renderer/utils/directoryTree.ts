@@ -0,0 +1,112 @@
+import type { FsChangePayload } from '../../shared/types/fs-change';
+
+export type DirectoryTreeNode = {
+  id: string;
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+  children?: DirectoryTreeNode[];
+};
+
+export type DirectoryTreeResponse = {
+  root: string;
+  summary: {
+    totalFiles: number;
+    totalDirs: number;
+  };
+  tree: DirectoryTreeNode;
+  truncated: boolean;
+};
+
+// Same order as the server: directories first, then by name.
+function compareNodes(a: DirectoryTreeNode, b: DirectoryTreeNode): number {
+  if (a.type !== b.type) {
+    return a.type === 'dir' ? -1 : 1;
+  }
+  return a.name.localeCompare(b.name);
+}
+
+function countNodes(node: DirectoryTreeNode, summary: DirectoryTreeResponse['summary']): void {
+  if (node.type === 'dir') {
+    summary.totalDirs += 1;
+  } else {
+    summary.totalFiles += 1;
+  }
+  node.children?.forEach((child) => countNodes(child, summary));
+}
+
+/**
+ * Rebuilds only the directories on the way to `dirPath`, so unchanged subtrees keep their
+ * identity. Returns the node untouched when the directory is not in the tree.
+ */
+function updateDirectory(
+  node: DirectoryTreeNode,
+  segments: string[],
+  update: (children: DirectoryTreeNode[]) => DirectoryTreeNode[]
+): DirectoryTreeNode {
+  const children = node.children ?? [];
+  if (segments.length === 0) {
+    const nextChildren = update(children);
+    return nextChildren === children ? node : { ...node, children: nextChildren };
+  }
+  const childPath = node.path ? `${node.path}/${segments[0]}` : segments[0];
+  const index = children.findIndex((child) => child.path === childPath && child.type === 'dir');
+  if (index === -1) {
+    return node;
+  }
+  const nextChild = updateDirectory(children[index], segments.slice(1), update);
+  if (nextChild === children[index]) {
+    return node;
+  }
+  const nextChildren = [...children];
+  nextChildren[index] = nextChild;
+  return { ...node, children: nextChildren };
+}
+
+function getParentSegments(path: string): string[] {
+  const segments = path.split('/');
+  segments.pop();
+  return segments;
+}
+
+/** Applies an `agent:fs-change` batch to a directory tree loaded from `/agent/dir`. */
+export function applyFsChange(
+  info: DirectoryTreeResponse,
+  change: FsChangePayload
+): DirectoryTreeResponse {
+  let tree = info.tree;
+  const summary = { ...info.summary };
+
+  for (const path of change.removed) {
+    tree = updateDirectory(tree, getParentSegments(path), (children) => {
+      const removed = children.find((child) => child.path === path);
+      if (!removed) {
+        return children;
+      }
+      const counts = { totalFiles: 0, totalDirs: 0 };
+      countNodes(removed, counts);
+      summary.totalFiles -= counts.totalFiles;
+      summary.totalDirs -= counts.totalDirs;
+      return children.filter((child) => child !== removed);
+    });
+  }
+
+  for (const entry of change.added) {
+    tree = updateDirectory(tree, getParentSegments(entry.path), (children) => {
+      if (children.some((child) => child.path === entry.path)) {
+        return children;
+      }
+      const node: DirectoryTreeNode = {
+        id: entry.path,
+        name: entry.path.split('/').pop() ?? entry.path,
+        path: entry.path,
+        type: entry.type,
+        ...(entry.type === 'dir' ? { children: [] } : {})
+      };
+      countNodes(node, summary);
+      return [...children, node].sort(compareNodes);
+    });
+  }
+
+  return tree === info.tree ? info : { ...info, tree, summary };
+}
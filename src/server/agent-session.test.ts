@@ -0,0 +1,176 @@
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Options } from '@anthropic-ai/claude-agent-sdk';
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+
+import { Session, type MessageWire } from './agent-session';
+import { DEFAULT_AGENT_CONFIG } from './config';
+import { DEFAULT_PROMPT_SETTINGS } from './prompt-settings';
+import { EMPTY_TOOL_POLICY } from './tool-policy';
+import { loadTranscript, saveTranscript } from './transcript';
+
+const queryOptions: Options[] = [];
+
+// Each query stays open without taking queued messages until the session aborts it.
+mock.module('@anthropic-ai/claude-agent-sdk', () => ({
+  query: ({ options }: { options: Options }) => {
+    queryOptions.push(options);
+    const ended = new Promise<IteratorResult<never>>((resolve) =>
+      options.abortController?.signal.addEventListener(
+        'abort',
+        () => resolve({ done: true, value: undefined }),
+        { once: true }
+      )
+    );
+    return { [Symbol.asyncIterator]: () => ({ next: () => ended }) };
+  }
+}));
+
+const conversation: MessageWire[] = [
+  { id: '0', role: 'user', content: 'first', timestamp: 't' },
+  { id: '1', role: 'assistant', content: 'one', timestamp: 't', sdkUuid: 'uuid-1' },
+  { id: '2', role: 'user', content: 'second', timestamp: 't' },
+  { id: '3', role: 'assistant', content: 'two', timestamp: 't', sdkUuid: 'uuid-3' }
+];
+
+describe('Session.rewindToMessage', () => {
+  let agentDir: string;
+  let session: Session;
+
+  const createSession = (messages: MessageWire[], sdkSessionId?: string) => {
+    const stateDir = join(agentDir, '.agent-ui', 'sessions', 'session-1');
+    saveTranscript(join(stateDir, 'transcript.jsonl'), messages);
+    session = new Session({
+      id: 'session-1',
+      agentDir,
+      stateDir,
+      sdkSessionId,
+      config: DEFAULT_AGENT_CONFIG,
+      promptSettings: DEFAULT_PROMPT_SETTINGS,
+      mcpServers: {},
+      hookRules: [],
+      toolPolicy: EMPTY_TOOL_POLICY
+    });
+    session.initialize();
+    return session;
+  };
+
+  // The query after a rewind starts once the aborted one has shut down.
+  const waitForQueries = async (count: number) => {
+    while (queryOptions.length < count) {
+      await Bun.sleep(1);
+    }
+  };
+
+  beforeEach(() => {
+    agentDir = mkdtempSync(join(tmpdir(), 'agent-session-'));
+    queryOptions.length = 0;
+  });
+
+  afterEach(async () => {
+    await session?.stop();
+    rmSync(agentDir, { recursive: true, force: true });
+  });
+
+  test('drops the message and everything after it', async () => {
+    createSession(conversation, 'sdk-1');
+
+    expect(await session.rewindToMessage('2', 'second, edited')).toBeNull();
+    expect(session.getMessages().map((message) => message.id)).toEqual(['0', '1']);
+  });
+
+  test('forks the SDK session at the reply before the message', async () => {
+    createSession(conversation, 'sdk-1');
+
+    await session.rewindToMessage('2', 'second, edited');
+    await waitForQueries(1);
+    expect(queryOptions[0]).toMatchObject({
+      resume: 'sdk-1',
+      forkSession: true,
+      resumeSessionAt: 'uuid-1'
+    });
+  });
+
+  test('sends the edited message ahead of messages already queued', async () => {
+    createSession(conversation, 'sdk-1');
+    session.enqueueUserMessage('follow-up');
+    await waitForQueries(1);
+
+    await session.rewindToMessage('2', 'second, edited');
+    await waitForQueries(2);
+    expect(session.getQueuedMessages().map((item) => item.text)).toEqual([
+      'second, edited',
+      'follow-up'
+    ]);
+  });
+
+  test('refuses a rewind past a reply recorded without an SDK checkpoint', async () => {
+    const messages = conversation.map(({ sdkUuid: _sdkUuid, ...message }) => message);
+    createSession(messages, 'sdk-1');
+
+    expect(await session.rewindToMessage('2', 'second, edited')).toBe(
+      'This reply was recorded without an SDK checkpoint, so the session cannot rewind to it.'
+    );
+    expect(session.getMessages()).toHaveLength(4);
+    expect(session.getQueuedMessages()).toEqual([]);
+  });
+
+  test('starts a new SDK session when there is none to fork', async () => {
+    const messages = conversation.map(({ sdkUuid: _sdkUuid, ...message }) => message);
+    createSession(messages);
+
+    expect(await session.rewindToMessage('2', 'second, edited')).toBeNull();
+    await waitForQueries(1);
+    expect(queryOptions[0].resume).toBeUndefined();
+    expect(queryOptions[0].resumeSessionAt).toBeUndefined();
+  });
+
+  test('only rewinds to user messages', async () => {
+    createSession(conversation, 'sdk-1');
+
+    expect(await session.rewindToMessage('3', 'edited')).toBe('User message not found.');
+    expect(await session.rewindToMessage('9', 'edited')).toBe('User message not found.');
+  });
+});
+
+describe('Session.reset', () => {
+  let agentDir: string;
+
+  beforeEach(() => {
+    agentDir = mkdtempSync(join(tmpdir(), 'agent-session-'));
+  });
+
+  afterEach(() => {
+    rmSync(agentDir, { recursive: true, force: true });
+  });
+
+  test("clears the transcript and deletes the session's log files", async () => {
+    const stateDir = join(agentDir, '.agent-ui', 'sessions', 'session-1');
+    saveTranscript(join(stateDir, 'transcript.jsonl'), conversation);
+    const logsDir = join(agentDir, 'logs');
+    mkdirSync(logsDir);
+    const ownLog = join(logsDir, 'agent-2025-01-01T00-00-00-000Z-session-.log');
+    const otherLog = join(logsDir, 'agent-2025-01-01T00-00-00-000Z-other-se.log');
+    writeFileSync(ownLog, 'old run\n');
+    writeFileSync(otherLog, 'other session\n');
+    const session = new Session({
+      id: 'session-1',
+      agentDir,
+      stateDir,
+      config: DEFAULT_AGENT_CONFIG,
+      promptSettings: DEFAULT_PROMPT_SETTINGS,
+      mcpServers: {},
+      hookRules: [],
+      toolPolicy: EMPTY_TOOL_POLICY
+    });
+    session.initialize();
+
+    await session.reset();
+
+    expect(session.getMessages()).toEqual([]);
+    expect(loadTranscript(join(stateDir, 'transcript.jsonl'))).toEqual([]);
+    expect(existsSync(ownLog)).toBe(false);
+    expect(existsSync(otherLog)).toBe(true);
+  });
+});
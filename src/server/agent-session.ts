@@ -1,14 +1,83 @@
 import { randomUUID } from 'crypto';
-import { createWriteStream, existsSync, mkdirSync } from 'fs';
+import { createWriteStream, existsSync, mkdirSync, readdirSync, rmSync } from 'fs';
 import { createRequire } from 'module';
-import { query, type Query, type SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import { join } from 'path';
+import {
+  query,
+  type CanUseTool,
+  type HookInput,
+  type HookJSONOutput,
+  type McpServerStatus,
+  type Options,
+  type PermissionResult,
+  type Query,
+  type SDKResultMessage,
+  type SDKUserMessage
+} from '@anthropic-ai/claude-agent-sdk';
 
 import type { ToolInput } from '../renderer/types/chat';
 import { parsePartialJson } from '../renderer/utils/parsePartialJson';
+import type { Checkpoint } from '../shared/types/checkpoint';
+import type {
+  NotificationHookPayload,
+  PostToolUseHookPayload,
+  PreToolUseHookPayload,
+  StopHookPayload
+} from '../shared/types/hooks';
+import type { SavedAttachmentInfo } from '../shared/types/ipc';
+import type { McpServerConfig, McpStatusPayload } from '../shared/types/mcp';
+import type {
+  PermissionRequest,
+  PermissionResolvedPayload,
+  PermissionResponsePayload
+} from '../shared/types/permission';
+import type { PromptSettings } from '../shared/types/prompt';
+import type {
+  MessageQueuePayload,
+  QueuedMessage,
+  UpdateQueuedMessagePayload
+} from '../shared/types/queue';
 import type { SystemInitInfo } from '../shared/types/system';
+import type { SessionUsage, TokenUsage, TurnUsage } from '../shared/types/usage';
+import { AsyncQueue } from './async-queue';
+import { buildUserContent } from './attachments';
+import { deleteSessionCheckpoints, getCheckpointPath, snapshotFile } from './checkpoints';
+import type { AgentConfig } from './config';
+import { getHeadCommit } from './git';
+import { getTurnOutcome, type TurnOutcome } from './headless';
+import { HOOKS_FILE_NAME, runHookRules, type HookRule } from './hook-rules';
+import {
+  getPermissionSubject,
+  ruleMatches,
+  suggestPermissionPattern,
+  type PermissionRule
+} from './permissions';
+import { saveSessionMetadata } from './session-store';
 import { broadcast } from './sse';
-
-type SessionState = 'idle' | 'running' | 'error';
+import {
+  evaluateToolPolicy,
+  findProtectedFileEdit,
+  POLICY_FILE_NAME,
+  type ToolPolicy,
+  type ToolPolicyDecision
+} from './tool-policy';
+import {
+  finalizeRestoredMessages,
+  loadTranscript,
+  nextMessageSequence,
+  saveTranscript
+} from './transcript';
+import {
+  addTokenUsage,
+  EMPTY_TOKEN_USAGE,
+  loadUsage,
+  saveUsage,
+  summarizeUsage,
+  toTokenUsage
+} from './usage';
+import { WEBHOOKS_FILE_NAME } from './webhooks';
+
+export type SessionState = 'idle' | 'running' | 'error';
 
 type ToolUseState = {
   id: string;
@@ -46,11 +115,15 @@ type ContentBlock = {
   isComplete?: boolean;
 };
 
+type MessageAttachmentWire = NonNullable<MessageWire['attachments']>[number];
+
 export type MessageWire = {
   id: string;
   role: 'user' | 'assistant';
   content: string | ContentBlock[];
   timestamp: string;
+  // UUID of the last top-level SDK assistant message in this reply; forks resume from it.
+  sdkUuid?: string;
   attachments?: {
     id: string;
     name: string;
@@ -63,40 +136,59 @@ export type MessageWire = {
   }[];
 };
 
-const requireModule = createRequire(import.meta.url);
+export type AgentState = {
+  agentDir: string;
+  sessionId: string;
+  sessionState: SessionState;
+  hasInitialPrompt: boolean;
+};
 
-let agentDir = '';
-let hasInitialPrompt = false;
-let sessionState: SessionState = 'idle';
-let querySession: Query | null = null;
-let isProcessing = false;
-let shouldAbortSession = false;
-let sessionTerminationPromise: Promise<void> | null = null;
-let isInterruptingResponse = false;
-let isStreamingMessage = false;
-const messages: MessageWire[] = [];
-const streamIndexToToolId: Map<number, string> = new Map();
-const toolResultIndexToId: Map<number, string> = new Map();
-const childToolToParent: Map<string, string> = new Map();
-let messageSequence = 0;
-let sessionId = randomUUID();
-let logStream: ReturnType<typeof createWriteStream> | null = null;
-let logFilePath = '';
-const logLines: string[] = [];
-let systemInitInfo: SystemInitInfo | null = null;
-type MessageQueueItem = {
-  message: SDKUserMessage['message'];
-  resolve: () => void;
+export type SessionSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  sessionState: SessionState;
+  messageCount: number;
 };
-const messageQueue: MessageQueueItem[] = [];
 
-function getSessionId(): string {
-  return sessionId;
-}
+type SessionOptions = {
+  id: string;
+  agentDir: string;
+  stateDir: string;
+  title?: string;
+  createdAt?: string;
+  sdkSessionId?: string;
+  // Set on forks that have not run a query yet.
+  forkSession?: boolean;
+  resumeSessionAt?: string;
+  gitBaseCommit?: string;
+  model?: string;
+  config: AgentConfig;
+  promptSettings: PromptSettings;
+  mcpServers: Record<string, McpServerConfig>;
+  disabledMcpServers?: string[];
+  hookRules: HookRule[];
+  toolPolicy: ToolPolicy;
+  // Headless and scheduled runs have nobody to answer permission prompts, so those tool calls are
+  // denied.
+  denyPermissionPrompts?: boolean;
+  onChange?: (session: Session) => void;
+  onCheckpoint?: () => void;
+  onTurnEnd?: (session: Session, outcome: TurnOutcome) => void;
+  onPermissionRequest?: (session: Session, request: PermissionRequest) => void;
+};
 
-function resetAbortFlag(): void {
-  shouldAbortSession = false;
-}
+const requireModule = createRequire(import.meta.url);
+const TRANSCRIPT_SAVE_DELAY_MS = 250;
+const MAX_TITLE_LENGTH = 80;
+// Config the agent could otherwise rewrite to loosen its own limits from the next start on.
+const PROTECTED_CONFIG_FILES = [POLICY_FILE_NAME, HOOKS_FILE_NAME, WEBHOOKS_FILE_NAME];
+
+type PendingPermission = {
+  request: PermissionRequest;
+  resolve: (result: PermissionResult) => void;
+};
 
 function resolveClaudeCodeCli(): string {
   const cliPath = requireModule.resolve('@anthropic-ai/claude-agent-sdk/cli.js');
@@ -165,28 +257,20 @@ function parseSystemInitInfo(message: unknown): SystemInitInfo | null {
   };
 }
 
-function setSessionState(nextState: SessionState): void {
-  if (sessionState === nextState) {
-    return;
-  }
-  sessionState = nextState;
-  broadcast('chat:status', { sessionState });
-}
-
-function ensureAssistantMessage(): MessageWire {
-  const lastMessage = messages[messages.length - 1];
-  if (lastMessage && lastMessage.role === 'assistant' && isStreamingMessage) {
-    return lastMessage;
-  }
-  const assistant: MessageWire = {
-    id: String(messageSequence++),
-    role: 'assistant',
-    content: '',
-    timestamp: new Date().toISOString()
+function toMessageAttachment(attachment: SavedAttachmentInfo): MessageAttachmentWire {
+  const isImage = attachment.mimeType.startsWith('image/');
+  return {
+    id: randomUUID(),
+    name: attachment.name,
+    size: attachment.size,
+    mimeType: attachment.mimeType,
+    savedPath: attachment.savedPath,
+    relativePath: attachment.relativePath,
+    isImage,
+    ...(isImage ?
+      { previewUrl: `/agent/download?path=${encodeURIComponent(attachment.relativePath)}` }
+    : {})
   };
-  messages.push(assistant);
-  isStreamingMessage = true;
-  return assistant;
 }
 
 function ensureContentArray(message: MessageWire): ContentBlock[] {
@@ -201,401 +285,6 @@ function ensureContentArray(message: MessageWire): ContentBlock[] {
   return message.content;
 }
 
-function appendTextChunk(chunk: string): void {
-  const message = ensureAssistantMessage();
-  if (typeof message.content === 'string') {
-    message.content += chunk;
-    return;
-  }
-  const contentArray = message.content;
-  const lastBlock = contentArray[contentArray.length - 1];
-  if (lastBlock?.type === 'text') {
-    lastBlock.text = `${lastBlock.text ?? ''}${chunk}`;
-  } else {
-    contentArray.push({ type: 'text', text: chunk });
-  }
-}
-
-function handleThinkingStart(index: number): void {
-  const message = ensureAssistantMessage();
-  const contentArray = ensureContentArray(message);
-  contentArray.push({
-    type: 'thinking',
-    thinking: '',
-    thinkingStreamIndex: index,
-    thinkingStartedAt: Date.now()
-  });
-}
-
-function handleThinkingChunk(index: number, delta: string): void {
-  const message = ensureAssistantMessage();
-  const contentArray = ensureContentArray(message);
-  const thinkingBlock = contentArray.find(
-    (block) => block.type === 'thinking' && block.thinkingStreamIndex === index && !block.isComplete
-  );
-  if (thinkingBlock && thinkingBlock.type === 'thinking') {
-    thinkingBlock.thinking = `${thinkingBlock.thinking ?? ''}${delta}`;
-  }
-}
-
-function handleToolUseStart(tool: {
-  id: string;
-  name: string;
-  input: Record<string, unknown>;
-  streamIndex: number;
-}): void {
-  const message = ensureAssistantMessage();
-  const contentArray = ensureContentArray(message);
-  contentArray.push({
-    type: 'tool_use',
-    tool: {
-      ...tool,
-      inputJson: ''
-    }
-  });
-}
-
-function handleSubagentToolUseStart(
-  parentToolUseId: string,
-  tool: {
-    id: string;
-    name: string;
-    input: Record<string, unknown>;
-    streamIndex?: number;
-  }
-): void {
-  const parentTool = findToolBlockById(parentToolUseId);
-  if (!parentTool) {
-    return;
-  }
-  childToolToParent.set(tool.id, parentToolUseId);
-  if (!parentTool.tool.subagentCalls) {
-    parentTool.tool.subagentCalls = [];
-  }
-  const existing = parentTool.tool.subagentCalls.find((call) => call.id === tool.id);
-  if (existing) {
-    existing.name = tool.name;
-    existing.input = tool.input;
-    existing.streamIndex = tool.streamIndex;
-    return;
-  }
-  parentTool.tool.subagentCalls.push({
-    id: tool.id,
-    name: tool.name,
-    input: tool.input,
-    streamIndex: tool.streamIndex,
-    inputJson: JSON.stringify(tool.input, null, 2),
-    isLoading: true
-  });
-}
-
-function ensureSubagentToolPlaceholder(parentToolUseId: string, toolUseId: string): void {
-  const parentTool = findToolBlockById(parentToolUseId);
-  if (!parentTool) {
-    return;
-  }
-  if (!parentTool.tool.subagentCalls) {
-    parentTool.tool.subagentCalls = [];
-  }
-  const existing = parentTool.tool.subagentCalls.find((call) => call.id === toolUseId);
-  if (existing) {
-    return;
-  }
-  childToolToParent.set(toolUseId, parentToolUseId);
-  parentTool.tool.subagentCalls.push({
-    id: toolUseId,
-    name: 'Tool',
-    input: {},
-    inputJson: '{}',
-    isLoading: true
-  });
-}
-
-function handleToolInputDelta(index: number, toolId: string, delta: string): void {
-  const message = ensureAssistantMessage();
-  const contentArray = ensureContentArray(message);
-  const toolBlock = contentArray.find(
-    (block) => block.type === 'tool_use' && block.tool?.id === toolId
-  );
-  if (!toolBlock || toolBlock.type !== 'tool_use' || !toolBlock.tool) {
-    return;
-  }
-  const newInputJson = `${toolBlock.tool.inputJson ?? ''}${delta}`;
-  toolBlock.tool.inputJson = newInputJson;
-  const parsedInput = parsePartialJson<ToolInput>(newInputJson);
-  if (parsedInput) {
-    toolBlock.tool.parsedInput = parsedInput;
-  }
-}
-
-function handleSubagentToolInputDelta(
-  parentToolUseId: string,
-  toolId: string,
-  delta: string
-): void {
-  const parentTool = findToolBlockById(parentToolUseId);
-  if (!parentTool?.tool.subagentCalls) {
-    return;
-  }
-  const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolId);
-  if (!subCall) {
-    return;
-  }
-  const newInputJson = `${subCall.inputJson ?? ''}${delta}`;
-  subCall.inputJson = newInputJson;
-  const parsedInput = parsePartialJson<ToolInput>(newInputJson);
-  if (parsedInput) {
-    subCall.parsedInput = parsedInput;
-  }
-}
-
-function finalizeSubagentToolInput(parentToolUseId: string, toolId: string): void {
-  const parentTool = findToolBlockById(parentToolUseId);
-  if (!parentTool?.tool.subagentCalls) {
-    return;
-  }
-  const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolId);
-  if (!subCall?.inputJson) {
-    return;
-  }
-  try {
-    subCall.parsedInput = JSON.parse(subCall.inputJson) as ToolInput;
-  } catch {
-    const parsed = parsePartialJson<ToolInput>(subCall.inputJson);
-    if (parsed) {
-      subCall.parsedInput = parsed;
-    }
-  }
-}
-
-function handleContentBlockStop(index: number, toolId?: string): void {
-  const message = ensureAssistantMessage();
-  const contentArray = ensureContentArray(message);
-  const thinkingBlock = contentArray.find(
-    (block) => block.type === 'thinking' && block.thinkingStreamIndex === index && !block.isComplete
-  );
-  if (thinkingBlock && thinkingBlock.type === 'thinking') {
-    thinkingBlock.isComplete = true;
-    thinkingBlock.thinkingDurationMs =
-      thinkingBlock.thinkingStartedAt ? Date.now() - thinkingBlock.thinkingStartedAt : undefined;
-    return;
-  }
-
-  const toolBlock =
-    toolId ?
-      contentArray.find((block) => block.type === 'tool_use' && block.tool?.id === toolId)
-    : contentArray.find((block) => block.type === 'tool_use' && block.tool?.streamIndex === index);
-
-  if (toolBlock && toolBlock.type === 'tool_use' && toolBlock.tool?.inputJson) {
-    try {
-      toolBlock.tool.parsedInput = JSON.parse(toolBlock.tool.inputJson) as ToolInput;
-    } catch {
-      const parsed = parsePartialJson<ToolInput>(toolBlock.tool.inputJson);
-      if (parsed) {
-        toolBlock.tool.parsedInput = parsed;
-      }
-    }
-  }
-}
-
-function handleToolResultStart(toolUseId: string, content: string, isError: boolean): void {
-  if (handleSubagentToolResultStart(toolUseId, content, isError)) {
-    return;
-  }
-  setToolResult(toolUseId, content, isError);
-}
-
-function handleToolResultComplete(toolUseId: string, content: string, isError?: boolean): void {
-  if (handleSubagentToolResultComplete(toolUseId, content, isError)) {
-    return;
-  }
-  setToolResult(toolUseId, content, isError);
-}
-
-function handleMessageComplete(): void {
-  isStreamingMessage = false;
-  setSessionState('idle');
-}
-
-function handleMessageStopped(): void {
-  isStreamingMessage = false;
-  setSessionState('idle');
-  const lastMessage = messages[messages.length - 1];
-  if (!lastMessage || lastMessage.role !== 'assistant' || typeof lastMessage.content === 'string') {
-    return;
-  }
-  lastMessage.content = lastMessage.content.map((block) => {
-    if (block.type === 'thinking' && !block.isComplete) {
-      return {
-        ...block,
-        isComplete: true,
-        thinkingDurationMs:
-          block.thinkingStartedAt ? Date.now() - block.thinkingStartedAt : undefined
-      };
-    }
-    return block;
-  });
-}
-
-function handleMessageError(error: string): void {
-  isStreamingMessage = false;
-  setSessionState('idle');
-  messages.push({
-    id: String(messageSequence++),
-    role: 'assistant',
-    content: `Error: ${error}`,
-    timestamp: new Date().toISOString()
-  });
-}
-
-function findToolBlockById(toolUseId: string): { tool: ToolUseState } | null {
-  for (let i = messages.length - 1; i >= 0; i -= 1) {
-    const message = messages[i];
-    if (message.role !== 'assistant') {
-      continue;
-    }
-    if (typeof message.content === 'string') {
-      continue;
-    }
-    const toolBlock = message.content.find(
-      (block) => block.type === 'tool_use' && block.tool?.id === toolUseId
-    );
-    if (toolBlock && toolBlock.type === 'tool_use' && toolBlock.tool) {
-      return { tool: toolBlock.tool };
-    }
-  }
-  return null;
-}
-
-function appendToolResultDelta(toolUseId: string, delta: string): void {
-  if (appendSubagentToolResultDelta(toolUseId, delta)) {
-    return;
-  }
-  const toolBlock = findToolBlockById(toolUseId);
-  if (!toolBlock) {
-    return;
-  }
-  toolBlock.tool.result = `${toolBlock.tool.result ?? ''}${delta}`;
-}
-
-function handleSubagentToolResultStart(
-  toolUseId: string,
-  content: string,
-  isError: boolean
-): boolean {
-  const parentToolUseId = childToolToParent.get(toolUseId);
-  if (!parentToolUseId) {
-    return false;
-  }
-  const parentTool = findToolBlockById(parentToolUseId);
-  if (!parentTool?.tool.subagentCalls) {
-    return false;
-  }
-  const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolUseId);
-  if (!subCall) {
-    return false;
-  }
-  subCall.result = content;
-  subCall.isError = isError;
-  subCall.isLoading = true;
-  return true;
-}
-
-function handleSubagentToolResultComplete(
-  toolUseId: string,
-  content: string,
-  isError?: boolean
-): boolean {
-  const parentToolUseId = childToolToParent.get(toolUseId);
-  if (!parentToolUseId) {
-    return false;
-  }
-  const parentTool = findToolBlockById(parentToolUseId);
-  if (!parentTool?.tool.subagentCalls) {
-    return false;
-  }
-  const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolUseId);
-  if (!subCall) {
-    return false;
-  }
-  subCall.result = content;
-  if (typeof isError === 'boolean') {
-    subCall.isError = isError;
-  }
-  subCall.isLoading = false;
-  return true;
-}
-
-function appendSubagentToolResultDelta(toolUseId: string, delta: string): boolean {
-  const parentToolUseId = childToolToParent.get(toolUseId);
-  if (!parentToolUseId) {
-    return false;
-  }
-  const parentTool = findToolBlockById(parentToolUseId);
-  if (!parentTool?.tool.subagentCalls) {
-    return false;
-  }
-  const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolUseId);
-  if (!subCall) {
-    return false;
-  }
-  subCall.result = `${subCall.result ?? ''}${delta}`;
-  subCall.isLoading = true;
-  return true;
-}
-
-function finalizeSubagentToolResult(toolUseId: string): boolean {
-  const parentToolUseId = childToolToParent.get(toolUseId);
-  if (!parentToolUseId) {
-    return false;
-  }
-  const parentTool = findToolBlockById(parentToolUseId);
-  if (!parentTool?.tool.subagentCalls) {
-    return false;
-  }
-  const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolUseId);
-  if (!subCall) {
-    return false;
-  }
-  subCall.isLoading = false;
-  return true;
-}
-
-function getSubagentToolResult(toolUseId: string): string | undefined {
-  const parentToolUseId = childToolToParent.get(toolUseId);
-  if (!parentToolUseId) {
-    return undefined;
-  }
-  const parentTool = findToolBlockById(parentToolUseId);
-  if (!parentTool?.tool.subagentCalls) {
-    return undefined;
-  }
-  return parentTool.tool.subagentCalls.find((call) => call.id === toolUseId)?.result;
-}
-
-function setToolResult(toolUseId: string, content: string, isError?: boolean): void {
-  const toolBlock = findToolBlockById(toolUseId);
-  if (!toolBlock) {
-    return;
-  }
-  toolBlock.tool.result = content;
-  if (typeof isError === 'boolean') {
-    toolBlock.tool.isError = isError;
-  }
-}
-
-function getToolResult(toolUseId: string): string | undefined {
-  const toolBlock = findToolBlockById(toolUseId);
-  return toolBlock?.tool.result;
-}
-
-function appendToolResultContent(toolUseId: string, content: string, isError?: boolean): string {
-  const existing = getToolResult(toolUseId);
-  const next = existing ? `${existing}\n${content}` : content;
-  setToolResult(toolUseId, next, isError);
-  return next;
-}
-
 function formatAssistantContent(content: unknown): string {
   if (!content) {
     return '';
@@ -636,28 +325,6 @@ function formatAssistantContent(content: unknown): string {
     .join('\n\n');
 }
 
-function createLogStream(dir: string): void {
-  if (logStream) {
-    logStream.end();
-    logStream = null;
-  }
-  const logsDir = `${dir}/logs`;
-  mkdirSync(logsDir, { recursive: true });
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  logFilePath = `${logsDir}/agent-${timestamp}.log`;
-  logStream = createWriteStream(logFilePath, { flags: 'a' });
-  logLines.length = 0;
-}
-
-function appendLogLine(line: string): void {
-  logLines.push(line);
-  if (logLines.length > 2000) {
-    logLines.shift();
-  }
-  logStream?.write(`${line}\n`);
-  broadcast('chat:log', line);
-}
-
 function extractAgentErrorFromContent(content: unknown): string | null {
   const text = formatAssistantContent(content);
   if (!text) {
@@ -697,529 +364,1904 @@ function extractAgentError(sdkMessage: unknown): string | null {
   return null;
 }
 
-export function getAgentState(): {
-  agentDir: string;
-  sessionState: SessionState;
-  hasInitialPrompt: boolean;
-} {
-  return { agentDir, sessionState, hasInitialPrompt };
-}
-
-export function getSystemInitInfo(): SystemInitInfo | null {
-  return systemInitInfo;
+function trimTitle(text: string): string {
+  const firstLine = text.split('\n')[0].trim();
+  return firstLine.length > MAX_TITLE_LENGTH ?
+      `${firstLine.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : firstLine;
 }
 
-export function getLogLines(): string[] {
-  return logLines;
+function deriveTitle(messages: MessageWire[]): string {
+  const firstUserMessage = messages.find(
+    (message) => message.role === 'user' && typeof message.content === 'string'
+  );
+  return typeof firstUserMessage?.content === 'string' ? trimTitle(firstUserMessage.content) : '';
 }
 
-export function getMessages(): MessageWire[] {
-  return messages;
-}
+export class Session {
+  readonly id: string;
+  private createdAt: string;
+  private readonly agentDir: string;
+  private readonly transcriptPath: string;
+  private readonly sessionMetadataPath: string;
+  private readonly usagePath: string;
+  private readonly onChange?: (session: Session) => void;
+  private title: string;
+  private readonly hasStoredCreatedAt: boolean;
+  private hasInitialPrompt = false;
+  private sessionState: SessionState = 'idle';
+  private querySession: Query | null = null;
+  private isProcessing = false;
+  private sessionTerminationPromise: Promise<void> | null = null;
+  private sessionAbortController: AbortController | null = null;
+  private isInterruptingResponse = false;
+  private isStreamingMessage = false;
+  private readonly messages: MessageWire[] = [];
+  private readonly streamIndexToToolId: Map<number, string> = new Map();
+  private readonly toolResultIndexToId: Map<number, string> = new Map();
+  private readonly childToolToParent: Map<string, string> = new Map();
+  private messageSequence = 0;
+  private logStream: ReturnType<typeof createWriteStream> | null = null;
+  private logFilePath = '';
+  private readonly logLines: string[] = [];
+  private systemInitInfo: SystemInitInfo | null = null;
+  private sdkSessionId: string | null;
+  private forkSession: boolean;
+  private resumeSessionAt: string | null;
+  private gitBaseCommit: string | null;
+  private model: string | undefined;
+  private readonly config: AgentConfig;
+  private promptSettings: PromptSettings;
+  private mcpServers: Record<string, McpServerConfig>;
+  private readonly disabledMcpServers: Set<string>;
+  private readonly mcpConnections: Map<string, McpServerStatus> = new Map();
+  private readonly hookRules: HookRule[];
+  private readonly toolPolicy: ToolPolicy;
+  // Set when options read at query startup changed; the query ends after the current turn.
+  private restartPending = false;
+  // The checkpoint files changed during the current turn are saved to, created on first use.
+  private turnCheckpoint: Omit<Checkpoint, 'files'> | null = null;
+  private readonly onCheckpoint?: () => void;
+  private readonly denyPermissionPrompts: boolean;
+  private readonly onTurnEnd?: (session: Session, outcome: TurnOutcome) => void;
+  private readonly onPermissionRequest?: (session: Session, request: PermissionRequest) => void;
+  private transcriptSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly messageQueue = new AsyncQueue<QueuedMessage>();
+  // Resolves once the SDK finishes the turn for the message most recently handed to it.
+  private resolveTurn: (() => void) | null = null;
+  private activeQueueItemId: string | null = null;
+  private readonly pendingPermissions: Map<string, PendingPermission> = new Map();
+  private readonly alwaysAllowRules: PermissionRule[] = [];
+  private readonly usageTurns: TurnUsage[] = [];
+  // Latest usage per subagent API message in the current turn, keyed by message id.
+  private readonly subagentUsageByMessage: Map<string, TokenUsage> = new Map();
+  // The SDK reports cost accumulated over the whole query, so turns are charged the difference.
+  private reportedQueryCostUsd = 0;
+
+  constructor(options: SessionOptions) {
+    this.id = options.id;
+    this.agentDir = options.agentDir;
+    this.createdAt = options.createdAt ?? new Date().toISOString();
+    this.hasStoredCreatedAt = Boolean(options.createdAt);
+    this.title = options.title ?? '';
+    this.sdkSessionId = options.sdkSessionId ?? null;
+    this.forkSession = options.forkSession ?? false;
+    this.resumeSessionAt = options.resumeSessionAt ?? null;
+    this.gitBaseCommit = options.gitBaseCommit ?? null;
+    this.model = options.model;
+    this.config = options.config;
+    this.promptSettings = options.promptSettings;
+    this.mcpServers = options.mcpServers;
+    this.disabledMcpServers = new Set(options.disabledMcpServers);
+    this.hookRules = options.hookRules;
+    this.toolPolicy = options.toolPolicy;
+    this.onChange = options.onChange;
+    this.onCheckpoint = options.onCheckpoint;
+    this.denyPermissionPrompts = options.denyPermissionPrompts ?? false;
+    this.onTurnEnd = options.onTurnEnd;
+    this.onPermissionRequest = options.onPermissionRequest;
+    this.transcriptPath = join(options.stateDir, 'transcript.jsonl');
+    this.sessionMetadataPath = join(options.stateDir, 'session.json');
+    this.usagePath = join(options.stateDir, 'usage.json');
+  }
+
+  /**
+   * Restores the persisted transcript and, for a fresh session, queues the initial prompt.
+   */
+  initialize(initialPrompt?: string | null): void {
+    const restored = loadTranscript(this.transcriptPath);
+    finalizeRestoredMessages(restored);
+    this.messages.push(...restored);
+    this.messageSequence = nextMessageSequence(this.messages);
+    this.usageTurns.push(...loadUsage(this.usagePath));
+    if (!this.hasStoredCreatedAt && this.messages.length > 0) {
+      this.createdAt = this.messages[0].timestamp;
+    }
+    if (!this.title) {
+      this.title = deriveTitle(this.messages);
+    }
+    this.persistSessionMetadata();
+    this.recordGitBaseCommit();
+
+    // A restored conversation already contains the initial prompt, so only seed a fresh one.
+    const shouldSendInitialPrompt = this.messages.length === 0 && Boolean(initialPrompt?.trim());
+    this.hasInitialPrompt = this.messages.length > 0 || shouldSendInitialPrompt;
+    console.log(
+      `[agent] init session=${this.id} restoredMessages=${this.messages.length} resume=${this.sdkSessionId ?? 'none'} initialPrompt=${shouldSendInitialPrompt ? 'yes' : 'no'}`
+    );
+    if (shouldSendInitialPrompt) {
+      this.enqueueUserMessage(initialPrompt!.trim());
+    }
+  }
 
-export function initializeAgent(nextAgentDir: string, initialPrompt?: string | null): void {
-  agentDir = nextAgentDir;
-  hasInitialPrompt = Boolean(initialPrompt && initialPrompt.trim());
-  systemInitInfo = null;
-  messageSequence = 0;
-  sessionId = randomUUID();
-  messages.length = 0;
-  messageQueue.length = 0;
-  childToolToParent.clear();
-  createLogStream(agentDir);
-  console.log(`[agent] init dir=${agentDir} initialPrompt=${hasInitialPrompt ? 'yes' : 'no'}`);
-  if (hasInitialPrompt) {
-    void enqueueUserMessage(initialPrompt!.trim());
+  private recordGitBaseCommit(): void {
+    if (this.gitBaseCommit) {
+      return;
+    }
+    getHeadCommit(this.agentDir)
+      .then((commit) => {
+        if (commit && !this.gitBaseCommit) {
+          this.gitBaseCommit = commit;
+          this.persistSessionMetadata();
+        }
+      })
+      .catch(() => {
+        // Not a git repository, or git is not installed.
+      });
   }
-}
 
-export async function enqueueUserMessage(text: string): Promise<void> {
-  const trimmed = text.trim();
-  if (!trimmed) {
-    return;
+  getGitBaseCommit(): string | null {
+    return this.gitBaseCommit;
   }
-  if (!hasInitialPrompt) {
-    hasInitialPrompt = true;
+
+  /**
+   * Points the next `query()` at an existing Claude SDK session (e.g. from `--resume`).
+   */
+  resume(sdkSessionId: string): void {
+    this.rememberSdkSessionId(sdkSessionId);
   }
-  console.log(`[agent] enqueue user message len=${trimmed.length}`);
-  setSessionState('running');
 
-  const userMessage: MessageWire = {
-    id: String(messageSequence++),
-    role: 'user',
-    content: trimmed,
-    timestamp: new Date().toISOString()
-  };
-  messages.push(userMessage);
-  broadcast('chat:message-replay', { message: userMessage });
+  /**
+   * Switches the model for the running query, or for the next `query()` when idle.
+   */
+  async setModel(model: string): Promise<void> {
+    this.model = model;
+    if (this.querySession) {
+      console.log(`[agent] session=${this.id} set model=${model}`);
+      await this.querySession.setModel(model);
+    }
+  }
 
-  if (!isSessionActive()) {
-    console.log('[agent] starting session (idle -> running)');
-    startStreamingSession().catch((error) => {
-      console.error('[agent] failed to start session', error);
-    });
+  /**
+   * Stores new prompt settings. A running query only reads them at startup, so it is ended once
+   * the current turn completes; the next message resumes the SDK session with the new prompt.
+   */
+  setPromptSettings(settings: PromptSettings): void {
+    this.promptSettings = settings;
+    this.requestRestart();
   }
 
-  await new Promise<void>((resolve) => {
-    messageQueue.push({
-      message: {
-        role: 'user',
-        content: [{ type: 'text', text: trimmed }]
-      },
-      resolve
-    });
-  });
-}
+  /**
+   * Replaces the configured MCP servers; like prompt settings they apply from the next query.
+   */
+  setMcpServers(servers: Record<string, McpServerConfig>): void {
+    this.mcpServers = servers;
+    this.requestRestart();
+    this.emitMcpStatus();
+  }
 
-export function isSessionActive(): boolean {
-  return isProcessing || querySession !== null;
-}
+  /**
+   * Turns a configured MCP server on or off for this session only.
+   */
+  setMcpServerEnabled(name: string, enabled: boolean): boolean {
+    if (!(name in this.mcpServers)) {
+      return false;
+    }
+    if (enabled) {
+      this.disabledMcpServers.delete(name);
+    } else {
+      this.disabledMcpServers.add(name);
+    }
+    console.log(`[agent] session=${this.id} mcp server=${name} enabled=${enabled}`);
+    this.persistSessionMetadata();
+    this.requestRestart();
+    this.emitMcpStatus();
+    return true;
+  }
 
-export async function interruptCurrentResponse(): Promise<boolean> {
-  if (!querySession) {
-    return false;
+  getMcpStatus(): McpStatusPayload {
+    const tools = this.systemInitInfo?.tools ?? [];
+    return {
+      servers: Object.keys(this.mcpServers).map((name) => {
+        const enabled = !this.disabledMcpServers.has(name);
+        const connection = this.mcpConnections.get(name);
+        const prefix = `mcp__${name}__`;
+        return {
+          name,
+          enabled,
+          status:
+            !enabled ? 'disabled'
+            : connection ? connection.status
+            : 'inactive',
+          ...(connection?.error ? { error: connection.error } : {}),
+          tools: tools
+            .filter((tool) => tool.startsWith(prefix))
+            .map((tool) => tool.slice(prefix.length))
+        };
+      })
+    };
+  }
+
+  /**
+   * Asks the running query for live MCP connection status.
+   */
+  async refreshMcpStatus(): Promise<McpStatusPayload> {
+    if (this.querySession) {
+      const statuses = await this.querySession.mcpServerStatus();
+      this.mcpConnections.clear();
+      statuses.forEach((status) => this.mcpConnections.set(status.name, status));
+      this.emitMcpStatus();
+    }
+    return this.getMcpStatus();
   }
 
-  if (isInterruptingResponse) {
-    return true;
+  private emitMcpStatus(): void {
+    this.emit('chat:mcp', this.getMcpStatus());
   }
 
-  isInterruptingResponse = true;
-  try {
-    await querySession.interrupt();
-    broadcast('chat:message-stopped', null);
-    handleMessageStopped();
-    return true;
-  } finally {
-    isInterruptingResponse = false;
+  private getEnabledMcpServers(): Record<string, McpServerConfig> {
+    return Object.fromEntries(
+      Object.entries(this.mcpServers).filter(([name]) => !this.disabledMcpServers.has(name))
+    );
   }
-}
 
-async function startStreamingSession(): Promise<void> {
-  if (sessionTerminationPromise) {
-    await sessionTerminationPromise;
+  /**
+   * Ends a running query once its current turn completes, or right away between turns, so the
+   * next message starts a query that rereads its options and `.claude/` definitions.
+   */
+  requestRestart(): void {
+    if (!this.querySession) {
+      return;
+    }
+    this.restartPending = true;
+    if (!this.resolveTurn) {
+      this.restartQuery();
+    }
   }
 
-  if (isProcessing || querySession) {
-    return;
+  private restartQuery(): void {
+    console.log(`[agent] restarting session=${this.id} to apply new options`);
+    this.restartPending = false;
+    this.sessionAbortController?.abort();
   }
 
-  const env = buildClaudeSessionEnv();
-  console.log(`[agent] start session cwd=${agentDir}`);
-  shouldAbortSession = false;
-  resetAbortFlag();
-  isProcessing = true;
-  streamIndexToToolId.clear();
-  setSessionState('running');
+  /**
+   * Registers SDK hooks that run the configured hook rules and stream each event to the UI.
+   */
+  private buildHooks(): Options['hooks'] {
+    const events = ['PreToolUse', 'PostToolUse', 'Notification', 'Stop'] as const;
+    return Object.fromEntries(
+      events.map((event) => [event, [{ hooks: [(input: HookInput) => this.handleHook(input)] }]])
+    );
+  }
 
-  let resolveTermination: () => void;
-  sessionTerminationPromise = new Promise((resolve) => {
-    resolveTermination = resolve;
-  });
+  private async handleHook(input: HookInput): Promise<HookJSONOutput> {
+    const outcome =
+      this.hookRules.length > 0 ?
+        await runHookRules(this.hookRules, input, this.agentDir)
+      : { results: [] };
+    const timestamp = new Date().toISOString();
+    if (outcome.blockedReason) {
+      console.log(`[hooks] session=${this.id} blocked: ${outcome.blockedReason}`);
+    }
 
-  try {
-    querySession = query({
-      prompt: messageGenerator(),
-      options: {
-        maxThinkingTokens: 32_000,
-        settingSources: ['project'],
-        permissionMode: 'bypassPermissions',
-        pathToClaudeCodeExecutable: resolveClaudeCodeCli(),
-        executable: 'bun',
-        env,
-        stderr: (message: string) => {
-          if (process.env.DEBUG === '1') {
-            broadcast('chat:debug-message', message);
-          }
-        },
-        systemPrompt: {
-          type: 'preset',
-          preset: 'claude_code'
-        },
-        cwd: agentDir,
-        includePartialMessages: true,
-        allowDangerouslySkipPermissions: true
+    switch (input.hook_event_name) {
+      case 'PreToolUse': {
+        // Tools in `allowedTools` never reach canUseTool, so the policy's denials are enforced here.
+        const policyDecision = this.evaluatePolicy(
+          input.tool_name,
+          (input.tool_input ?? {}) as Record<string, unknown>
+        );
+        const blockedReason =
+          outcome.blockedReason ??
+          (policyDecision?.behavior === 'deny' ? policyDecision.message : undefined);
+        if (!outcome.blockedReason && blockedReason) {
+          console.log(`[agent] session=${this.id} policy denied tool=${input.tool_name}`);
+        }
+        const payload: PreToolUseHookPayload = {
+          toolUseId: input.tool_use_id,
+          toolName: input.tool_name,
+          toolInput: input.tool_input,
+          ...(blockedReason ? { blockedReason } : {}),
+          results: outcome.results,
+          timestamp
+        };
+        this.emit('chat:hook-pre-tool-use', payload);
+        if (!blockedReason) {
+          this.snapshotBeforeToolUse(input.tool_name, input.tool_input);
+        }
+        return blockedReason ?
+            {
+              hookSpecificOutput: {
+                hookEventName: 'PreToolUse',
+                permissionDecision: 'deny',
+                permissionDecisionReason: blockedReason
+              }
+            }
+          : {};
       }
-    });
-
-    console.log('[agent] session started');
-    for await (const sdkMessage of querySession) {
-      try {
-        const line = `${new Date().toISOString()} ${JSON.stringify(sdkMessage)}`;
-        console.log('[agent][sdk]', JSON.stringify(sdkMessage));
-        appendLogLine(line);
-      } catch (error) {
-        console.log('[agent][sdk] (unserializable)', error);
+      case 'PostToolUse': {
+        const payload: PostToolUseHookPayload = {
+          toolUseId: input.tool_use_id,
+          toolName: input.tool_name,
+          results: outcome.results,
+          timestamp
+        };
+        this.emit('chat:hook-post-tool-use', payload);
+        // Command output (e.g. formatter or linter results) is passed on to Claude.
+        const context = outcome.results
+          .map((result) => result.output ?? result.error)
+          .filter(Boolean)
+          .join('\n');
+        return context ?
+            { hookSpecificOutput: { hookEventName: 'PostToolUse', additionalContext: context } }
+          : {};
       }
-      const nextSystemInit = parseSystemInitInfo(sdkMessage);
-      if (nextSystemInit) {
-        systemInitInfo = nextSystemInit;
-        broadcast('chat:system-init', { info: systemInitInfo });
+      case 'Notification': {
+        const payload: NotificationHookPayload = {
+          message: input.message,
+          ...(input.title ? { title: input.title } : {}),
+          notificationType: input.notification_type,
+          timestamp
+        };
+        this.emit('chat:hook-notification', payload);
+        return {};
       }
-      const agentError = extractAgentError(sdkMessage);
-      if (agentError) {
-        broadcast('chat:agent-error', { message: agentError });
+      case 'Stop': {
+        const payload: StopHookPayload = { timestamp };
+        this.emit('chat:hook-stop', payload);
+        return {};
       }
-      if (shouldAbortSession) {
-        break;
+      default:
+        return {};
+    }
+  }
+
+  private snapshotBeforeToolUse(toolName: string, toolInput: unknown): void {
+    const path = getCheckpointPath(
+      this.agentDir,
+      toolName,
+      (toolInput ?? {}) as Record<string, unknown>
+    );
+    if (!path || !this.turnCheckpoint) {
+      return;
+    }
+    try {
+      if (snapshotFile(this.agentDir, this.turnCheckpoint, path)) {
+        this.onCheckpoint?.();
       }
+    } catch (error) {
+      console.error(`[agent] failed to checkpoint ${path}`, error);
+    }
+  }
 
-      if (sdkMessage.type === 'stream_event') {
-        const streamEvent = sdkMessage.event;
-        if (streamEvent.type === 'content_block_delta') {
-          if (streamEvent.delta.type === 'text_delta') {
-            if (sdkMessage.parent_tool_use_id) {
-              const parentToolUseId = childToolToParent.get(sdkMessage.parent_tool_use_id) ?? null;
-              if (parentToolUseId) {
-                broadcast('chat:subagent-tool-result-delta', {
-                  parentToolUseId,
-                  toolUseId: sdkMessage.parent_tool_use_id,
-                  delta: streamEvent.delta.text
-                });
-              } else {
-                broadcast('chat:tool-result-delta', {
-                  toolUseId: sdkMessage.parent_tool_use_id,
-                  delta: streamEvent.delta.text
-                });
-              }
-              appendToolResultDelta(sdkMessage.parent_tool_use_id, streamEvent.delta.text);
-            } else {
-              broadcast('chat:message-chunk', streamEvent.delta.text);
-              appendTextChunk(streamEvent.delta.text);
-            }
-          } else if (streamEvent.delta.type === 'thinking_delta') {
-            broadcast('chat:thinking-chunk', {
-              index: streamEvent.index,
-              delta: streamEvent.delta.thinking
-            });
-            handleThinkingChunk(streamEvent.index, streamEvent.delta.thinking);
-          } else if (streamEvent.delta.type === 'input_json_delta') {
-            const toolId = streamIndexToToolId.get(streamEvent.index) ?? '';
-            if (sdkMessage.parent_tool_use_id) {
-              broadcast('chat:subagent-tool-input-delta', {
-                parentToolUseId: sdkMessage.parent_tool_use_id,
-                toolId,
-                delta: streamEvent.delta.partial_json
-              });
-              handleSubagentToolInputDelta(
-                sdkMessage.parent_tool_use_id,
-                toolId,
-                streamEvent.delta.partial_json
-              );
-            } else {
-              broadcast('chat:tool-input-delta', {
-                index: streamEvent.index,
-                toolId,
-                delta: streamEvent.delta.partial_json
-              });
-              handleToolInputDelta(streamEvent.index, toolId, streamEvent.delta.partial_json);
-            }
-          }
-        } else if (streamEvent.type === 'content_block_start') {
-          if (streamEvent.content_block.type === 'thinking') {
-            broadcast('chat:thinking-start', { index: streamEvent.index });
-            handleThinkingStart(streamEvent.index);
-          } else if (streamEvent.content_block.type === 'tool_use') {
-            streamIndexToToolId.set(streamEvent.index, streamEvent.content_block.id);
-            const toolPayload = {
-              id: streamEvent.content_block.id,
-              name: streamEvent.content_block.name,
-              input: streamEvent.content_block.input || {},
-              streamIndex: streamEvent.index
-            };
-            if (sdkMessage.parent_tool_use_id) {
-              broadcast('chat:subagent-tool-use', {
-                parentToolUseId: sdkMessage.parent_tool_use_id,
-                tool: toolPayload
-              });
-              handleSubagentToolUseStart(sdkMessage.parent_tool_use_id, toolPayload);
-            } else {
-              broadcast('chat:tool-use-start', toolPayload);
-              handleToolUseStart(toolPayload);
-            }
-          } else if (
-            (streamEvent.content_block.type === 'web_search_tool_result' ||
-              streamEvent.content_block.type === 'web_fetch_tool_result' ||
-              streamEvent.content_block.type === 'code_execution_tool_result' ||
-              streamEvent.content_block.type === 'bash_code_execution_tool_result' ||
-              streamEvent.content_block.type === 'text_editor_code_execution_tool_result' ||
-              streamEvent.content_block.type === 'mcp_tool_result' ||
-              streamEvent.content_block.type === 'tool_result') &&
-            'tool_use_id' in streamEvent.content_block
-          ) {
-            const toolResultBlock = streamEvent.content_block as {
-              tool_use_id: string;
-              content?: string | unknown;
-              is_error?: boolean;
-            };
-
-            let contentStr = '';
-            if (typeof toolResultBlock.content === 'string') {
-              contentStr = toolResultBlock.content;
-            } else if (toolResultBlock.content !== null && toolResultBlock.content !== undefined) {
-              contentStr = JSON.stringify(toolResultBlock.content, null, 2);
-            }
+  private buildSystemPrompt(): Options['systemPrompt'] {
+    const append = [this.config.appendSystemPrompt, this.promptSettings.appendSystemPrompt.trim()]
+      .filter(Boolean)
+      .join('\n\n');
+    if (this.config.systemPrompt !== 'claude_code') {
+      return append ?
+          `${this.config.systemPrompt.custom}\n\n${append}`
+        : this.config.systemPrompt.custom;
+    }
+    return { type: 'preset', preset: 'claude_code', ...(append ? { append } : {}) };
+  }
 
-            toolResultIndexToId.set(streamEvent.index, toolResultBlock.tool_use_id);
-            if (contentStr) {
-              const parentToolUseId =
-                childToolToParent.get(toolResultBlock.tool_use_id) ?? sdkMessage.parent_tool_use_id;
-              if (parentToolUseId) {
-                if (!childToolToParent.has(toolResultBlock.tool_use_id)) {
-                  ensureSubagentToolPlaceholder(parentToolUseId, toolResultBlock.tool_use_id);
-                }
-                broadcast('chat:subagent-tool-result-start', {
-                  parentToolUseId,
-                  toolUseId: toolResultBlock.tool_use_id,
-                  content: contentStr,
-                  isError: toolResultBlock.is_error || false
-                });
-              } else {
-                broadcast('chat:tool-result-start', {
-                  toolUseId: toolResultBlock.tool_use_id,
-                  content: contentStr,
-                  isError: toolResultBlock.is_error || false
-                });
-              }
-              handleToolResultStart(
-                toolResultBlock.tool_use_id,
-                contentStr,
-                toolResultBlock.is_error || false
-              );
-            }
-          }
-        } else if (streamEvent.type === 'content_block_stop') {
-          const toolId = streamIndexToToolId.get(streamEvent.index);
-          if (sdkMessage.parent_tool_use_id) {
-            if (toolId) {
-              finalizeSubagentToolInput(sdkMessage.parent_tool_use_id, toolId);
-            }
-            const toolResultId = toolResultIndexToId.get(streamEvent.index);
-            if (toolResultId) {
-              toolResultIndexToId.delete(streamEvent.index);
-              if (finalizeSubagentToolResult(toolResultId)) {
-                const result = getSubagentToolResult(toolResultId) ?? '';
-                const parentToolUseId = childToolToParent.get(toolResultId);
-                if (parentToolUseId) {
-                  broadcast('chat:subagent-tool-result-complete', {
-                    parentToolUseId,
-                    toolUseId: toolResultId,
-                    content: result
-                  });
-                }
-              }
-            }
-          } else {
-            broadcast('chat:content-block-stop', {
-              index: streamEvent.index,
-              toolId: toolId || undefined
-            });
-            handleContentBlockStop(streamEvent.index, toolId || undefined);
-          }
-        }
-      } else if (sdkMessage.type === 'user') {
-        if (sdkMessage.parent_tool_use_id && sdkMessage.message?.content) {
-          for (const block of sdkMessage.message.content) {
-            if (
-              typeof block === 'object' &&
-              block !== null &&
-              'type' in block &&
-              block.type === 'tool_result' &&
-              'tool_use_id' in block
-            ) {
-              const toolResultBlock = block as {
-                tool_use_id: string;
-                content: string | unknown;
-              };
-              const contentStr =
-                typeof toolResultBlock.content === 'string' ?
-                  toolResultBlock.content
-                : JSON.stringify(toolResultBlock.content ?? '', null, 2);
-              const parentToolUseId =
-                childToolToParent.get(toolResultBlock.tool_use_id) ?? sdkMessage.parent_tool_use_id;
-              if (parentToolUseId) {
-                if (!childToolToParent.has(toolResultBlock.tool_use_id)) {
-                  ensureSubagentToolPlaceholder(parentToolUseId, toolResultBlock.tool_use_id);
-                }
-                broadcast('chat:subagent-tool-result-complete', {
-                  parentToolUseId,
-                  toolUseId: toolResultBlock.tool_use_id,
-                  content: contentStr
-                });
-              } else {
-                broadcast('chat:tool-result-complete', {
-                  toolUseId: toolResultBlock.tool_use_id,
-                  content: contentStr
-                });
-              }
-              handleToolResultComplete(toolResultBlock.tool_use_id, contentStr);
-            }
-          }
-        }
-      } else if (sdkMessage.type === 'assistant') {
-        const assistantMessage = sdkMessage.message;
-        if (sdkMessage.parent_tool_use_id && assistantMessage.content) {
-          for (const block of assistantMessage.content) {
-            if (
-              typeof block === 'object' &&
-              block !== null &&
-              'type' in block &&
-              block.type === 'tool_use' &&
-              'id' in block &&
-              'name' in block
-            ) {
-              const toolBlock = block as {
-                id: string;
-                name: string;
-                input?: Record<string, unknown>;
-              };
-              const payload = {
-                id: toolBlock.id,
-                name: toolBlock.name,
-                input: toolBlock.input || {}
-              };
-              broadcast('chat:subagent-tool-use', {
-                parentToolUseId: sdkMessage.parent_tool_use_id,
-                tool: payload
-              });
-              handleSubagentToolUseStart(sdkMessage.parent_tool_use_id, payload);
-            }
-          }
-        }
-        if (sdkMessage.parent_tool_use_id) {
-          const text = formatAssistantContent(assistantMessage.content);
-          if (text) {
-            const next = appendToolResultContent(sdkMessage.parent_tool_use_id, text);
-            broadcast('chat:tool-result-complete', {
-              toolUseId: sdkMessage.parent_tool_use_id,
-              content: next
-            });
+  getSummary(): SessionSummary {
+    const lastMessage = this.messages[this.messages.length - 1];
+    return {
+      id: this.id,
+      title: this.title || 'New session',
+      createdAt: this.createdAt,
+      updatedAt: lastMessage?.timestamp ?? this.createdAt,
+      sessionState: this.sessionState,
+      messageCount: this.messages.length
+    };
+  }
+
+  private emit(event: string, data: unknown): void {
+    broadcast(event, data, this.id);
+  }
+
+  private getSessionId(): string {
+    return this.sdkSessionId ?? this.id;
+  }
+
+  private rememberSdkSessionId(nextSdkSessionId: string | undefined): void {
+    if (!nextSdkSessionId || nextSdkSessionId === this.sdkSessionId) {
+      return;
+    }
+    this.sdkSessionId = nextSdkSessionId;
+    // A forked query reports the new session id; later queries resume it directly.
+    this.forkSession = false;
+    this.resumeSessionAt = null;
+    console.log(`[agent] sdk session id=${this.sdkSessionId}`);
+    this.persistSessionMetadata();
+  }
+
+  private persistSessionMetadata(): void {
+    try {
+      saveSessionMetadata(this.sessionMetadataPath, {
+        id: this.id,
+        title: this.title,
+        createdAt: this.createdAt,
+        ...(this.sdkSessionId ? { sdkSessionId: this.sdkSessionId } : {}),
+        ...(this.forkSession ? { forkSession: true } : {}),
+        ...(this.resumeSessionAt ? { resumeSessionAt: this.resumeSessionAt } : {}),
+        ...(this.gitBaseCommit ? { gitBaseCommit: this.gitBaseCommit } : {}),
+        ...(this.disabledMcpServers.size > 0 ?
+          { disabledMcpServers: Array.from(this.disabledMcpServers) }
+        : {})
+      });
+    } catch (error) {
+      console.error('[agent] failed to save session metadata', error);
+    }
+  }
+
+  private flushTranscript(): void {
+    if (this.transcriptSaveTimer) {
+      clearTimeout(this.transcriptSaveTimer);
+      this.transcriptSaveTimer = null;
+    }
+    if (!this.transcriptPath) {
+      return;
+    }
+    try {
+      saveTranscript(this.transcriptPath, this.messages);
+    } catch (error) {
+      console.error('[agent] failed to save transcript', error);
+    }
+  }
+
+  private scheduleTranscriptSave(): void {
+    if (this.transcriptSaveTimer) {
+      return;
+    }
+    this.transcriptSaveTimer = setTimeout(() => this.flushTranscript(), TRANSCRIPT_SAVE_DELAY_MS);
+  }
+
+  private setSessionState(nextState: SessionState): void {
+    if (this.sessionState === nextState) {
+      return;
+    }
+    this.sessionState = nextState;
+    this.emit('chat:status', { sessionState: nextState });
+    this.onChange?.(this);
+  }
+
+  private ensureAssistantMessage(): MessageWire {
+    const lastMessage = this.messages[this.messages.length - 1];
+    if (lastMessage && lastMessage.role === 'assistant' && this.isStreamingMessage) {
+      return lastMessage;
+    }
+    const assistant: MessageWire = {
+      id: String(this.messageSequence++),
+      role: 'assistant',
+      content: '',
+      timestamp: new Date().toISOString()
+    };
+    this.messages.push(assistant);
+    this.isStreamingMessage = true;
+    return assistant;
+  }
+
+  private appendTextChunk(chunk: string): void {
+    const message = this.ensureAssistantMessage();
+    if (typeof message.content === 'string') {
+      message.content += chunk;
+      return;
+    }
+    const contentArray = message.content;
+    const lastBlock = contentArray[contentArray.length - 1];
+    if (lastBlock?.type === 'text') {
+      lastBlock.text = `${lastBlock.text ?? ''}${chunk}`;
+    } else {
+      contentArray.push({ type: 'text', text: chunk });
+    }
+  }
+
+  private handleThinkingStart(index: number): void {
+    const message = this.ensureAssistantMessage();
+    const contentArray = ensureContentArray(message);
+    contentArray.push({
+      type: 'thinking',
+      thinking: '',
+      thinkingStreamIndex: index,
+      thinkingStartedAt: Date.now()
+    });
+  }
+
+  private handleThinkingChunk(index: number, delta: string): void {
+    const message = this.ensureAssistantMessage();
+    const contentArray = ensureContentArray(message);
+    const thinkingBlock = contentArray.find(
+      (block) =>
+        block.type === 'thinking' && block.thinkingStreamIndex === index && !block.isComplete
+    );
+    if (thinkingBlock && thinkingBlock.type === 'thinking') {
+      thinkingBlock.thinking = `${thinkingBlock.thinking ?? ''}${delta}`;
+    }
+  }
+
+  private handleToolUseStart(tool: {
+    id: string;
+    name: string;
+    input: Record<string, unknown>;
+    streamIndex: number;
+  }): void {
+    const message = this.ensureAssistantMessage();
+    const contentArray = ensureContentArray(message);
+    contentArray.push({
+      type: 'tool_use',
+      tool: {
+        ...tool,
+        inputJson: ''
+      }
+    });
+  }
+
+  private handleSubagentToolUseStart(
+    parentToolUseId: string,
+    tool: {
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+      streamIndex?: number;
+    }
+  ): void {
+    const parentTool = this.findToolBlockById(parentToolUseId);
+    if (!parentTool) {
+      return;
+    }
+    this.childToolToParent.set(tool.id, parentToolUseId);
+    if (!parentTool.tool.subagentCalls) {
+      parentTool.tool.subagentCalls = [];
+    }
+    const existing = parentTool.tool.subagentCalls.find((call) => call.id === tool.id);
+    if (existing) {
+      existing.name = tool.name;
+      existing.input = tool.input;
+      existing.streamIndex = tool.streamIndex;
+      return;
+    }
+    parentTool.tool.subagentCalls.push({
+      id: tool.id,
+      name: tool.name,
+      input: tool.input,
+      streamIndex: tool.streamIndex,
+      inputJson: JSON.stringify(tool.input, null, 2),
+      isLoading: true
+    });
+  }
+
+  private ensureSubagentToolPlaceholder(parentToolUseId: string, toolUseId: string): void {
+    const parentTool = this.findToolBlockById(parentToolUseId);
+    if (!parentTool) {
+      return;
+    }
+    if (!parentTool.tool.subagentCalls) {
+      parentTool.tool.subagentCalls = [];
+    }
+    const existing = parentTool.tool.subagentCalls.find((call) => call.id === toolUseId);
+    if (existing) {
+      return;
+    }
+    this.childToolToParent.set(toolUseId, parentToolUseId);
+    parentTool.tool.subagentCalls.push({
+      id: toolUseId,
+      name: 'Tool',
+      input: {},
+      inputJson: '{}',
+      isLoading: true
+    });
+  }
+
+  private handleToolInputDelta(index: number, toolId: string, delta: string): void {
+    const message = this.ensureAssistantMessage();
+    const contentArray = ensureContentArray(message);
+    const toolBlock = contentArray.find(
+      (block) => block.type === 'tool_use' && block.tool?.id === toolId
+    );
+    if (!toolBlock || toolBlock.type !== 'tool_use' || !toolBlock.tool) {
+      return;
+    }
+    const newInputJson = `${toolBlock.tool.inputJson ?? ''}${delta}`;
+    toolBlock.tool.inputJson = newInputJson;
+    const parsedInput = parsePartialJson<ToolInput>(newInputJson);
+    if (parsedInput) {
+      toolBlock.tool.parsedInput = parsedInput;
+    }
+  }
+
+  private handleSubagentToolInputDelta(
+    parentToolUseId: string,
+    toolId: string,
+    delta: string
+  ): void {
+    const parentTool = this.findToolBlockById(parentToolUseId);
+    if (!parentTool?.tool.subagentCalls) {
+      return;
+    }
+    const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolId);
+    if (!subCall) {
+      return;
+    }
+    const newInputJson = `${subCall.inputJson ?? ''}${delta}`;
+    subCall.inputJson = newInputJson;
+    const parsedInput = parsePartialJson<ToolInput>(newInputJson);
+    if (parsedInput) {
+      subCall.parsedInput = parsedInput;
+    }
+  }
+
+  private finalizeSubagentToolInput(parentToolUseId: string, toolId: string): void {
+    const parentTool = this.findToolBlockById(parentToolUseId);
+    if (!parentTool?.tool.subagentCalls) {
+      return;
+    }
+    const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolId);
+    if (!subCall?.inputJson) {
+      return;
+    }
+    try {
+      subCall.parsedInput = JSON.parse(subCall.inputJson) as ToolInput;
+    } catch {
+      const parsed = parsePartialJson<ToolInput>(subCall.inputJson);
+      if (parsed) {
+        subCall.parsedInput = parsed;
+      }
+    }
+  }
+
+  private handleContentBlockStop(index: number, toolId?: string): void {
+    const message = this.ensureAssistantMessage();
+    const contentArray = ensureContentArray(message);
+    const thinkingBlock = contentArray.find(
+      (block) =>
+        block.type === 'thinking' && block.thinkingStreamIndex === index && !block.isComplete
+    );
+    if (thinkingBlock && thinkingBlock.type === 'thinking') {
+      thinkingBlock.isComplete = true;
+      thinkingBlock.thinkingDurationMs =
+        thinkingBlock.thinkingStartedAt ? Date.now() - thinkingBlock.thinkingStartedAt : undefined;
+      return;
+    }
+
+    const toolBlock =
+      toolId ?
+        contentArray.find((block) => block.type === 'tool_use' && block.tool?.id === toolId)
+      : contentArray.find(
+          (block) => block.type === 'tool_use' && block.tool?.streamIndex === index
+        );
+
+    if (toolBlock && toolBlock.type === 'tool_use' && toolBlock.tool?.inputJson) {
+      try {
+        toolBlock.tool.parsedInput = JSON.parse(toolBlock.tool.inputJson) as ToolInput;
+      } catch {
+        const parsed = parsePartialJson<ToolInput>(toolBlock.tool.inputJson);
+        if (parsed) {
+          toolBlock.tool.parsedInput = parsed;
+        }
+      }
+    }
+  }
+
+  private handleToolResultStart(toolUseId: string, content: string, isError: boolean): void {
+    if (this.handleSubagentToolResultStart(toolUseId, content, isError)) {
+      return;
+    }
+    this.setToolResult(toolUseId, content, isError);
+  }
+
+  private handleToolResultComplete(toolUseId: string, content: string, isError?: boolean): void {
+    if (this.handleSubagentToolResultComplete(toolUseId, content, isError)) {
+      return;
+    }
+    this.setToolResult(toolUseId, content, isError);
+  }
+
+  private handleMessageComplete(): void {
+    this.isStreamingMessage = false;
+    this.setSessionState('idle');
+    this.flushTranscript();
+  }
+
+  private handleMessageStopped(): void {
+    this.isStreamingMessage = false;
+    this.setSessionState('idle');
+    const lastMessage = this.messages[this.messages.length - 1];
+    if (
+      !lastMessage ||
+      lastMessage.role !== 'assistant' ||
+      typeof lastMessage.content === 'string'
+    ) {
+      return;
+    }
+    lastMessage.content = lastMessage.content.map((block) => {
+      if (block.type === 'thinking' && !block.isComplete) {
+        return {
+          ...block,
+          isComplete: true,
+          thinkingDurationMs:
+            block.thinkingStartedAt ? Date.now() - block.thinkingStartedAt : undefined
+        };
+      }
+      return block;
+    });
+    this.flushTranscript();
+  }
+
+  private handleMessageError(error: string): void {
+    this.isStreamingMessage = false;
+    this.setSessionState('idle');
+    this.messages.push({
+      id: String(this.messageSequence++),
+      role: 'assistant',
+      content: `Error: ${error}`,
+      timestamp: new Date().toISOString()
+    });
+    this.flushTranscript();
+  }
+
+  private findToolBlockById(toolUseId: string): { tool: ToolUseState } | null {
+    for (let i = this.messages.length - 1; i >= 0; i -= 1) {
+      const message = this.messages[i];
+      if (message.role !== 'assistant') {
+        continue;
+      }
+      if (typeof message.content === 'string') {
+        continue;
+      }
+      const toolBlock = message.content.find(
+        (block) => block.type === 'tool_use' && block.tool?.id === toolUseId
+      );
+      if (toolBlock && toolBlock.type === 'tool_use' && toolBlock.tool) {
+        return { tool: toolBlock.tool };
+      }
+    }
+    return null;
+  }
+
+  private appendToolResultDelta(toolUseId: string, delta: string): void {
+    if (this.appendSubagentToolResultDelta(toolUseId, delta)) {
+      return;
+    }
+    const toolBlock = this.findToolBlockById(toolUseId);
+    if (!toolBlock) {
+      return;
+    }
+    toolBlock.tool.result = `${toolBlock.tool.result ?? ''}${delta}`;
+  }
+
+  private handleSubagentToolResultStart(
+    toolUseId: string,
+    content: string,
+    isError: boolean
+  ): boolean {
+    const parentToolUseId = this.childToolToParent.get(toolUseId);
+    if (!parentToolUseId) {
+      return false;
+    }
+    const parentTool = this.findToolBlockById(parentToolUseId);
+    if (!parentTool?.tool.subagentCalls) {
+      return false;
+    }
+    const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolUseId);
+    if (!subCall) {
+      return false;
+    }
+    subCall.result = content;
+    subCall.isError = isError;
+    subCall.isLoading = true;
+    return true;
+  }
+
+  private handleSubagentToolResultComplete(
+    toolUseId: string,
+    content: string,
+    isError?: boolean
+  ): boolean {
+    const parentToolUseId = this.childToolToParent.get(toolUseId);
+    if (!parentToolUseId) {
+      return false;
+    }
+    const parentTool = this.findToolBlockById(parentToolUseId);
+    if (!parentTool?.tool.subagentCalls) {
+      return false;
+    }
+    const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolUseId);
+    if (!subCall) {
+      return false;
+    }
+    subCall.result = content;
+    if (typeof isError === 'boolean') {
+      subCall.isError = isError;
+    }
+    subCall.isLoading = false;
+    return true;
+  }
+
+  private appendSubagentToolResultDelta(toolUseId: string, delta: string): boolean {
+    const parentToolUseId = this.childToolToParent.get(toolUseId);
+    if (!parentToolUseId) {
+      return false;
+    }
+    const parentTool = this.findToolBlockById(parentToolUseId);
+    if (!parentTool?.tool.subagentCalls) {
+      return false;
+    }
+    const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolUseId);
+    if (!subCall) {
+      return false;
+    }
+    subCall.result = `${subCall.result ?? ''}${delta}`;
+    subCall.isLoading = true;
+    return true;
+  }
+
+  private finalizeSubagentToolResult(toolUseId: string): boolean {
+    const parentToolUseId = this.childToolToParent.get(toolUseId);
+    if (!parentToolUseId) {
+      return false;
+    }
+    const parentTool = this.findToolBlockById(parentToolUseId);
+    if (!parentTool?.tool.subagentCalls) {
+      return false;
+    }
+    const subCall = parentTool.tool.subagentCalls.find((call) => call.id === toolUseId);
+    if (!subCall) {
+      return false;
+    }
+    subCall.isLoading = false;
+    return true;
+  }
+
+  private getSubagentToolResult(toolUseId: string): string | undefined {
+    const parentToolUseId = this.childToolToParent.get(toolUseId);
+    if (!parentToolUseId) {
+      return undefined;
+    }
+    const parentTool = this.findToolBlockById(parentToolUseId);
+    if (!parentTool?.tool.subagentCalls) {
+      return undefined;
+    }
+    return parentTool.tool.subagentCalls.find((call) => call.id === toolUseId)?.result;
+  }
+
+  private setToolResult(toolUseId: string, content: string, isError?: boolean): void {
+    const toolBlock = this.findToolBlockById(toolUseId);
+    if (!toolBlock) {
+      return;
+    }
+    toolBlock.tool.result = content;
+    if (typeof isError === 'boolean') {
+      toolBlock.tool.isError = isError;
+    }
+  }
+
+  private getToolResult(toolUseId: string): string | undefined {
+    const toolBlock = this.findToolBlockById(toolUseId);
+    return toolBlock?.tool.result;
+  }
+
+  private appendToolResultContent(toolUseId: string, content: string, isError?: boolean): string {
+    const existing = this.getToolResult(toolUseId);
+    const next = existing ? `${existing}\n${content}` : content;
+    this.setToolResult(toolUseId, next, isError);
+    return next;
+  }
+
+  private createLogStream(dir: string): void {
+    if (this.logStream) {
+      this.logStream.end();
+      this.logStream = null;
+    }
+    const logsDir = `${dir}/logs`;
+    mkdirSync(logsDir, { recursive: true });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    this.logFilePath = `${logsDir}/agent-${timestamp}-${this.id.slice(0, 8)}.log`;
+    this.logStream = createWriteStream(this.logFilePath, { flags: 'a' });
+  }
+
+  // Includes the files written by earlier server runs, which each started a new one.
+  private deleteLogFiles(): void {
+    const logsDir = `${this.agentDir}/logs`;
+    const suffix = `-${this.id.slice(0, 8)}.log`;
+    try {
+      for (const name of existsSync(logsDir) ? readdirSync(logsDir) : []) {
+        if (name.startsWith('agent-') && name.endsWith(suffix)) {
+          rmSync(`${logsDir}/${name}`, { force: true });
+        }
+      }
+    } catch (error) {
+      console.error('[agent] failed to delete log files', error);
+    }
+  }
+
+  private appendLogLine(line: string): void {
+    if (!this.logStream) {
+      this.createLogStream(this.agentDir);
+    }
+    this.logLines.push(line);
+    if (this.logLines.length > 2000) {
+      this.logLines.shift();
+    }
+    this.logStream?.write(`${line}\n`);
+    this.emit('chat:log', line);
+  }
+
+  getAgentState(): AgentState {
+    return {
+      agentDir: this.agentDir,
+      sessionId: this.id,
+      sessionState: this.sessionState,
+      hasInitialPrompt: this.hasInitialPrompt
+    };
+  }
+
+  getSystemInitInfo(): SystemInitInfo | null {
+    return this.systemInitInfo;
+  }
+
+  getLogLines(): string[] {
+    return this.logLines;
+  }
+
+  getMessages(): MessageWire[] {
+    return this.messages;
+  }
+
+  getTranscriptPath(): string {
+    return this.transcriptPath;
+  }
+
+  getSdkSessionId(): string | null {
+    return this.sdkSessionId;
+  }
+
+  getUsage(): SessionUsage {
+    return summarizeUsage(this.usageTurns);
+  }
+
+  private recordSubagentUsage(messageId: string | undefined, usage: unknown): void {
+    if (messageId) {
+      this.subagentUsageByMessage.set(messageId, toTokenUsage(usage));
+    }
+  }
+
+  private recordTurnUsage(result: SDKResultMessage): void {
+    const subagentUsage = Array.from(this.subagentUsageByMessage.values()).reduce(
+      addTokenUsage,
+      EMPTY_TOKEN_USAGE
+    );
+    this.subagentUsageByMessage.clear();
+    const costUsd = Math.max(0, result.total_cost_usd - this.reportedQueryCostUsd);
+    this.reportedQueryCostUsd = result.total_cost_usd;
+    const turn: TurnUsage = {
+      completedAt: new Date().toISOString(),
+      durationMs: result.duration_ms,
+      numTurns: result.num_turns,
+      costUsd,
+      isError: result.is_error,
+      usage: addTokenUsage(toTokenUsage(result.usage), subagentUsage),
+      subagentUsage
+    };
+    this.usageTurns.push(turn);
+    try {
+      saveUsage(this.usagePath, this.usageTurns);
+    } catch (error) {
+      console.error('[agent] failed to save usage', error);
+    }
+    console.log(
+      `[agent] session=${this.id} turn cost=$${costUsd.toFixed(4)} output=${turn.usage.outputTokens}`
+    );
+    this.emit('chat:usage', this.getUsage());
+  }
+
+  getPendingPermissionRequests(): PermissionRequest[] {
+    return Array.from(this.pendingPermissions.values()).map((pending) => pending.request);
+  }
+
+  respondToPermission(payload: PermissionResponsePayload): boolean {
+    const pending = this.pendingPermissions.get(payload.requestId);
+    if (!pending) {
+      return false;
+    }
+    const { request } = pending;
+    if (payload.decision === 'deny') {
+      this.resolvePermission(request.id, 'deny', {
+        behavior: 'deny',
+        message: payload.message?.trim() || 'The user denied this tool call.'
+      });
+      return true;
+    }
+    if (payload.decision === 'allow-always') {
+      const pattern = payload.pattern?.trim() || undefined;
+      this.alwaysAllowRules.push({ toolName: request.toolName, pattern });
+      console.log(
+        `[agent] session=${this.id} always allow tool=${request.toolName} pattern=${pattern ?? '*'}`
+      );
+    }
+    this.resolvePermission(request.id, payload.decision, {
+      behavior: 'allow',
+      updatedInput: request.input
+    });
+    return true;
+  }
+
+  private resolvePermission(
+    requestId: string,
+    decision: PermissionResolvedPayload['decision'],
+    result: PermissionResult
+  ): void {
+    const pending = this.pendingPermissions.get(requestId);
+    if (!pending) {
+      return;
+    }
+    this.pendingPermissions.delete(requestId);
+    pending.resolve(result);
+    const payload: PermissionResolvedPayload = { id: requestId, decision };
+    this.emit('chat:permission-resolved', payload);
+  }
+
+  private cancelPendingPermissions(): void {
+    for (const requestId of Array.from(this.pendingPermissions.keys())) {
+      this.resolvePermission(requestId, 'cancelled', {
+        behavior: 'deny',
+        message: 'The permission request was cancelled.'
+      });
+    }
+  }
+
+  private evaluatePolicy(
+    toolName: string,
+    input: Record<string, unknown>
+  ): ToolPolicyDecision | null {
+    const protectedFile = findProtectedFileEdit(
+      this.agentDir,
+      toolName,
+      input,
+      PROTECTED_CONFIG_FILES
+    );
+    if (protectedFile) {
+      return {
+        behavior: 'deny',
+        message: `${protectedFile} sets what the agent may do, so the agent cannot change it. Edit it yourself and restart the server.`
+      };
+    }
+    return evaluateToolPolicy(this.toolPolicy, this.agentDir, toolName, input);
+  }
+
+  private canUseTool: CanUseTool = (toolName, input, options) => {
+    const policyDecision = this.evaluatePolicy(toolName, input);
+    if (policyDecision?.behavior === 'deny') {
+      console.log(`[agent] session=${this.id} policy denied tool=${toolName}`);
+      // The message becomes the tool's error result in the transcript.
+      return Promise.resolve({ behavior: 'deny', message: policyDecision.message });
+    }
+    if (policyDecision?.behavior === 'allow') {
+      return Promise.resolve({ behavior: 'allow', updatedInput: input });
+    }
+    if (this.alwaysAllowRules.some((rule) => ruleMatches(rule, toolName, input))) {
+      return Promise.resolve({ behavior: 'allow', updatedInput: input });
+    }
+    if (this.denyPermissionPrompts) {
+      console.log(`[agent] session=${this.id} denied tool=${toolName} without a prompt`);
+      return Promise.resolve({
+        behavior: 'deny',
+        message: `${toolName} needs approval, but nobody can answer prompts in this unattended run. Allow it in ${POLICY_FILE_NAME}.`
+      });
+    }
+
+    const subject = getPermissionSubject(toolName, input);
+    const request: PermissionRequest = {
+      id: randomUUID(),
+      toolName,
+      toolUseId: options.toolUseID,
+      input,
+      subject,
+      suggestedPattern: suggestPermissionPattern(toolName, subject),
+      decisionReason: options.decisionReason,
+      blockedPath: options.blockedPath,
+      agentId: options.agentID,
+      createdAt: new Date().toISOString()
+    };
+
+    return new Promise<PermissionResult>((resolve) => {
+      this.pendingPermissions.set(request.id, { request, resolve });
+      options.signal.addEventListener('abort', () => {
+        this.resolvePermission(request.id, 'cancelled', {
+          behavior: 'deny',
+          message: 'The permission request was cancelled.'
+        });
+      });
+      console.log(
+        `[agent] session=${this.id} permission request tool=${toolName} id=${request.id}`
+      );
+      this.emit('chat:permission-request', request);
+      this.onPermissionRequest?.(this, request);
+    });
+  };
+
+  /**
+   * Queues a message for the agent and returns its queue item id, or null when there is nothing
+   * to send.
+   */
+  enqueueUserMessage(text: string, attachments: SavedAttachmentInfo[] = []): string | null {
+    const trimmed = text.trim();
+    if (!trimmed && attachments.length === 0) {
+      return null;
+    }
+    if (!this.hasInitialPrompt) {
+      this.hasInitialPrompt = true;
+    }
+    if (!this.title) {
+      this.title = trimTitle(
+        trimmed || attachments.map((attachment) => attachment.name).join(', ')
+      );
+      this.persistSessionMetadata();
+      this.onChange?.(this);
+    }
+    console.log(
+      `[agent] session=${this.id} enqueue user message len=${trimmed.length} attachments=${attachments.length}`
+    );
+    const item: QueuedMessage = {
+      id: randomUUID(),
+      text: trimmed,
+      attachments,
+      createdAt: new Date().toISOString()
+    };
+    this.messageQueue.push(item);
+    this.emitQueue();
+
+    if (!this.isSessionActive()) {
+      console.log('[agent] starting session (idle -> running)');
+      this.setSessionState('running');
+      this.startStreamingSession().catch((error) => {
+        console.error('[agent] failed to start session', error);
+      });
+    }
+    return item.id;
+  }
+
+  // The queued message the current turn is answering, once the agent has taken it.
+  getActiveQueueItemId(): string | null {
+    return this.activeQueueItemId;
+  }
+
+  getQueuedMessages(): QueuedMessage[] {
+    return this.messageQueue.toArray();
+  }
+
+  cancelQueuedMessage(itemId: string): boolean {
+    const removed = this.messageQueue.remove((item) => item.id === itemId);
+    if (removed) {
+      this.emitQueue();
+    }
+    return Boolean(removed);
+  }
+
+  /**
+   * Edits the text of a queued message and/or moves it to a new position.
+   */
+  updateQueuedMessage(itemId: string, update: UpdateQueuedMessagePayload): boolean {
+    const item = this.messageQueue.toArray().find((queued) => queued.id === itemId);
+    if (!item) {
+      return false;
+    }
+    const text = update.text?.trim();
+    if (text) {
+      item.text = text;
+    }
+    if (update.position !== undefined) {
+      this.messageQueue.move((queued) => queued.id === itemId, update.position);
+    }
+    this.emitQueue();
+    return true;
+  }
+
+  private emitQueue(): void {
+    const payload: MessageQueuePayload = { items: this.getQueuedMessages() };
+    this.emit('chat:queue', payload);
+  }
+
+  private finishTurn(): void {
+    if (this.restartPending) {
+      // Abort before releasing the generator so it does not pick up the next queued message.
+      this.restartQuery();
+    }
+    this.resolveTurn?.();
+    this.resolveTurn = null;
+    this.activeQueueItemId = null;
+  }
+
+  /**
+   * Adds a dequeued message to the transcript and builds the content sent to the SDK.
+   */
+  private async startUserTurn(item: QueuedMessage): Promise<SDKUserMessage['message']> {
+    const userMessage: MessageWire = {
+      id: String(this.messageSequence++),
+      role: 'user',
+      content: item.text,
+      timestamp: new Date().toISOString(),
+      ...(item.attachments.length > 0 ?
+        { attachments: item.attachments.map((attachment) => toMessageAttachment(attachment)) }
+      : {})
+    };
+    this.messages.push(userMessage);
+    this.turnCheckpoint = {
+      id: randomUUID(),
+      sessionId: this.id,
+      messageId: userMessage.id,
+      preview: trimTitle(item.text || item.attachments.map((a) => a.name).join(', ')),
+      createdAt: userMessage.timestamp
+    };
+    this.flushTranscript();
+    this.setSessionState('running');
+    this.emit('chat:message-replay', { message: userMessage });
+    this.onChange?.(this);
+    return { role: 'user', content: await buildUserContent(item.text, item.attachments) };
+  }
+
+  /**
+   * Drops queued messages and ends the running query, resolving once it has shut down.
+   */
+  async stop(): Promise<void> {
+    // Drop queued messages first so the ending query does not pick them up again.
+    this.messageQueue.clear();
+    this.emitQueue();
+    this.cancelPendingPermissions();
+    this.sessionAbortController?.abort();
+    if (this.sessionTerminationPromise) {
+      await this.sessionTerminationPromise;
+    }
+  }
+
+  /**
+   * Tears down the running query and clears the conversation, logs, usage and SDK session so the
+   * next message starts from scratch. Clients are sent `chat:init` and return to the start page.
+   */
+  async reset(): Promise<void> {
+    console.log(`[agent] reset session=${this.id}`);
+    await this.stop();
+    this.messages.length = 0;
+    this.messageSequence = 0;
+    this.streamIndexToToolId.clear();
+    this.toolResultIndexToId.clear();
+    this.childToolToParent.clear();
+    this.isStreamingMessage = false;
+    this.logLines.length = 0;
+    this.logStream?.end();
+    this.logStream = null;
+    this.logFilePath = '';
+    this.deleteLogFiles();
+    this.systemInitInfo = null;
+    this.sdkSessionId = null;
+    this.forkSession = false;
+    this.resumeSessionAt = null;
+    this.alwaysAllowRules.length = 0;
+    this.usageTurns.length = 0;
+    this.subagentUsageByMessage.clear();
+    this.title = '';
+    this.createdAt = new Date().toISOString();
+    this.hasInitialPrompt = false;
+    this.gitBaseCommit = null;
+    this.recordGitBaseCommit();
+    // Message ids start again from 0, so the old checkpoints would attach to the new messages.
+    this.turnCheckpoint = null;
+    try {
+      if (deleteSessionCheckpoints(this.agentDir, this.id) > 0) {
+        this.onCheckpoint?.();
+      }
+    } catch (error) {
+      console.error('[agent] failed to delete checkpoints', error);
+    }
+
+    this.flushTranscript();
+    this.persistSessionMetadata();
+    try {
+      saveUsage(this.usagePath, this.usageTurns);
+    } catch (error) {
+      console.error('[agent] failed to save usage', error);
+    }
+    this.setSessionState('idle');
+    this.emit('chat:init', this.getAgentState());
+    this.onChange?.(this);
+  }
+
+  /**
+   * Replaces the user message `messageId` with `text`: the message and everything after it are
+   * dropped, the SDK session is forked at the reply before it, and the edited text is sent again
+   * ahead of any queued messages. Returns an error message when the rewind is not possible.
+   */
+  async rewindToMessage(messageId: string, text: string): Promise<string | null> {
+    const index = this.messages.findIndex((message) => message.id === messageId);
+    if (index === -1 || this.messages[index].role !== 'user') {
+      return 'User message not found.';
+    }
+    const previousReply = this.messages.slice(0, index).findLast((m) => m.role === 'assistant');
+    if (previousReply && !previousReply.sdkUuid && this.sdkSessionId) {
+      return 'This reply was recorded without an SDK checkpoint, so the session cannot rewind to it.';
+    }
+    const original = this.messages[index];
+    const attachments = (original.attachments ?? []).flatMap((attachment) =>
+      attachment.savedPath && attachment.relativePath ?
+        [
+          {
+            name: attachment.name,
+            mimeType: attachment.mimeType,
+            size: attachment.size,
+            savedPath: attachment.savedPath,
+            relativePath: attachment.relativePath
           }
+        ]
+      : []
+    );
+    if (!text.trim() && attachments.length === 0) {
+      return 'Message text is required.';
+    }
+    console.log(`[agent] rewind session=${this.id} message=${messageId}`);
+
+    // Hold queued messages back so the ending query does not start a new one before the rewind.
+    const queued = this.messageQueue.clear();
+    this.cancelPendingPermissions();
+    this.sessionAbortController?.abort();
+    if (this.sessionTerminationPromise) {
+      await this.sessionTerminationPromise;
+    }
+    const removed = this.messages.splice(index);
+    this.isStreamingMessage = false;
+    if (previousReply?.sdkUuid && this.sdkSessionId) {
+      this.forkSession = true;
+      this.resumeSessionAt = previousReply.sdkUuid;
+    } else {
+      this.sdkSessionId = null;
+      this.forkSession = false;
+      this.resumeSessionAt = null;
+    }
+    this.flushTranscript();
+    this.persistSessionMetadata();
+    this.emit('chat:truncate', { messageIds: removed.map((message) => message.id) });
+    this.onChange?.(this);
+
+    this.enqueueUserMessage(text, attachments);
+    queued.forEach((item) => this.messageQueue.push(item));
+    this.emitQueue();
+    return null;
+  }
+
+  isSessionActive(): boolean {
+    return this.isProcessing || this.querySession !== null;
+  }
+
+  async interruptCurrentResponse(): Promise<boolean> {
+    if (!this.querySession) {
+      return false;
+    }
+
+    if (this.isInterruptingResponse) {
+      return true;
+    }
+
+    this.isInterruptingResponse = true;
+    try {
+      this.cancelPendingPermissions();
+      await this.querySession.interrupt();
+      this.emit('chat:message-stopped', null);
+      this.handleMessageStopped();
+      return true;
+    } finally {
+      this.isInterruptingResponse = false;
+    }
+  }
+
+  private async startStreamingSession(): Promise<void> {
+    if (this.sessionTerminationPromise) {
+      await this.sessionTerminationPromise;
+    }
+
+    if (this.isProcessing || this.querySession) {
+      return;
+    }
+
+    const env = buildClaudeSessionEnv();
+    const resumeSessionId = this.sdkSessionId;
+    let hasReceivedSystemInit = false;
+    console.log(
+      `[agent] start session=${this.id} cwd=${this.agentDir} model=${this.model ?? 'default'} resume=${resumeSessionId ?? 'none'}${this.forkSession ? ` fork=${this.resumeSessionAt ?? 'latest'}` : ''}`
+    );
+    const abortController = new AbortController();
+    this.sessionAbortController = abortController;
+    this.reportedQueryCostUsd = 0;
+    this.subagentUsageByMessage.clear();
+    this.restartPending = false;
+    this.isProcessing = true;
+    this.streamIndexToToolId.clear();
+    this.setSessionState('running');
+
+    let resolveTermination: () => void;
+    this.sessionTerminationPromise = new Promise((resolve) => {
+      resolveTermination = resolve;
+    });
+
+    try {
+      this.querySession = query({
+        prompt: this.messageGenerator(abortController.signal),
+        options: {
+          abortController,
+          maxThinkingTokens: this.config.maxThinkingTokens,
+          settingSources: this.config.settingSources,
+          permissionMode: 'default',
+          canUseTool: this.canUseTool,
+          pathToClaudeCodeExecutable: resolveClaudeCodeCli(),
+          executable: this.config.executable,
+          env,
+          stderr: (message: string) => {
+            if (process.env.DEBUG === '1') {
+              this.emit('chat:debug-message', message);
+            }
+          },
+          systemPrompt: this.buildSystemPrompt(),
+          // `.mcp.json` is managed here, so the CLI must not load it (or disabled servers) itself.
+          mcpServers: this.getEnabledMcpServers(),
+          strictMcpConfig: true,
+          hooks: this.buildHooks(),
+          ...(this.promptSettings.outputStyle ?
+            {
+              extraArgs: {
+                settings: JSON.stringify({ outputStyle: this.promptSettings.outputStyle })
+              }
+            }
+          : {}),
+          ...(this.config.maxTurns ? { maxTurns: this.config.maxTurns } : {}),
+          ...(this.config.allowedTools ? { allowedTools: this.config.allowedTools } : {}),
+          ...(this.config.disallowedTools ? { disallowedTools: this.config.disallowedTools } : {}),
+          cwd: this.agentDir,
+          ...(this.model ? { model: this.model } : {}),
+          ...(resumeSessionId ? { resume: resumeSessionId } : {}),
+          ...(resumeSessionId && this.forkSession ? { forkSession: true } : {}),
+          ...(resumeSessionId && this.resumeSessionAt ?
+            { resumeSessionAt: this.resumeSessionAt }
+          : {}),
+          includePartialMessages: true
+        }
+      });
+
+      console.log('[agent] session started');
+      for await (const sdkMessage of this.querySession) {
+        try {
+          const line = `${new Date().toISOString()} ${JSON.stringify(sdkMessage)}`;
+          console.log('[agent][sdk]', JSON.stringify(sdkMessage));
+          this.appendLogLine(line);
+        } catch (error) {
+          console.log('[agent][sdk] (unserializable)', error);
+        }
+        const nextSystemInit = parseSystemInitInfo(sdkMessage);
+        if (nextSystemInit) {
+          this.systemInitInfo = nextSystemInit;
+          hasReceivedSystemInit = true;
+          this.rememberSdkSessionId(nextSystemInit.session_id);
+          this.emit('chat:system-init', { info: this.systemInitInfo });
+          this.refreshMcpStatus().catch((error) => {
+            console.error('[agent] failed to read MCP status', error);
+          });
+        }
+        const agentError = extractAgentError(sdkMessage);
+        if (agentError) {
+          this.emit('chat:agent-error', { message: agentError });
         }
-        if (assistantMessage.content) {
-          for (const block of assistantMessage.content) {
-            if (
-              typeof block === 'object' &&
-              block !== null &&
-              'tool_use_id' in block &&
-              'content' in block
+        if (abortController.signal.aborted) {
+          break;
+        }
+
+        if (sdkMessage.type === 'stream_event') {
+          const streamEvent = sdkMessage.event;
+          if (streamEvent.type === 'content_block_delta') {
+            if (streamEvent.delta.type === 'text_delta') {
+              if (sdkMessage.parent_tool_use_id) {
+                const parentToolUseId =
+                  this.childToolToParent.get(sdkMessage.parent_tool_use_id) ?? null;
+                if (parentToolUseId) {
+                  this.emit('chat:subagent-tool-result-delta', {
+                    parentToolUseId,
+                    toolUseId: sdkMessage.parent_tool_use_id,
+                    delta: streamEvent.delta.text
+                  });
+                } else {
+                  this.emit('chat:tool-result-delta', {
+                    toolUseId: sdkMessage.parent_tool_use_id,
+                    delta: streamEvent.delta.text
+                  });
+                }
+                this.appendToolResultDelta(sdkMessage.parent_tool_use_id, streamEvent.delta.text);
+              } else {
+                this.emit('chat:message-chunk', streamEvent.delta.text);
+                this.appendTextChunk(streamEvent.delta.text);
+              }
+            } else if (streamEvent.delta.type === 'thinking_delta') {
+              this.emit('chat:thinking-chunk', {
+                index: streamEvent.index,
+                delta: streamEvent.delta.thinking
+              });
+              this.handleThinkingChunk(streamEvent.index, streamEvent.delta.thinking);
+            } else if (streamEvent.delta.type === 'input_json_delta') {
+              const toolId = this.streamIndexToToolId.get(streamEvent.index) ?? '';
+              if (sdkMessage.parent_tool_use_id) {
+                this.emit('chat:subagent-tool-input-delta', {
+                  parentToolUseId: sdkMessage.parent_tool_use_id,
+                  toolId,
+                  delta: streamEvent.delta.partial_json
+                });
+                this.handleSubagentToolInputDelta(
+                  sdkMessage.parent_tool_use_id,
+                  toolId,
+                  streamEvent.delta.partial_json
+                );
+              } else {
+                this.emit('chat:tool-input-delta', {
+                  index: streamEvent.index,
+                  toolId,
+                  delta: streamEvent.delta.partial_json
+                });
+                this.handleToolInputDelta(
+                  streamEvent.index,
+                  toolId,
+                  streamEvent.delta.partial_json
+                );
+              }
+            }
+          } else if (streamEvent.type === 'content_block_start') {
+            if (streamEvent.content_block.type === 'thinking') {
+              this.emit('chat:thinking-start', { index: streamEvent.index });
+              this.handleThinkingStart(streamEvent.index);
+            } else if (streamEvent.content_block.type === 'tool_use') {
+              this.streamIndexToToolId.set(streamEvent.index, streamEvent.content_block.id);
+              const toolPayload = {
+                id: streamEvent.content_block.id,
+                name: streamEvent.content_block.name,
+                input: streamEvent.content_block.input || {},
+                streamIndex: streamEvent.index
+              };
+              if (sdkMessage.parent_tool_use_id) {
+                this.emit('chat:subagent-tool-use', {
+                  parentToolUseId: sdkMessage.parent_tool_use_id,
+                  tool: toolPayload
+                });
+                this.handleSubagentToolUseStart(sdkMessage.parent_tool_use_id, toolPayload);
+              } else {
+                this.emit('chat:tool-use-start', toolPayload);
+                this.handleToolUseStart(toolPayload);
+              }
+            } else if (
+              (streamEvent.content_block.type === 'web_search_tool_result' ||
+                streamEvent.content_block.type === 'web_fetch_tool_result' ||
+                streamEvent.content_block.type === 'code_execution_tool_result' ||
+                streamEvent.content_block.type === 'bash_code_execution_tool_result' ||
+                streamEvent.content_block.type === 'text_editor_code_execution_tool_result' ||
+                streamEvent.content_block.type === 'mcp_tool_result' ||
+                streamEvent.content_block.type === 'tool_result') &&
+              'tool_use_id' in streamEvent.content_block
             ) {
-              const toolResultBlock = block as {
+              const toolResultBlock = streamEvent.content_block as {
                 tool_use_id: string;
-                content: string | unknown[] | unknown;
+                content?: string | unknown;
                 is_error?: boolean;
               };
 
-              let contentStr: string;
+              let contentStr = '';
               if (typeof toolResultBlock.content === 'string') {
                 contentStr = toolResultBlock.content;
-              } else if (Array.isArray(toolResultBlock.content)) {
-                contentStr = toolResultBlock.content
-                  .map((c) => {
-                    if (typeof c === 'string') {
-                      return c;
-                    }
-                    if (typeof c === 'object' && c !== null) {
-                      if ('text' in c && typeof c.text === 'string') {
-                        return c.text;
-                      }
-                      if ('type' in c && c.type === 'text' && 'text' in c) {
-                        return String(c.text);
-                      }
-                      return JSON.stringify(c, null, 2);
-                    }
-                    return String(c);
-                  })
-                  .join('\n');
-              } else if (typeof toolResultBlock.content === 'object' && toolResultBlock.content) {
+              } else if (
+                toolResultBlock.content !== null &&
+                toolResultBlock.content !== undefined
+              ) {
                 contentStr = JSON.stringify(toolResultBlock.content, null, 2);
-              } else {
-                contentStr = String(toolResultBlock.content);
               }
 
-              const parentToolUseId =
-                childToolToParent.get(toolResultBlock.tool_use_id) ?? sdkMessage.parent_tool_use_id;
-              if (parentToolUseId) {
-                if (!childToolToParent.has(toolResultBlock.tool_use_id)) {
-                  ensureSubagentToolPlaceholder(parentToolUseId, toolResultBlock.tool_use_id);
+              this.toolResultIndexToId.set(streamEvent.index, toolResultBlock.tool_use_id);
+              if (contentStr) {
+                const parentToolUseId =
+                  this.childToolToParent.get(toolResultBlock.tool_use_id) ??
+                  sdkMessage.parent_tool_use_id;
+                if (parentToolUseId) {
+                  if (!this.childToolToParent.has(toolResultBlock.tool_use_id)) {
+                    this.ensureSubagentToolPlaceholder(
+                      parentToolUseId,
+                      toolResultBlock.tool_use_id
+                    );
+                  }
+                  this.emit('chat:subagent-tool-result-start', {
+                    parentToolUseId,
+                    toolUseId: toolResultBlock.tool_use_id,
+                    content: contentStr,
+                    isError: toolResultBlock.is_error || false
+                  });
+                } else {
+                  this.emit('chat:tool-result-start', {
+                    toolUseId: toolResultBlock.tool_use_id,
+                    content: contentStr,
+                    isError: toolResultBlock.is_error || false
+                  });
                 }
-                broadcast('chat:subagent-tool-result-complete', {
-                  parentToolUseId,
-                  toolUseId: toolResultBlock.tool_use_id,
-                  content: contentStr,
-                  isError: toolResultBlock.is_error || false
-                });
-              } else {
-                broadcast('chat:tool-result-complete', {
-                  toolUseId: toolResultBlock.tool_use_id,
-                  content: contentStr,
-                  isError: toolResultBlock.is_error || false
+                this.handleToolResultStart(
+                  toolResultBlock.tool_use_id,
+                  contentStr,
+                  toolResultBlock.is_error || false
+                );
+              }
+            }
+          } else if (streamEvent.type === 'content_block_stop') {
+            const toolId = this.streamIndexToToolId.get(streamEvent.index);
+            if (sdkMessage.parent_tool_use_id) {
+              if (toolId) {
+                this.finalizeSubagentToolInput(sdkMessage.parent_tool_use_id, toolId);
+              }
+              const toolResultId = this.toolResultIndexToId.get(streamEvent.index);
+              if (toolResultId) {
+                this.toolResultIndexToId.delete(streamEvent.index);
+                if (this.finalizeSubagentToolResult(toolResultId)) {
+                  const result = this.getSubagentToolResult(toolResultId) ?? '';
+                  const parentToolUseId = this.childToolToParent.get(toolResultId);
+                  if (parentToolUseId) {
+                    this.emit('chat:subagent-tool-result-complete', {
+                      parentToolUseId,
+                      toolUseId: toolResultId,
+                      content: result
+                    });
+                  }
+                }
+              }
+            } else {
+              this.emit('chat:content-block-stop', {
+                index: streamEvent.index,
+                toolId: toolId || undefined
+              });
+              this.handleContentBlockStop(streamEvent.index, toolId || undefined);
+            }
+          }
+        } else if (sdkMessage.type === 'user') {
+          if (sdkMessage.parent_tool_use_id && sdkMessage.message?.content) {
+            for (const block of sdkMessage.message.content) {
+              if (
+                typeof block === 'object' &&
+                block !== null &&
+                'type' in block &&
+                block.type === 'tool_result' &&
+                'tool_use_id' in block
+              ) {
+                const toolResultBlock = block as {
+                  tool_use_id: string;
+                  content: string | unknown;
+                };
+                const contentStr =
+                  typeof toolResultBlock.content === 'string' ?
+                    toolResultBlock.content
+                  : JSON.stringify(toolResultBlock.content ?? '', null, 2);
+                const parentToolUseId =
+                  this.childToolToParent.get(toolResultBlock.tool_use_id) ??
+                  sdkMessage.parent_tool_use_id;
+                if (parentToolUseId) {
+                  if (!this.childToolToParent.has(toolResultBlock.tool_use_id)) {
+                    this.ensureSubagentToolPlaceholder(
+                      parentToolUseId,
+                      toolResultBlock.tool_use_id
+                    );
+                  }
+                  this.emit('chat:subagent-tool-result-complete', {
+                    parentToolUseId,
+                    toolUseId: toolResultBlock.tool_use_id,
+                    content: contentStr
+                  });
+                } else {
+                  this.emit('chat:tool-result-complete', {
+                    toolUseId: toolResultBlock.tool_use_id,
+                    content: contentStr
+                  });
+                }
+                this.handleToolResultComplete(toolResultBlock.tool_use_id, contentStr);
+              }
+            }
+          }
+        } else if (sdkMessage.type === 'assistant') {
+          const assistantMessage = sdkMessage.message;
+          if (sdkMessage.parent_tool_use_id && assistantMessage.content) {
+            for (const block of assistantMessage.content) {
+              if (
+                typeof block === 'object' &&
+                block !== null &&
+                'type' in block &&
+                block.type === 'tool_use' &&
+                'id' in block &&
+                'name' in block
+              ) {
+                const toolBlock = block as {
+                  id: string;
+                  name: string;
+                  input?: Record<string, unknown>;
+                };
+                const payload = {
+                  id: toolBlock.id,
+                  name: toolBlock.name,
+                  input: toolBlock.input || {}
+                };
+                this.emit('chat:subagent-tool-use', {
+                  parentToolUseId: sdkMessage.parent_tool_use_id,
+                  tool: payload
                 });
+                this.handleSubagentToolUseStart(sdkMessage.parent_tool_use_id, payload);
+              }
+            }
+          }
+          if (!sdkMessage.parent_tool_use_id) {
+            const lastMessage = this.messages[this.messages.length - 1];
+            if (lastMessage?.role === 'assistant') {
+              lastMessage.sdkUuid = sdkMessage.uuid;
+            }
+          }
+          if (sdkMessage.parent_tool_use_id) {
+            this.recordSubagentUsage(assistantMessage.id, assistantMessage.usage);
+            const text = formatAssistantContent(assistantMessage.content);
+            if (text) {
+              const next = this.appendToolResultContent(sdkMessage.parent_tool_use_id, text);
+              this.emit('chat:tool-result-complete', {
+                toolUseId: sdkMessage.parent_tool_use_id,
+                content: next
+              });
+            }
+          }
+          if (assistantMessage.content) {
+            for (const block of assistantMessage.content) {
+              if (
+                typeof block === 'object' &&
+                block !== null &&
+                'tool_use_id' in block &&
+                'content' in block
+              ) {
+                const toolResultBlock = block as {
+                  tool_use_id: string;
+                  content: string | unknown[] | unknown;
+                  is_error?: boolean;
+                };
+
+                let contentStr: string;
+                if (typeof toolResultBlock.content === 'string') {
+                  contentStr = toolResultBlock.content;
+                } else if (Array.isArray(toolResultBlock.content)) {
+                  contentStr = toolResultBlock.content
+                    .map((c) => {
+                      if (typeof c === 'string') {
+                        return c;
+                      }
+                      if (typeof c === 'object' && c !== null) {
+                        if ('text' in c && typeof c.text === 'string') {
+                          return c.text;
+                        }
+                        if ('type' in c && c.type === 'text' && 'text' in c) {
+                          return String(c.text);
+                        }
+                        return JSON.stringify(c, null, 2);
+                      }
+                      return String(c);
+                    })
+                    .join('\n');
+                } else if (typeof toolResultBlock.content === 'object' && toolResultBlock.content) {
+                  contentStr = JSON.stringify(toolResultBlock.content, null, 2);
+                } else {
+                  contentStr = String(toolResultBlock.content);
+                }
+
+                const parentToolUseId =
+                  this.childToolToParent.get(toolResultBlock.tool_use_id) ??
+                  sdkMessage.parent_tool_use_id;
+                if (parentToolUseId) {
+                  if (!this.childToolToParent.has(toolResultBlock.tool_use_id)) {
+                    this.ensureSubagentToolPlaceholder(
+                      parentToolUseId,
+                      toolResultBlock.tool_use_id
+                    );
+                  }
+                  this.emit('chat:subagent-tool-result-complete', {
+                    parentToolUseId,
+                    toolUseId: toolResultBlock.tool_use_id,
+                    content: contentStr,
+                    isError: toolResultBlock.is_error || false
+                  });
+                } else {
+                  this.emit('chat:tool-result-complete', {
+                    toolUseId: toolResultBlock.tool_use_id,
+                    content: contentStr,
+                    isError: toolResultBlock.is_error || false
+                  });
+                }
+                this.handleToolResultComplete(
+                  toolResultBlock.tool_use_id,
+                  contentStr,
+                  toolResultBlock.is_error || false
+                );
               }
-              handleToolResultComplete(
-                toolResultBlock.tool_use_id,
-                contentStr,
-                toolResultBlock.is_error || false
-              );
             }
           }
+        } else if (sdkMessage.type === 'result') {
+          this.recordTurnUsage(sdkMessage);
+          this.onTurnEnd?.(this, getTurnOutcome(sdkMessage));
+          this.emit('chat:message-complete', null);
+          this.handleMessageComplete();
+          this.finishTurn();
         }
-      } else if (sdkMessage.type === 'result') {
-        broadcast('chat:message-complete', null);
-        handleMessageComplete();
+        this.scheduleTranscriptSave();
       }
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log(`[agent] session=${this.id} aborted`);
+        return;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('[agent] session error', errorMessage);
+      if (resumeSessionId && !hasReceivedSystemInit && this.sdkSessionId === resumeSessionId) {
+        // The stored session could not be resumed (e.g. it was deleted); start fresh next time.
+        console.warn(`[agent] failed to resume session id=${resumeSessionId}, clearing`);
+        this.sdkSessionId = null;
+        this.forkSession = false;
+        this.resumeSessionAt = null;
+        this.persistSessionMetadata();
+      }
+      this.emit('chat:message-error', errorMessage);
+      this.handleMessageError(errorMessage);
+      this.setSessionState('error');
+      this.onTurnEnd?.(this, { isError: true, error: errorMessage });
+    } finally {
+      // Release the generator's pending wait so the next message starts a new session.
+      abortController.abort();
+      this.cancelPendingPermissions();
+      this.flushTranscript();
+      this.isProcessing = false;
+      this.activeQueueItemId = null;
+      this.querySession = null;
+      this.sessionAbortController = null;
+      this.mcpConnections.clear();
+      this.emitMcpStatus();
+      if (this.sessionState !== 'error') {
+        this.setSessionState('idle');
+      }
+      if (this.messageQueue.size > 0) {
+        // Messages queued while the query was shutting down need a new one.
+        this.startStreamingSession().catch((error) => {
+          console.error('[agent] failed to restart session', error);
+        });
+      }
+      resolveTermination!();
     }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    console.error('[agent] session error', errorMessage);
-    broadcast('chat:message-error', errorMessage);
-    handleMessageError(errorMessage);
-    setSessionState('error');
-  } finally {
-    isProcessing = false;
-    querySession = null;
-    if (sessionState !== 'error') {
-      setSessionState('idle');
-    }
-    resolveTermination!();
   }
-}
-
-async function* messageGenerator(): AsyncGenerator<SDKUserMessage> {
-  while (true) {
-    if (shouldAbortSession) {
-      return;
-    }
-
-    await new Promise<void>((resolve) => {
-      const checkQueue = () => {
-        if (shouldAbortSession) {
-          resolve();
-          return;
-        }
-
-        if (messageQueue.length > 0) {
-          resolve();
-        } else {
-          setTimeout(checkQueue, 100);
-        }
-      };
-      checkQueue();
-    });
-
-    if (shouldAbortSession) {
-      return;
-    }
 
-    const item = messageQueue.shift();
-    if (item) {
+  /**
+   * Hands queued messages to the SDK one turn at a time, so follow-ups stay visible and editable in
+   * the queue until the agent is ready for them.
+   */
+  private async *messageGenerator(signal: AbortSignal): AsyncGenerator<SDKUserMessage> {
+    for await (const item of this.messageQueue.drain(signal)) {
+      this.activeQueueItemId = item.id;
+      this.emitQueue();
+      const turnComplete = new Promise<void>((resolve) => {
+        this.resolveTurn = resolve;
+        signal.addEventListener('abort', () => resolve(), { once: true });
+      });
       yield {
         type: 'user' as const,
-        message: item.message,
+        message: await this.startUserTurn(item),
         parent_tool_use_id: null,
-        session_id: getSessionId()
+        session_id: this.getSessionId()
       };
-      item.resolve();
+      await turnComplete;
     }
   }
 }
@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'bun:test';
+
+import { AsyncQueue } from './async-queue';
+
+describe('AsyncQueue', () => {
+  test('returns queued items in push order', async () => {
+    const queue = new AsyncQueue<number>();
+    queue.push(1);
+    queue.push(2);
+    queue.push(3);
+
+    expect(await queue.shift()).toBe(1);
+    expect(await queue.shift()).toBe(2);
+    expect(await queue.shift()).toBe(3);
+    expect(queue.size).toBe(0);
+  });
+
+  test('wakes waiting consumers in the order they started waiting', async () => {
+    const queue = new AsyncQueue<string>();
+    const first = queue.shift();
+    const second = queue.shift();
+
+    queue.push('a');
+    queue.push('b');
+
+    expect(await first).toBe('a');
+    expect(await second).toBe('b');
+  });
+
+  test('delivers a push to a waiting consumer without a timer tick', async () => {
+    const queue = new AsyncQueue<string>();
+    const received: string[] = [];
+    const pending = queue.shift().then((item) => {
+      received.push(item!);
+    });
+
+    queue.push('now');
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(received).toEqual(['now']);
+    await pending;
+  });
+
+  test('resolves a pending wait with undefined when aborted', async () => {
+    const queue = new AsyncQueue<string>();
+    const controller = new AbortController();
+    const pending = queue.shift(controller.signal);
+
+    controller.abort();
+
+    expect(await pending).toBeUndefined();
+    expect(await queue.shift(controller.signal)).toBeUndefined();
+  });
+
+  test('keeps items pushed after an aborted wait for the next consumer', async () => {
+    const queue = new AsyncQueue<string>();
+    const controller = new AbortController();
+    const aborted = queue.shift(controller.signal);
+    controller.abort();
+    await aborted;
+
+    queue.push('kept');
+
+    expect(queue.size).toBe(1);
+    expect(await queue.shift()).toBe('kept');
+  });
+
+  test('clear removes queued items in order', async () => {
+    const queue = new AsyncQueue<number>();
+    queue.push(1);
+    queue.push(2);
+
+    expect(queue.clear()).toEqual([1, 2]);
+    expect(queue.size).toBe(0);
+  });
+
+  test('removes and moves queued items', () => {
+    const queue = new AsyncQueue<string>();
+    ['a', 'b', 'c', 'd'].forEach((item) => queue.push(item));
+
+    expect(queue.remove((item) => item === 'b')).toBe('b');
+    expect(queue.remove((item) => item === 'x')).toBeUndefined();
+    expect(queue.move((item) => item === 'd', 0)).toBe(true);
+    expect(queue.move((item) => item === 'a', 99)).toBe(true);
+    expect(queue.move((item) => item === 'x', 0)).toBe(false);
+
+    expect(queue.toArray()).toEqual(['d', 'c', 'a']);
+  });
+
+  test('drain yields items in order and ends when aborted', async () => {
+    const queue = new AsyncQueue<number>();
+    const controller = new AbortController();
+    queue.push(1);
+    queue.push(2);
+
+    const received: number[] = [];
+    const consumer = (async () => {
+      for await (const item of queue.drain(controller.signal)) {
+        received.push(item);
+        if (item === 3) {
+          controller.abort();
+        }
+      }
+    })();
+
+    await Promise.resolve();
+    queue.push(3);
+    queue.push(4);
+    await consumer;
+
+    expect(received).toEqual([1, 2, 3]);
+    expect(await queue.shift()).toBe(4);
+  });
+
+  test('drain ends while idle when aborted', async () => {
+    const queue = new AsyncQueue<number>();
+    const controller = new AbortController();
+    const consumer = (async () => {
+      const received: number[] = [];
+      for await (const item of queue.drain(controller.signal)) {
+        received.push(item);
+      }
+      return received;
+    })();
+
+    controller.abort();
+
+    expect(await consumer).toEqual([]);
+  });
+});
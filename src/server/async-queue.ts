@@ -0,0 +1,96 @@
+type Waiter<T> = (item: T | undefined) => void;
+
+/**
+ * FIFO queue whose consumers wait for the next push instead of polling. Waiting consumers are
+ * served in the order they started waiting, and an aborted wait gives up without losing items.
+ */
+export class AsyncQueue<T> {
+  private readonly items: T[] = [];
+  private readonly waiters: Waiter<T>[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter(item);
+      return;
+    }
+    this.items.push(item);
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+
+  /**
+   * Removes and returns the first queued item matching `predicate`.
+   */
+  remove(predicate: (item: T) => boolean): T | undefined {
+    const index = this.items.findIndex(predicate);
+    return index === -1 ? undefined : this.items.splice(index, 1)[0];
+  }
+
+  /**
+   * Moves the first queued item matching `predicate` to `position`, clamped to the queue bounds.
+   */
+  move(predicate: (item: T) => boolean, position: number): boolean {
+    const item = this.remove(predicate);
+    if (item === undefined) {
+      return false;
+    }
+    const index = Math.max(0, Math.min(Math.trunc(position), this.items.length));
+    this.items.splice(index, 0, item);
+    return true;
+  }
+
+  /**
+   * Removes and returns every queued item.
+   */
+  clear(): T[] {
+    return this.items.splice(0);
+  }
+
+  /**
+   * Resolves with the next item, waiting for a push if the queue is empty. Resolves with
+   * `undefined` once `signal` aborts.
+   */
+  shift(signal?: AbortSignal): Promise<T | undefined> {
+    if (signal?.aborted) {
+      return Promise.resolve(undefined);
+    }
+    if (this.items.length > 0) {
+      return Promise.resolve(this.items.shift());
+    }
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+        }
+        resolve(undefined);
+      };
+      const waiter: Waiter<T> = (item) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(item);
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Yields items as they arrive until `signal` aborts.
+   */
+  async *drain(signal: AbortSignal): AsyncGenerator<T> {
+    while (!signal.aborted) {
+      const item = await this.shift(signal);
+      if (item === undefined) {
+        return;
+      }
+      yield item;
+    }
+  }
+}
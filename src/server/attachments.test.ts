@@ -0,0 +1,116 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { buildUserContent, isModelImage, saveAttachments } from './attachments';
+
+describe('attachments', () => {
+  let agentDir: string;
+
+  beforeEach(() => {
+    agentDir = mkdtempSync(join(tmpdir(), 'attachments-'));
+  });
+
+  afterEach(() => {
+    rmSync(agentDir, { recursive: true, force: true });
+  });
+
+  test('saves files in one batch directory under attachments', async () => {
+    const [saved] = await saveAttachments(agentDir, [
+      new File(['hello'], 'notes.txt', { type: 'text/plain' })
+    ]);
+
+    expect(saved).toMatchObject({ name: 'notes.txt', size: 5 });
+    expect(saved.mimeType).toStartWith('text/plain');
+    expect(saved.relativePath).toMatch(/^attachments\/[0-9a-f]{8}\/notes\.txt$/);
+    expect(saved.savedPath).toBe(join(agentDir, saved.relativePath));
+    expect(readFileSync(saved.savedPath, 'utf8')).toBe('hello');
+    expect(await saveAttachments(agentDir, [])).toEqual([]);
+  });
+
+  test('numbers files that share a name', async () => {
+    const saved = await saveAttachments(agentDir, [
+      new File(['a'], 'log.txt'),
+      new File(['b'], 'log.txt'),
+      new File(['c'], '1-log.txt'),
+      new File(['d'], 'log.txt')
+    ]);
+
+    expect(saved.map((file) => file.relativePath.split('/').pop())).toEqual([
+      'log.txt',
+      '1-log.txt',
+      '1-1-log.txt',
+      '2-log.txt'
+    ]);
+    expect(saved.map((file) => readFileSync(file.savedPath, 'utf8'))).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('keeps unsafe names inside the batch directory', async () => {
+    const saved = await saveAttachments(agentDir, [
+      new File(['a'], '../../escape.sh'),
+      new File(['b'], 'C:\\temp\\report?.txt'),
+      new File(['c'], '..'),
+      new File(['d'], '   ')
+    ]);
+
+    const batchDir = dirname(saved[0].savedPath);
+    expect(saved.every((file) => dirname(file.savedPath) === batchDir)).toBe(true);
+    expect(saved.map((file) => file.relativePath.split('/').pop())).toEqual([
+      '.._.._escape.sh',
+      'C__temp_report_.txt',
+      'attachment',
+      '1-attachment'
+    ]);
+    expect(saved[0].name).toBe('../../escape.sh');
+    expect(saved[1].mimeType).toBe('application/octet-stream');
+  });
+
+  test('sends model images as image blocks and other files by path', async () => {
+    const pixel = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    const saved = await saveAttachments(agentDir, [
+      new File([pixel], 'chart.png', { type: 'image/png' }),
+      new File(['<svg/>'], 'logo.svg', { type: 'image/svg+xml' }),
+      new File(['%PDF'], 'spec.pdf', { type: 'application/pdf' })
+    ]);
+
+    const content = await buildUserContent('Take a look', saved);
+
+    expect(content).toEqual([
+      { type: 'text', text: 'Take a look' },
+      {
+        type: 'text',
+        text: `The user attached these files, saved in the working directory:\n- ${saved[0].relativePath} (image/png)\n- ${saved[1].relativePath} (image/svg+xml)\n- ${saved[2].relativePath} (application/pdf)`
+      },
+      {
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: 'image/png',
+          data: Buffer.from(pixel).toString('base64')
+        }
+      }
+    ]);
+    expect(isModelImage('image/webp')).toBe(true);
+    expect(isModelImage('image/svg+xml')).toBe(false);
+  });
+
+  test('notes an image that was removed before the message was sent', async () => {
+    const [saved] = await saveAttachments(agentDir, [
+      new File([new Uint8Array([1, 2, 3])], 'shot.png', { type: 'image/png' })
+    ]);
+    rmSync(saved.savedPath);
+
+    const content = await buildUserContent('', [saved]);
+
+    expect(content).toHaveLength(2);
+    expect(content[1]).toEqual({
+      type: 'text',
+      text: `The attached image ${saved.relativePath} is no longer in the working directory.`
+    });
+  });
+
+  test('sends plain text when there are no attachments', async () => {
+    expect(await buildUserContent('Hi', [])).toEqual([{ type: 'text', text: 'Hi' }]);
+  });
+});
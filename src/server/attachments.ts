@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+import { mkdir } from 'fs/promises';
+import { join, relative } from 'path';
+import type { SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+
+import { ATTACHMENTS_DIR_NAME } from '../shared/constants';
+import type { SavedAttachmentInfo } from '../shared/types/ipc';
+
+type UserContent = Exclude<SDKUserMessage['message']['content'], string>;
+type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+// Image types the model accepts as image blocks; anything else is referenced by path.
+const MODEL_IMAGE_TYPES = new Set<string>(['image/jpeg', 'image/png', 'image/gif', 'image/webp']);
+
+function sanitizeFileName(name: string): string {
+  const safeName = name.replace(/[<>:"/\\|?*]/g, '_').trim();
+  // `.` and `..` would resolve to the batch directory or the one above it.
+  return safeName.replace(/\./g, '') ? safeName : 'attachment';
+}
+
+export function isModelImage(mimeType: string): boolean {
+  return MODEL_IMAGE_TYPES.has(mimeType);
+}
+
+/**
+ * Saves uploaded files under `<agentDir>/attachments/<batch-id>/` so the agent can read them
+ * with its own tools.
+ */
+export async function saveAttachments(
+  agentDir: string,
+  files: File[]
+): Promise<SavedAttachmentInfo[]> {
+  if (files.length === 0) {
+    return [];
+  }
+
+  const targetDir = join(agentDir, ATTACHMENTS_DIR_NAME, randomUUID().slice(0, 8));
+  await mkdir(targetDir, { recursive: true });
+  const usedNames = new Set<string>();
+  const saved: SavedAttachmentInfo[] = [];
+  for (const file of files) {
+    let fileName = sanitizeFileName(file.name);
+    for (let suffix = 1; usedNames.has(fileName); suffix += 1) {
+      fileName = `${suffix}-${sanitizeFileName(file.name)}`;
+    }
+    usedNames.add(fileName);
+    const savedPath = join(targetDir, fileName);
+    await Bun.write(savedPath, file);
+    saved.push({
+      name: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      savedPath,
+      relativePath: relative(agentDir, savedPath)
+    });
+  }
+  return saved;
+}
+
+/**
+ * Builds the content of a user turn: the text, a note listing every attachment's workspace path,
+ * and an image block for each image the model can view directly, or a note when it is gone.
+ */
+export async function buildUserContent(
+  text: string,
+  attachments: SavedAttachmentInfo[]
+): Promise<UserContent> {
+  const content: UserContent = [];
+  if (text) {
+    content.push({ type: 'text', text });
+  }
+  if (attachments.length === 0) {
+    return content;
+  }
+
+  const references = attachments
+    .map((attachment) => `- ${attachment.relativePath} (${attachment.mimeType})`)
+    .join('\n');
+  content.push({
+    type: 'text',
+    text: `The user attached these files, saved in the working directory:\n${references}`
+  });
+
+  for (const attachment of attachments) {
+    if (!isModelImage(attachment.mimeType)) {
+      continue;
+    }
+    let data: Buffer;
+    try {
+      data = Buffer.from(await Bun.file(attachment.savedPath).arrayBuffer());
+    } catch {
+      // The file can be moved or deleted while the message waits in the queue; the turn still
+      // goes out so the query is not ended by one unreadable attachment.
+      content.push({
+        type: 'text',
+        text: `The attached image ${attachment.relativePath} is no longer in the working directory.`
+      });
+      continue;
+    }
+    content.push({
+      type: 'image',
+      source: {
+        type: 'base64',
+        media_type: attachment.mimeType as ImageMediaType,
+        data: data.toString('base64')
+      }
+    });
+  }
+  return content;
+}
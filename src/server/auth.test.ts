@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { AUTH_COOKIE_NAME, configureAuth, handleAuth, parseAuthTokens } from './auth';
+
+const ADDRESS = '203.0.113.7';
+
+function request(path: string, init: RequestInit = {}): Request {
+  return new Request(`http://localhost:3000${path}`, init);
+}
+
+async function login(token: string, next = '/'): Promise<Response> {
+  const body = new URLSearchParams({ token, next });
+  return (await handleAuth(request('/login', { method: 'POST', body }), ADDRESS)) as Response;
+}
+
+describe('auth', () => {
+  afterEach(() => {
+    configureAuth([]);
+  });
+
+  test('parses comma-separated tokens', () => {
+    expect(parseAuthTokens(' one, two ,,')).toEqual(['one', 'two']);
+    expect(parseAuthTokens(undefined)).toEqual([]);
+  });
+
+  test('allows everything when no token is configured', async () => {
+    expect(await handleAuth(request('/chat/send', { method: 'POST' }), ADDRESS)).toBeNull();
+  });
+
+  test('accepts any configured bearer token and rejects others', async () => {
+    configureAuth(['first-token', 'second-token']);
+    const withBearer = (token: string) =>
+      handleAuth(
+        request('/chat/stream', { headers: { Authorization: `Bearer ${token}` } }),
+        ADDRESS
+      );
+
+    expect(await withBearer('second-token')).toBeNull();
+    const rejected = (await withBearer('guess')) as Response;
+    expect(rejected.status).toBe(401);
+    expect(await rejected.json()).toEqual({ success: false, error: 'Invalid bearer token.' });
+    expect(((await handleAuth(request('/agent/download'), ADDRESS)) as Response).status).toBe(401);
+  });
+
+  test('sends page loads to the login form', async () => {
+    configureAuth(['secret-token']);
+    const response = (await handleAuth(
+      request('/?session=1', { headers: { Accept: 'text/html' } }),
+      ADDRESS
+    )) as Response;
+
+    expect(response.status).toBe(303);
+    expect(response.headers.get('location')).toBe('/login?next=%2F%3Fsession%3D1');
+  });
+
+  test('logs in with a token and then accepts the cookie', async () => {
+    configureAuth(['secret-token']);
+
+    const failed = await login('wrong', '/chat');
+    expect(failed.status).toBe(401);
+    expect(await failed.text()).toContain('That token is not valid.');
+
+    const response = await login('secret-token', 'https://evil.example/');
+    expect(response.status).toBe(303);
+    expect(response.headers.get('location')).toBe('/');
+    const cookie = response.headers.get('set-cookie') ?? '';
+    expect(cookie).toContain('HttpOnly');
+    expect(cookie).toContain('SameSite=Strict');
+
+    const session = cookie.split(';')[0];
+    const withCookie = (value: string) =>
+      handleAuth(request('/chat/send', { method: 'POST', headers: { Cookie: value } }), ADDRESS);
+    expect(await withCookie(session)).toBeNull();
+    expect(((await withCookie(`${session}x`)) as Response).status).toBe(401);
+
+    // Removing the token that signed the cookie logs it out.
+    configureAuth(['rotated-token']);
+    expect(((await withCookie(session)) as Response).status).toBe(401);
+  });
+
+  test('only redirects to paths on the same origin after login', async () => {
+    configureAuth(['secret-token']);
+    const locationAfterLogin = async (next: string) =>
+      (await login('secret-token', next)).headers.get('location');
+
+    expect(await locationAfterLogin('/chat?session=1#end')).toBe('/chat?session=1#end');
+    expect(await locationAfterLogin('/\\evil.example')).toBe('/');
+    expect(await locationAfterLogin('//evil.example/')).toBe('/');
+    expect(await locationAfterLogin('/\tevil.example')).toBe('/');
+    expect(await locationAfterLogin('/%5Cevil.example')).toBe('/%5Cevil.example');
+  });
+
+  test('clears the cookie on logout', async () => {
+    configureAuth(['secret-token']);
+    const response = (await handleAuth(
+      request('/logout', { method: 'POST' }),
+      ADDRESS
+    )) as Response;
+
+    expect(response.headers.get('set-cookie')).toStartWith(
+      `${AUTH_COOKIE_NAME}=; Path=/; Max-Age=0`
+    );
+  });
+});
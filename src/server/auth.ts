@@ -0,0 +1,245 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const AUTH_TOKEN_ENV = 'AGENT_UI_AUTH_TOKEN';
+export const AUTH_COOKIE_NAME = 'agent_ui_auth';
+
+const AUTH_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+let authTokens: string[] = [];
+
+/**
+ * Splits a comma-separated token list, as given to `--auth-token` or `AGENT_UI_AUTH_TOKEN`.
+ */
+export function parseAuthTokens(value: string | null | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((token) => token.trim())
+    .filter(Boolean);
+}
+
+// With no tokens every request is allowed, as before auth existed.
+export function configureAuth(tokens: string[]): void {
+  authTokens = [...new Set(tokens)];
+}
+
+export function isAuthEnabled(): boolean {
+  return authTokens.length > 0;
+}
+
+function safeEqual(left: string, right: string): boolean {
+  // Hashing first keeps the comparison constant-time whatever the lengths.
+  const hash = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(hash(left), hash(right));
+}
+
+function findToken(candidate: string): string | null {
+  return authTokens.find((token) => safeEqual(token, candidate)) ?? null;
+}
+
+function sign(token: string, payload: string): string {
+  return createHmac('sha256', token).update(payload).digest('base64url');
+}
+
+// The cookie is signed with the token that logged in, so it outlives restarts but not a token
+// being removed.
+function createAuthCookieValue(token: string): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + AUTH_COOKIE_MAX_AGE_SECONDS;
+  const payload = `${randomBytes(12).toString('base64url')}.${expiresAt}`;
+  return `${payload}.${sign(token, payload)}`;
+}
+
+function isValidAuthCookie(value: string): boolean {
+  const separator = value.lastIndexOf('.');
+  if (separator === -1) {
+    return false;
+  }
+  const payload = value.slice(0, separator);
+  const signature = value.slice(separator + 1);
+  const expiresAt = Number(payload.split('.')[1]);
+  if (!(expiresAt * 1000 > Date.now())) {
+    return false;
+  }
+  return authTokens.some((token) => safeEqual(sign(token, payload), signature));
+}
+
+function getCookie(request: Request, name: string): string | null {
+  for (const part of (request.headers.get('cookie') ?? '').split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return rest.join('=');
+    }
+  }
+  return null;
+}
+
+function isSecureRequest(request: Request): boolean {
+  return (
+    new URL(request.url).protocol === 'https:' ||
+    request.headers.get('x-forwarded-proto') === 'https'
+  );
+}
+
+function formatAuthCookie(request: Request, value: string, maxAgeSeconds: number): string {
+  return [
+    `${AUTH_COOKIE_NAME}=${value}`,
+    'Path=/',
+    `Max-Age=${maxAgeSeconds}`,
+    'HttpOnly',
+    'SameSite=Strict',
+    ...(isSecureRequest(request) ? ['Secure'] : [])
+  ].join('; ');
+}
+
+// Only same-origin paths, so the login form cannot be used to bounce users elsewhere. Browsers
+// read `/\host` as `//host`, so the check resolves the URL the way they do.
+function getSafeRedirect(value: string | null, request: Request): string {
+  const hasControlCharacter = [...(value ?? '')].some(
+    (char) => char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f
+  );
+  if (!value?.startsWith('/') || hasControlCharacter) {
+    return '/';
+  }
+  try {
+    const target = new URL(value, request.url);
+    return target.origin === new URL(request.url).origin ?
+        target.pathname + target.search + target.hash
+      : '/';
+  } catch {
+    return '/';
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] ?? char
+  );
+}
+
+function renderLoginPage(next: string, error?: string): string {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Sign in · Agent UI</title>
+    <style>
+      body { margin: 0; min-height: 100vh; display: grid; place-items: center; background: #f6f4ef; color: #1f1d1a; font: 14px/1.5 system-ui, sans-serif; }
+      form { width: min(22rem, calc(100vw - 3rem)); display: grid; gap: 0.75rem; padding: 1.5rem; border: 1px solid #e2ddd3; border-radius: 1rem; background: #fff; }
+      h1 { margin: 0; font-size: 1rem; }
+      p { margin: 0; color: #6b665d; font-size: 0.8rem; }
+      input, button { padding: 0.5rem 0.75rem; border: 1px solid #e2ddd3; border-radius: 0.75rem; font: inherit; }
+      button { background: #1f1d1a; color: #fff; cursor: pointer; }
+      .error { color: #dc2626; }
+    </style>
+  </head>
+  <body>
+    <form method="post" action="/login">
+      <h1>Sign in</h1>
+      <p>Enter an access token for this agent server.</p>
+      ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+      <input type="password" name="token" autocomplete="current-password" autofocus required />
+      <input type="hidden" name="next" value="${escapeHtml(next)}" />
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>
+`;
+}
+
+function htmlResponse(body: string, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', ...headers }
+  });
+}
+
+function redirectResponse(location: string, headers: Record<string, string> = {}): Response {
+  return new Response(null, { status: 303, headers: { Location: location, ...headers } });
+}
+
+function unauthorizedResponse(error: string): Response {
+  return new Response(JSON.stringify({ success: false, error }), {
+    status: 401,
+    headers: { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' }
+  });
+}
+
+function logRejected(request: Request, clientAddress: string, reason: string): void {
+  const { pathname } = new URL(request.url);
+  console.warn(`[auth] rejected ${request.method} ${pathname} from ${clientAddress}: ${reason}`);
+}
+
+async function handleLogin(request: Request, clientAddress: string): Promise<Response> {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return htmlResponse(renderLoginPage('/', 'Invalid login request.'), 400);
+  }
+  const next = getSafeRedirect(form.get('next')?.toString() ?? null, request);
+  const token = findToken(form.get('token')?.toString() ?? '');
+  if (!token) {
+    logRejected(request, clientAddress, 'invalid login token');
+    return htmlResponse(renderLoginPage(next, 'That token is not valid.'), 401);
+  }
+  console.log(`[auth] login from ${clientAddress}`);
+  return redirectResponse(next, {
+    'Set-Cookie': formatAuthCookie(
+      request,
+      createAuthCookieValue(token),
+      AUTH_COOKIE_MAX_AGE_SECONDS
+    )
+  });
+}
+
+/**
+ * Serves `/login` and `/logout` and checks every other request for a bearer token or a login
+ * cookie. Returns the response to send instead, or null when the request may go through.
+ */
+export async function handleAuth(
+  request: Request,
+  clientAddress: string
+): Promise<Response | null> {
+  if (!isAuthEnabled()) {
+    return null;
+  }
+  const url = new URL(request.url);
+
+  if (url.pathname === '/login' && request.method === 'GET') {
+    return htmlResponse(renderLoginPage(getSafeRedirect(url.searchParams.get('next'), request)));
+  }
+  if (url.pathname === '/login' && request.method === 'POST') {
+    return handleLogin(request, clientAddress);
+  }
+  if (url.pathname === '/logout' && request.method === 'POST') {
+    return redirectResponse('/login', { 'Set-Cookie': formatAuthCookie(request, '', 0) });
+  }
+
+  const authorization = request.headers.get('authorization');
+  if (authorization) {
+    const [scheme, credentials = ''] = authorization.split(/\s+/, 2);
+    if (scheme.toLowerCase() === 'bearer' && findToken(credentials)) {
+      return null;
+    }
+    logRejected(request, clientAddress, 'invalid bearer token');
+    return unauthorizedResponse('Invalid bearer token.');
+  }
+
+  const cookie = getCookie(request, AUTH_COOKIE_NAME);
+  if (cookie && isValidAuthCookie(cookie)) {
+    return null;
+  }
+
+  // Page loads go to the login form; API and stream requests get a 401 they can act on.
+  if (request.method === 'GET' && request.headers.get('accept')?.includes('text/html')) {
+    return redirectResponse(`/login?next=${encodeURIComponent(url.pathname + url.search)}`);
+  }
+  logRejected(
+    request,
+    clientAddress,
+    cookie ? 'invalid or expired login cookie' : 'no credentials'
+  );
+  return unauthorizedResponse('Authentication required.');
+}
@@ -0,0 +1,95 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import {
+  deleteSessionCheckpoints,
+  getCheckpointPath,
+  listCheckpoints,
+  restoreCheckpoint,
+  snapshotFile
+} from './checkpoints';
+
+function turn(id: string, createdAt: string) {
+  return { id, sessionId: 'session-1', messageId: id, preview: `turn ${id}`, createdAt };
+}
+
+describe('checkpoints', () => {
+  let agentDir: string;
+
+  beforeEach(() => {
+    agentDir = mkdtempSync(join(tmpdir(), 'checkpoints-'));
+  });
+
+  afterEach(() => {
+    rmSync(agentDir, { recursive: true, force: true });
+  });
+
+  test('finds the path file-editing tools change inside the agent directory', () => {
+    expect(getCheckpointPath(agentDir, 'Write', { file_path: join(agentDir, 'src/a.ts') })).toBe(
+      'src/a.ts'
+    );
+    expect(getCheckpointPath(agentDir, 'NotebookEdit', { notebook_path: 'nb.ipynb' })).toBe(
+      'nb.ipynb'
+    );
+    expect(getCheckpointPath(agentDir, 'Read', { file_path: 'src/a.ts' })).toBeNull();
+    expect(getCheckpointPath(agentDir, 'Edit', { file_path: '/etc/hosts' })).toBeNull();
+    expect(getCheckpointPath(agentDir, 'Write', { file_path: '.agent-ui/model.json' })).toBeNull();
+  });
+
+  test('keeps the first version of a file seen in a turn', () => {
+    writeFileSync(join(agentDir, 'notes.md'), 'original');
+    expect(snapshotFile(agentDir, turn('a', '2025-01-01T00:00:00.000Z'), 'notes.md')).toBe(true);
+    writeFileSync(join(agentDir, 'notes.md'), 'edited once');
+    expect(snapshotFile(agentDir, turn('a', '2025-01-01T00:00:00.000Z'), 'notes.md')).toBe(false);
+
+    const [checkpoint] = listCheckpoints(agentDir);
+    expect(checkpoint.files).toEqual([{ path: 'notes.md', existed: true }]);
+    expect(checkpoint.preview).toBe('turn a');
+  });
+
+  test('restores edited files, deletes created ones and drops later checkpoints', () => {
+    writeFileSync(join(agentDir, 'notes.md'), 'v1');
+    snapshotFile(agentDir, turn('a', '2025-01-01T00:00:00.000Z'), 'notes.md');
+    writeFileSync(join(agentDir, 'notes.md'), 'v2');
+    snapshotFile(agentDir, turn('b', '2025-01-01T00:01:00.000Z'), 'notes.md');
+    snapshotFile(agentDir, turn('b', '2025-01-01T00:01:00.000Z'), 'new/file.txt');
+    writeFileSync(join(agentDir, 'notes.md'), 'v3');
+    writeFileSync(join(agentDir, 'new-file.txt'), 'unrelated');
+
+    expect(restoreCheckpoint(agentDir, 'missing')).toBeNull();
+    expect(restoreCheckpoint(agentDir, 'a')).toEqual(['new/file.txt', 'notes.md']);
+    expect(readFileSync(join(agentDir, 'notes.md'), 'utf8')).toBe('v1');
+    expect(existsSync(join(agentDir, 'new-file.txt'))).toBe(true);
+    expect(listCheckpoints(agentDir)).toEqual([]);
+  });
+
+  test('restoring a later checkpoint keeps earlier ones', () => {
+    writeFileSync(join(agentDir, 'notes.md'), 'v1');
+    snapshotFile(agentDir, turn('a', '2025-01-01T00:00:00.000Z'), 'notes.md');
+    writeFileSync(join(agentDir, 'notes.md'), 'v2');
+    snapshotFile(agentDir, turn('b', '2025-01-01T00:01:00.000Z'), 'notes.md');
+    writeFileSync(join(agentDir, 'notes.md'), 'v3');
+
+    restoreCheckpoint(agentDir, 'b');
+    expect(readFileSync(join(agentDir, 'notes.md'), 'utf8')).toBe('v2');
+    expect(listCheckpoints(agentDir).map((checkpoint) => checkpoint.id)).toEqual(['a']);
+  });
+
+  test("deletes one session's checkpoints and leaves the workspace alone", () => {
+    writeFileSync(join(agentDir, 'notes.md'), 'v1');
+    snapshotFile(agentDir, turn('a', '2025-01-01T00:00:00.000Z'), 'notes.md');
+    snapshotFile(
+      agentDir,
+      { ...turn('b', '2025-01-01T00:01:00.000Z'), sessionId: 'session-2' },
+      'notes.md'
+    );
+    writeFileSync(join(agentDir, 'notes.md'), 'v2');
+
+    expect(deleteSessionCheckpoints(agentDir, 'session-1')).toBe(1);
+    expect(deleteSessionCheckpoints(agentDir, 'session-1')).toBe(0);
+    expect(listCheckpoints(agentDir).map((checkpoint) => checkpoint.id)).toEqual(['b']);
+    expect(readFileSync(join(agentDir, 'notes.md'), 'utf8')).toBe('v2');
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync
+} from 'fs';
+import { dirname, join } from 'path';
+
+import { AGENT_STATE_DIR_NAME } from '../shared/constants';
+import type { Checkpoint, CheckpointFile } from '../shared/types/checkpoint';
+import { toAgentRelativePath } from './tool-policy';
+
+// The input key holding the path each file-editing tool changes.
+const CHECKPOINT_TOOL_PATH_KEYS: Record<string, string> = {
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path'
+};
+
+export function getCheckpointsDir(agentDir: string): string {
+  return join(agentDir, AGENT_STATE_DIR_NAME, 'checkpoints');
+}
+
+/**
+ * Returns the agent-relative path a tool call is about to change, or null for tools that do not
+ * edit files and for paths outside the agent directory or inside its state directory.
+ */
+export function getCheckpointPath(
+  agentDir: string,
+  toolName: string,
+  input: Record<string, unknown>
+): string | null {
+  const key = CHECKPOINT_TOOL_PATH_KEYS[toolName];
+  const path = key ? input[key] : undefined;
+  if (typeof path !== 'string' || !path) {
+    return null;
+  }
+  const relativePath = toAgentRelativePath(agentDir, path);
+  if (!relativePath || relativePath.split('/')[0] === AGENT_STATE_DIR_NAME) {
+    return null;
+  }
+  return relativePath;
+}
+
+function isCheckpointFile(value: unknown): value is CheckpointFile {
+  const record = value as Record<string, unknown> | null;
+  return typeof record?.path === 'string' && typeof record.existed === 'boolean';
+}
+
+function readCheckpoint(dir: string): Checkpoint | null {
+  const filePath = join(dir, 'checkpoint.json');
+  if (!existsSync(filePath)) {
+    return null;
+  }
+  try {
+    const record = JSON.parse(readFileSync(filePath, 'utf8')) as Record<string, unknown> | null;
+    if (
+      typeof record?.id !== 'string' ||
+      typeof record.sessionId !== 'string' ||
+      typeof record.messageId !== 'string' ||
+      typeof record.createdAt !== 'string' ||
+      !Array.isArray(record.files)
+    ) {
+      return null;
+    }
+    return {
+      id: record.id,
+      sessionId: record.sessionId,
+      messageId: record.messageId,
+      preview: typeof record.preview === 'string' ? record.preview : '',
+      createdAt: record.createdAt,
+      files: record.files.filter(isCheckpointFile)
+    };
+  } catch {
+    console.warn(`[checkpoints] ignoring unreadable checkpoint at ${filePath}`);
+    return null;
+  }
+}
+
+function writeCheckpoint(dir: string, checkpoint: Checkpoint): void {
+  mkdirSync(dir, { recursive: true });
+  const filePath = join(dir, 'checkpoint.json');
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify(checkpoint, null, 2)}\n`);
+  renameSync(tempPath, filePath);
+}
+
+/**
+ * Saves `relativePath` into the checkpoint unless the turn already did, creating the checkpoint on
+ * its first file. Returns true when the checkpoint changed.
+ */
+export function snapshotFile(
+  agentDir: string,
+  turn: Omit<Checkpoint, 'files'>,
+  relativePath: string
+): boolean {
+  const dir = join(getCheckpointsDir(agentDir), turn.id);
+  const checkpoint = readCheckpoint(dir) ?? { ...turn, files: [] };
+  if (checkpoint.files.some((file) => file.path === relativePath)) {
+    return false;
+  }
+  const sourcePath = join(agentDir, relativePath);
+  const existed = existsSync(sourcePath) && statSync(sourcePath).isFile();
+  if (existed) {
+    const targetPath = join(dir, 'files', relativePath);
+    mkdirSync(dirname(targetPath), { recursive: true });
+    copyFileSync(sourcePath, targetPath);
+  }
+  checkpoint.files.push({ path: relativePath, existed });
+  writeCheckpoint(dir, checkpoint);
+  return true;
+}
+
+/**
+ * Lists checkpoints oldest first.
+ */
+export function listCheckpoints(agentDir: string): Checkpoint[] {
+  const checkpointsDir = getCheckpointsDir(agentDir);
+  if (!existsSync(checkpointsDir)) {
+    return [];
+  }
+  return readdirSync(checkpointsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => readCheckpoint(join(checkpointsDir, entry.name)))
+    .filter((checkpoint): checkpoint is Checkpoint => checkpoint !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Rolls the workspace back to how it was before checkpoint `id`. That checkpoint and every later
+ * one are undone newest first and then deleted, since the changes they guard no longer exist.
+ * Returns the restored paths, or null when the checkpoint does not exist.
+ */
+export function restoreCheckpoint(agentDir: string, id: string): string[] | null {
+  const checkpoints = listCheckpoints(agentDir);
+  const index = checkpoints.findIndex((checkpoint) => checkpoint.id === id);
+  if (index === -1) {
+    return null;
+  }
+  const restored = new Set<string>();
+  for (const checkpoint of checkpoints.slice(index).reverse()) {
+    const dir = join(getCheckpointsDir(agentDir), checkpoint.id);
+    for (const file of checkpoint.files) {
+      const targetPath = join(agentDir, file.path);
+      if (file.existed) {
+        mkdirSync(dirname(targetPath), { recursive: true });
+        copyFileSync(join(dir, 'files', file.path), targetPath);
+      } else {
+        rmSync(targetPath, { force: true });
+      }
+      restored.add(file.path);
+    }
+    rmSync(dir, { recursive: true, force: true });
+  }
+  return Array.from(restored).sort();
+}
+
+/**
+ * Deletes the checkpoints recorded by `sessionId` without touching the workspace. Returns how many
+ * were removed.
+ */
+export function deleteSessionCheckpoints(agentDir: string, sessionId: string): number {
+  const checkpoints = listCheckpoints(agentDir).filter(
+    (checkpoint) => checkpoint.sessionId === sessionId
+  );
+  for (const checkpoint of checkpoints) {
+    rmSync(join(getCheckpointsDir(agentDir), checkpoint.id), { recursive: true, force: true });
+  }
+  return checkpoints.length;
+}
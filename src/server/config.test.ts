@@ -0,0 +1,72 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, test } from 'bun:test';
+
+import {
+  CONFIG_FILE_NAME,
+  DEFAULT_AGENT_CONFIG,
+  loadAgentConfig,
+  parseAgentConfig
+} from './config';
+
+describe('agent config', () => {
+  test('fills unset options with the defaults', () => {
+    expect(parseAgentConfig({ maxTurns: 5 }, 'test')).toEqual({
+      ...DEFAULT_AGENT_CONFIG,
+      maxTurns: 5
+    });
+  });
+
+  test('accepts a custom system prompt and tool lists', () => {
+    const config = parseAgentConfig(
+      {
+        systemPrompt: { custom: 'Be brief.' },
+        settingSources: ['user', 'project'],
+        executable: 'node',
+        allowedTools: ['Read'],
+        disallowedTools: ['Bash']
+      },
+      'test'
+    );
+
+    expect(config.systemPrompt).toEqual({ custom: 'Be brief.' });
+    expect(config.settingSources).toEqual(['user', 'project']);
+    expect(config.executable).toBe('node');
+    expect(config.allowedTools).toEqual(['Read']);
+    expect(config.disallowedTools).toEqual(['Bash']);
+  });
+
+  test('reports every invalid and unknown option at once', () => {
+    expect(() =>
+      parseAgentConfig(
+        { maxThinkingTokens: -1, executable: 'python', allowedTools: 'Read', model: 'x' },
+        'agent-ui.config.json'
+      )
+    ).toThrow(
+      [
+        'Invalid config in agent-ui.config.json:',
+        '  - unknown option "model"',
+        '  - maxThinkingTokens must be a positive integer',
+        '  - executable must be one of bun, deno, node',
+        '  - allowedTools must be an array of tool names'
+      ].join('\n')
+    );
+  });
+
+  test('loads the config file from the agent directory', () => {
+    const agentDir = mkdtempSync(join(tmpdir(), 'agent-config-'));
+    try {
+      expect(loadAgentConfig(agentDir)).toEqual(DEFAULT_AGENT_CONFIG);
+
+      writeFileSync(join(agentDir, CONFIG_FILE_NAME), JSON.stringify({ maxThinkingTokens: 1024 }));
+      expect(loadAgentConfig(agentDir).maxThinkingTokens).toBe(1024);
+
+      expect(() => loadAgentConfig(agentDir, join(agentDir, 'missing.json'))).toThrow(
+        'Config file not found'
+      );
+    } finally {
+      rmSync(agentDir, { recursive: true, force: true });
+    }
+  });
+});
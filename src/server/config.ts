@@ -0,0 +1,164 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import type { Options, SettingSource } from '@anthropic-ai/claude-agent-sdk';
+
+export const CONFIG_FILE_NAME = 'agent-ui.config.json';
+
+export type AgentConfig = {
+  maxThinkingTokens: number;
+  settingSources: SettingSource[];
+  // A custom prompt replaces Claude Code's; 'claude_code' keeps the preset.
+  systemPrompt: 'claude_code' | { custom: string };
+  // Appended to the preset system prompt.
+  appendSystemPrompt?: string;
+  executable: NonNullable<Options['executable']>;
+  maxTurns?: number;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+};
+
+export const DEFAULT_AGENT_CONFIG: AgentConfig = {
+  maxThinkingTokens: 32_000,
+  settingSources: ['project'],
+  systemPrompt: 'claude_code',
+  executable: 'bun'
+};
+
+const SETTING_SOURCES: SettingSource[] = ['user', 'project', 'local'];
+const EXECUTABLES: AgentConfig['executable'][] = ['bun', 'deno', 'node'];
+const CONFIG_KEYS = new Set([
+  'maxThinkingTokens',
+  'settingSources',
+  'systemPrompt',
+  'appendSystemPrompt',
+  'executable',
+  'maxTurns',
+  'allowedTools',
+  'disallowedTools'
+]);
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim());
+}
+
+/**
+ * Validates a parsed config object against the defaults. Every problem is reported at once so a
+ * broken file can be fixed in one pass.
+ */
+export function parseAgentConfig(value: unknown, source: string): AgentConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid config in ${source}: expected a JSON object.`);
+  }
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const config: AgentConfig = { ...DEFAULT_AGENT_CONFIG };
+
+  Object.keys(record)
+    .filter((key) => !CONFIG_KEYS.has(key))
+    .forEach((key) => errors.push(`unknown option "${key}"`));
+
+  if (record.maxThinkingTokens !== undefined) {
+    if (isPositiveInteger(record.maxThinkingTokens)) {
+      config.maxThinkingTokens = record.maxThinkingTokens;
+    } else {
+      errors.push('maxThinkingTokens must be a positive integer');
+    }
+  }
+
+  if (record.settingSources !== undefined) {
+    const sources = record.settingSources;
+    if (
+      Array.isArray(sources) &&
+      sources.every((source) => SETTING_SOURCES.includes(source as SettingSource))
+    ) {
+      config.settingSources = sources as SettingSource[];
+    } else {
+      errors.push(`settingSources must be an array of ${SETTING_SOURCES.join(', ')}`);
+    }
+  }
+
+  if (record.systemPrompt !== undefined) {
+    const systemPrompt = record.systemPrompt;
+    if (systemPrompt === 'claude_code') {
+      config.systemPrompt = 'claude_code';
+    } else if (
+      systemPrompt &&
+      typeof systemPrompt === 'object' &&
+      typeof (systemPrompt as { custom?: unknown }).custom === 'string' &&
+      (systemPrompt as { custom: string }).custom.trim()
+    ) {
+      config.systemPrompt = { custom: (systemPrompt as { custom: string }).custom };
+    } else {
+      errors.push('systemPrompt must be "claude_code" or { "custom": "<prompt>" }');
+    }
+  }
+
+  if (record.appendSystemPrompt !== undefined) {
+    if (typeof record.appendSystemPrompt !== 'string') {
+      errors.push('appendSystemPrompt must be a string');
+    } else if (config.systemPrompt !== 'claude_code') {
+      errors.push('appendSystemPrompt only applies to the "claude_code" systemPrompt');
+    } else {
+      config.appendSystemPrompt = record.appendSystemPrompt;
+    }
+  }
+
+  if (record.executable !== undefined) {
+    if (EXECUTABLES.includes(record.executable as AgentConfig['executable'])) {
+      config.executable = record.executable as AgentConfig['executable'];
+    } else {
+      errors.push(`executable must be one of ${EXECUTABLES.join(', ')}`);
+    }
+  }
+
+  if (record.maxTurns !== undefined) {
+    if (isPositiveInteger(record.maxTurns)) {
+      config.maxTurns = record.maxTurns;
+    } else {
+      errors.push('maxTurns must be a positive integer');
+    }
+  }
+
+  for (const key of ['allowedTools', 'disallowedTools'] as const) {
+    if (record[key] === undefined) {
+      continue;
+    }
+    if (isStringArray(record[key])) {
+      config[key] = record[key];
+    } else {
+      errors.push(`${key} must be an array of tool names`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config in ${source}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+  return config;
+}
+
+/**
+ * Loads `--config <path>` when given, otherwise `agent-ui.config.json` in the agent directory if
+ * it exists, falling back to the defaults.
+ */
+export function loadAgentConfig(agentDir: string, configPath?: string): AgentConfig {
+  const filePath = configPath ? resolve(configPath) : join(agentDir, CONFIG_FILE_NAME);
+  if (!existsSync(filePath)) {
+    if (configPath) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+    return { ...DEFAULT_AGENT_CONFIG };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid config in ${filePath}: ${error instanceof Error ? error.message : 'unreadable JSON'}`
+    );
+  }
+  return parseAgentConfig(parsed, filePath);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'bun:test';
+
+import { getNextCronTime, parseCron } from './cron';
+
+function next(expression: string, after: Date): Date | null {
+  return getNextCronTime(parseCron(expression), after);
+}
+
+describe('cron', () => {
+  test('parses lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron('5/20 * * * 7').minutes]).toEqual([5, 25, 45]);
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  test('reports every invalid field', () => {
+    expect(() => parseCron('0 0 * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 24 * * *')).toThrow(/minute "60".*; hour "24"/);
+    expect(() => parseCron('0 0 5-1 * *')).toThrow('day of month "5-1"');
+  });
+
+  test('finds the next matching minute', () => {
+    const after = new Date(2025, 0, 15, 10, 30, 45);
+
+    expect(next('* * * * *', after)).toEqual(new Date(2025, 0, 15, 10, 31));
+    expect(next('0 2 * * *', after)).toEqual(new Date(2025, 0, 16, 2, 0));
+    expect(next('@hourly', after)).toEqual(new Date(2025, 0, 15, 11, 0));
+    // 2025-01-15 is a Wednesday.
+    expect(next('30 9 * * 1', after)).toEqual(new Date(2025, 0, 20, 9, 30));
+    expect(next('0 0 1 3 *', after)).toEqual(new Date(2025, 2, 1, 0, 0));
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // The 20th, or any Friday (the 17th comes first).
+    expect(next('0 8 20 * 5', new Date(2025, 0, 15, 12, 0))).toEqual(new Date(2025, 0, 17, 8, 0));
+  });
+
+  test('needs both day fields when one of them starts with *', () => {
+    // An odd day that is also a Monday: the 20th is even, so the 27th.
+    expect(next('0 9 */2 * 1', new Date(2025, 0, 15, 12, 0))).toEqual(new Date(2025, 0, 27, 9, 0));
+  });
+
+  test('returns null for dates that never exist', () => {
+    expect(next('0 0 30 2 *', new Date(2025, 0, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week) in server local time.
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // As in cron, when both day fields are restricted a day matches if either one does. A field
+  // starting with `*` (such as `*/2`) does not count as restricted.
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+};
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 7 is accepted as another Sunday.
+  { name: 'day of week', min: 0, max: 7 }
+] as const;
+
+// Searching further than this means the expression can never match, e.g. "0 0 30 2 *".
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+function parseNumber(value: string, min: number, max: number): number | null {
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+  const number = Number(value);
+  return number >= min && number <= max ? number : null;
+}
+
+function parseField(value: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of value.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText, 1, max);
+    if (step === null || part.split('/').length > 2) {
+      return null;
+    }
+    let start: number | null;
+    let end: number | null;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [startText, endText] = range.split('-');
+      start = parseNumber(startText, min, max);
+      end = parseNumber(endText, min, max);
+    } else {
+      start = parseNumber(range, min, max);
+      // "5/15" means every 15 starting at 5.
+      end = stepText === undefined ? start : max;
+    }
+    if (start === null || end === null || start > end) {
+      return null;
+    }
+    for (let current = start; current <= end; current += step) {
+      values.add(current);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses a cron expression, reporting every invalid field at once.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week).`
+    );
+  }
+
+  const errors: string[] = [];
+  const parsed = fields.map((field, index) => {
+    const { name, min, max } = FIELDS[index];
+    const values = parseField(field, min, max);
+    if (!values) {
+      errors.push(`${name} "${field}" must use numbers ${min}-${max}, *, ranges, steps or lists`);
+    }
+    return values ?? new Set<number>();
+  });
+  if (errors.length > 0) {
+    throw new Error(`Invalid cron expression "${expression}": ${errors.join('; ')}.`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed;
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: !fields[2].startsWith('*'),
+    restrictsDayOfWeek: !fields[4].startsWith('*')
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the first minute after `after` that the schedule matches, or null when it never does.
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_MINUTES * 60_000;
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
@@ -2,6 +2,8 @@ import type { Dirent } from 'fs';
 import { readdir, stat } from 'fs/promises';
 import { basename, join, relative, resolve } from 'path';
 
+import { AGENT_STATE_DIR_NAME } from '../shared/constants';
+
 export type DirectoryEntry = {
   path: string;
   type: 'file' | 'dir';
@@ -36,7 +38,14 @@ export type DirectoryTree = {
   truncated: boolean;
 };
 
-const DEFAULT_IGNORES = new Set(['.git', 'node_modules', 'out', 'dist', 'tmp']);
+export const DEFAULT_IGNORES = new Set([
+  '.git',
+  'node_modules',
+  'out',
+  'dist',
+  'tmp',
+  AGENT_STATE_DIR_NAME
+]);
 
 export async function buildDirectoryInfo(
   root: string,
@@ -0,0 +1,39 @@
+export type Frontmatter = {
+  attributes: Record<string, string>;
+  body: string;
+};
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+function unquote(value: string): string {
+  if (/^".*"$/.test(value)) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  const quoted = /^'(.*)'$/.exec(value);
+  return quoted ? quoted[1] : value;
+}
+
+/**
+ * Splits a markdown file into its `---` frontmatter and body. Only flat `key: value` pairs are
+ * read, which covers the files Claude Code loads from `.claude/`.
+ */
+export function parseFrontmatter(text: string): Frontmatter {
+  const match = FRONTMATTER_PATTERN.exec(text);
+  if (!match) {
+    return { attributes: {}, body: text };
+  }
+  const attributes: Record<string, string> = {};
+  match[1].split(/\r?\n/).forEach((line) => {
+    const separator = line.indexOf(':');
+    if (separator <= 0 || line.trimStart().startsWith('#')) {
+      return;
+    }
+    const key = line.slice(0, separator).trim();
+    attributes[key] = unquote(line.slice(separator + 1).trim());
+  });
+  return { attributes, body: text.slice(match[0].length) };
+}
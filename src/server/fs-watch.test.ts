@@ -0,0 +1,127 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, test } from 'bun:test';
+
+import type { FsChangePayload } from '../shared/types/fs-change';
+import { diffFsEntries, isIgnoredPath, isServerLogPath, watchWorkspace } from './fs-watch';
+
+describe('fs-watch', () => {
+  test('ignores paths inside ignored directories at any depth', () => {
+    expect(isIgnoredPath('node_modules/react/index.js')).toBe(true);
+    expect(isIgnoredPath('packages/app/dist/main.js')).toBe(true);
+    expect(isIgnoredPath('.agent-ui/sessions/a/transcript.jsonl')).toBe(true);
+    expect(isIgnoredPath('src/distance.ts')).toBe(false);
+  });
+
+  test('recognizes the server log files but not other logs', () => {
+    expect(isServerLogPath('logs/agent-2025-01-01T00-00-00-000Z-1a2b3c4d.log')).toBe(true);
+    expect(isServerLogPath('logs/nightly.log')).toBe(false);
+    expect(isServerLogPath('app/logs/agent-1.log')).toBe(false);
+  });
+
+  test('sorts touched paths into added, changed and removed', () => {
+    const known = new Map<string, 'file' | 'dir'>([
+      ['notes.md', 'file'],
+      ['src', 'dir'],
+      ['src/a.ts', 'file'],
+      ['old', 'dir'],
+      ['old/b.ts', 'file']
+    ]);
+    const change = diffFsEntries(
+      known,
+      new Map([
+        ['notes.md', 'file'],
+        ['src', 'dir'],
+        ['src/new.ts', 'file'],
+        ['old/b.ts', null],
+        ['old', null],
+        ['tmp-file', null]
+      ])
+    );
+
+    expect(change).toEqual({
+      added: [{ path: 'src/new.ts', type: 'file' }],
+      changed: ['notes.md'],
+      removed: ['old']
+    });
+    expect([...known.keys()].sort()).toEqual(['notes.md', 'src', 'src/a.ts', 'src/new.ts']);
+  });
+
+  test('replaces an entry whose type changed', () => {
+    const known = new Map<string, 'file' | 'dir'>([['build', 'file']]);
+    const change = diffFsEntries(
+      known,
+      new Map<string, 'file' | 'dir' | null>([
+        ['build', 'dir'],
+        ['build/out.js', 'file']
+      ])
+    );
+
+    expect(change.removed).toEqual(['build']);
+    expect(change.added).toEqual([
+      { path: 'build', type: 'dir' },
+      { path: 'build/out.js', type: 'file' }
+    ]);
+  });
+
+  test('reports changes made in the watched directory', async () => {
+    const agentDir = mkdtempSync(join(tmpdir(), 'fs-watch-'));
+    writeFileSync(join(agentDir, 'existing.txt'), 'v1');
+    const changes: FsChangePayload[] = [];
+    const stop = await watchWorkspace(agentDir, (change) => changes.push(change));
+
+    try {
+      mkdirSync(join(agentDir, 'src'));
+      writeFileSync(join(agentDir, 'src', 'main.ts'), 'export {};');
+      writeFileSync(join(agentDir, 'existing.txt'), 'v2');
+      mkdirSync(join(agentDir, 'node_modules'));
+      writeFileSync(join(agentDir, 'node_modules', 'ignored.js'), '');
+
+      const deadline = Date.now() + 3000;
+      while (Date.now() < deadline && changes.length === 0) {
+        await Bun.sleep(50);
+      }
+      await Bun.sleep(300);
+
+      const added = changes.flatMap((change) => change.added.map((entry) => entry.path));
+      const changed = changes.flatMap((change) => change.changed);
+      expect(added.sort()).toEqual(['src', 'src/main.ts']);
+      expect(changed).toContain('existing.txt');
+    } finally {
+      stop();
+      rmSync(agentDir, { recursive: true, force: true });
+    }
+  });
+
+  test('reports changes while writes keep coming', async () => {
+    const agentDir = mkdtempSync(join(tmpdir(), 'fs-watch-'));
+    const changes: Array<{ at: number; change: FsChangePayload }> = [];
+    const stop = await watchWorkspace(agentDir, (change) =>
+      changes.push({ at: Date.now(), change })
+    );
+
+    try {
+      mkdirSync(join(agentDir, 'logs'));
+      const serverLog = join(agentDir, 'logs', 'agent-2025-01-01T00-00-00-000Z-1a2b3c4d.log');
+      const writesEndAt = Date.now() + 2000;
+      for (let index = 0; Date.now() < writesEndAt; index += 1) {
+        writeFileSync(join(agentDir, 'progress.txt'), `step ${index}`);
+        writeFileSync(serverLog, `line ${index}\n`, { flag: 'a' });
+        await Bun.sleep(50);
+      }
+
+      expect(changes.length).toBeGreaterThan(0);
+      expect(changes[0].at).toBeLessThan(writesEndAt - 500);
+      const paths = changes.flatMap(({ change }) => [
+        ...change.added.map((entry) => entry.path),
+        ...change.changed
+      ]);
+      expect(paths).toContain('progress.txt');
+      expect(paths.some((path) => path.startsWith('logs/agent-'))).toBe(false);
+    } finally {
+      stop();
+      rmSync(agentDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,181 @@
+import { watch } from 'fs';
+import { stat } from 'fs/promises';
+import { join } from 'path';
+
+import type { FsChangeEntry, FsChangePayload } from '../shared/types/fs-change';
+import { buildDirectoryInfo, DEFAULT_IGNORES } from './dir-info';
+
+type EntryType = FsChangeEntry['type'];
+
+const DEBOUNCE_MS = 200;
+// Files written constantly (e.g. while the agent streams) still get reported this often.
+const MAX_WAIT_MS = 1000;
+const MAX_KNOWN_ENTRIES = 50_000;
+
+export function isIgnoredPath(
+  relativePath: string,
+  ignores: Set<string> = DEFAULT_IGNORES
+): boolean {
+  return relativePath.split(/[\\/]/).some((segment) => ignores.has(segment));
+}
+
+// The session's own SDK logs, appended to on every message; see Session.createLogStream.
+export function isServerLogPath(relativePath: string): boolean {
+  return /^logs[\\/]agent-[^\\/]*\.log$/.test(relativePath);
+}
+
+export function isEmptyFsChange(change: FsChangePayload): boolean {
+  return change.added.length === 0 && change.changed.length === 0 && change.removed.length === 0;
+}
+
+/**
+ * Compares what the touched paths are now (`null` when they are gone) with what was known about
+ * them, and updates `known` to match. Parents are handled before their children, so removing a
+ * directory drops everything under it without listing each entry.
+ */
+export function diffFsEntries(
+  known: Map<string, EntryType>,
+  current: Map<string, EntryType | null>
+): FsChangePayload {
+  const change: FsChangePayload = { added: [], changed: [], removed: [] };
+  const paths = [...current.keys()].sort((a, b) => a.length - b.length || a.localeCompare(b));
+
+  for (const path of paths) {
+    const type = current.get(path) ?? null;
+    const previous = known.get(path);
+
+    if (previous && previous !== type) {
+      change.removed.push(path);
+      for (const knownPath of [...known.keys()]) {
+        if (knownPath === path || knownPath.startsWith(`${path}/`)) {
+          known.delete(knownPath);
+        }
+      }
+    }
+    if (!type) {
+      continue;
+    }
+    if (previous === type) {
+      if (type === 'file') {
+        change.changed.push(path);
+      }
+    } else {
+      change.added.push({ path, type });
+      known.set(path, type);
+    }
+  }
+
+  return change;
+}
+
+async function getEntryType(fullPath: string): Promise<EntryType | null> {
+  try {
+    const info = await stat(fullPath);
+    return (
+      info.isDirectory() ? 'dir'
+      : info.isFile() ? 'file'
+      : null
+    );
+  } catch {
+    return null;
+  }
+}
+
+async function listEntries(dir: string): Promise<Array<{ path: string; type: EntryType }>> {
+  const info = await buildDirectoryInfo(dir, {
+    maxDepth: Number.POSITIVE_INFINITY,
+    maxEntries: MAX_KNOWN_ENTRIES
+  });
+  return info.entries;
+}
+
+/**
+ * Watches the agent directory recursively and reports debounced batches of changes, at least once
+ * a second while writes continue. Skips the same directories as the directory tree and the
+ * server's own logs. Returns a function that stops watching.
+ */
+export async function watchWorkspace(
+  agentDir: string,
+  onChange: (change: FsChangePayload) => void
+): Promise<() => void> {
+  const known = new Map<string, EntryType>();
+  for (const entry of await listEntries(agentDir)) {
+    known.set(entry.path, entry.type);
+  }
+
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let batchStartedAt: number | null = null;
+  let isFlushing = false;
+
+  const schedule = () => {
+    batchStartedAt ??= Date.now();
+    if (timer) {
+      clearTimeout(timer);
+    }
+    const untilMaxWait = batchStartedAt + MAX_WAIT_MS - Date.now();
+    timer = setTimeout(() => void flush(), Math.max(0, Math.min(DEBOUNCE_MS, untilMaxWait)));
+  };
+
+  const flush = async () => {
+    timer = null;
+    batchStartedAt = null;
+    if (isFlushing) {
+      schedule();
+      return;
+    }
+    isFlushing = true;
+    try {
+      const paths = [...pending];
+      pending.clear();
+      const current = new Map<string, EntryType | null>();
+      for (const path of paths) {
+        current.set(path, await getEntryType(join(agentDir, path)));
+      }
+
+      // A directory moved or copied in may only report itself, so list what it holds.
+      for (const [path, type] of [...current]) {
+        if (type !== 'dir' || known.get(path) === 'dir') {
+          continue;
+        }
+        for (const entry of await listEntries(join(agentDir, path))) {
+          const entryPath = join(path, entry.path);
+          if (!current.has(entryPath) && !isServerLogPath(entryPath)) {
+            current.set(entryPath, entry.type);
+          }
+        }
+      }
+
+      const change = diffFsEntries(known, current);
+      if (!isEmptyFsChange(change)) {
+        onChange(change);
+      }
+    } catch (error) {
+      console.error('[fs-watch] failed to read changes', error);
+    } finally {
+      isFlushing = false;
+    }
+  };
+
+  const watcher = watch(agentDir, { recursive: true }, (_event, filename) => {
+    if (!filename) {
+      return;
+    }
+    const path = filename.toString();
+    if (isIgnoredPath(path) || isServerLogPath(path)) {
+      return;
+    }
+    pending.add(path);
+    schedule();
+  });
+  watcher.on('error', (error) => {
+    console.error('[fs-watch] watcher error', error);
+  });
+
+  return () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    watcher.close();
+  };
+}
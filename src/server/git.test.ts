@@ -0,0 +1,88 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { commitStaged, getGitDiff, getGitStatus, parseGitStatus, setFilesStaged } from './git';
+
+describe('parseGitStatus', () => {
+  test('reads modified, untracked and renamed entries', () => {
+    const output = [' M src/a.ts', '?? notes.md', 'R  new.ts', 'old.ts', ''].join('\0');
+    expect(parseGitStatus(output)).toEqual([
+      { path: 'src/a.ts', index: ' ', worktree: 'M' },
+      { path: 'notes.md', index: '?', worktree: '?' },
+      { path: 'new.ts', originalPath: 'old.ts', index: 'R', worktree: ' ' }
+    ]);
+  });
+
+  test('strips the agent directory prefix and skips the state directory', () => {
+    const output = [' M app/src/a.ts', '?? app/.agent-ui/model.json', ''].join('\0');
+    expect(parseGitStatus(output, 'app/')).toEqual([
+      { path: 'src/a.ts', index: ' ', worktree: 'M' }
+    ]);
+  });
+});
+
+describe('git workspace', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'git-'));
+    await Bun.spawn(['git', 'init', '--quiet'], { cwd: dir }).exited;
+    await Bun.spawn(['git', 'config', 'user.email', 'test@example.com'], { cwd: dir }).exited;
+    await Bun.spawn(['git', 'config', 'user.name', 'Test'], { cwd: dir }).exited;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reports a directory outside any repository', async () => {
+    const outside = mkdtempSync(join(tmpdir(), 'no-git-'));
+    try {
+      expect(await getGitStatus(outside)).toEqual({ isRepo: false });
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  test('stages, commits and diffs against an earlier commit', async () => {
+    writeFileSync(join(dir, 'a.txt'), 'one\n');
+    expect(await setFilesStaged(dir, ['a.txt'], true)).toBeNull();
+    const first = await commitStaged(dir, 'first');
+    expect('commit' in first).toBe(true);
+
+    writeFileSync(join(dir, 'a.txt'), 'two\n');
+    writeFileSync(join(dir, 'b.txt'), 'new\n');
+    const status = await getGitStatus(dir);
+    expect(status.isRepo && status.files.map((file) => file.path)).toEqual(['a.txt', 'b.txt']);
+
+    const diff = await getGitDiff(dir, {
+      base: 'commit' in first ? first.commit : null
+    });
+    expect(diff.diff).toContain('+two');
+    expect(diff.diff).toContain('+new');
+    expect((await getGitDiff(dir, { path: 'b.txt' })).diff).not.toContain('+two');
+  });
+
+  test('refuses to commit changes staged outside the agent directory', async () => {
+    const agentDir = join(dir, 'app');
+    mkdirSync(agentDir);
+    writeFileSync(join(dir, 'outside.txt'), 'outside\n');
+    writeFileSync(join(agentDir, 'inside.txt'), 'inside\n');
+    await Bun.spawn(['git', 'add', '--all'], { cwd: dir }).exited;
+
+    expect(await commitStaged(agentDir, 'workspace')).toEqual({
+      error:
+        'Changes outside the agent directory are staged: outside.txt. Unstage them before committing here.'
+    });
+
+    await Bun.spawn(['git', 'rm', '--cached', '--quiet', 'outside.txt'], { cwd: dir }).exited;
+    expect('commit' in (await commitStaged(agentDir, 'workspace'))).toBe(true);
+  });
+
+  test('returns git errors instead of throwing', async () => {
+    const result = await commitStaged(dir, 'nothing staged');
+    expect('error' in result).toBe(true);
+  });
+});
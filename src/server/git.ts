@@ -0,0 +1,200 @@
+import { AGENT_STATE_DIR_NAME } from '../shared/constants';
+import type { GitDiffPayload, GitFileChange, GitStatusPayload } from '../shared/types/git';
+
+const GIT_TIMEOUT_MS = 15_000;
+const MAX_DIFF_LENGTH = 512 * 1024;
+// Git's well-known empty tree, used as the base before the first commit.
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+type GitResult = { exitCode: number | null; stdout: string; stderr: string };
+
+async function runGit(cwd: string, args: string[]): Promise<GitResult> {
+  const proc = Bun.spawn(['git', ...args], {
+    cwd,
+    stdout: 'pipe',
+    stderr: 'pipe',
+    env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+  });
+  const timer = setTimeout(() => proc.kill(), GIT_TIMEOUT_MS);
+  try {
+    const [stdout, stderr, exitCode] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited
+    ]);
+    return { exitCode: proc.signalCode ? null : exitCode, stdout, stderr };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function gitError(result: GitResult, fallback: string): string {
+  return (result.stderr || result.stdout).trim() || fallback;
+}
+
+/**
+ * Parses `git status --porcelain=v1 -z`, whose paths are relative to the repository root; `prefix`
+ * is the agent directory's path inside the repository. The agent UI's state directory is left out.
+ */
+export function parseGitStatus(output: string, prefix = ''): GitFileChange[] {
+  const strip = (path: string) => (path.startsWith(prefix) ? path.slice(prefix.length) : path);
+  const fields = output.split('\0');
+  const files: GitFileChange[] = [];
+  for (let i = 0; i < fields.length; i += 1) {
+    const field = fields[i];
+    if (field.length < 4) {
+      continue;
+    }
+    const change: GitFileChange = {
+      path: strip(field.slice(3)),
+      index: field[0],
+      worktree: field[1]
+    };
+    if (change.index === 'R' || change.index === 'C') {
+      // Renames and copies are followed by the original path.
+      change.originalPath = strip(fields[i + 1]);
+      i += 1;
+    }
+    if (change.path.split('/')[0] !== AGENT_STATE_DIR_NAME) {
+      files.push(change);
+    }
+  }
+  return files;
+}
+
+export async function isGitRepo(agentDir: string): Promise<boolean> {
+  const result = await runGit(agentDir, ['rev-parse', '--is-inside-work-tree']);
+  return result.exitCode === 0 && result.stdout.trim() === 'true';
+}
+
+export async function getHeadCommit(agentDir: string): Promise<string | null> {
+  const result = await runGit(agentDir, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+  return result.exitCode === 0 ? result.stdout.trim() : null;
+}
+
+export async function getGitStatus(agentDir: string): Promise<GitStatusPayload> {
+  if (!(await isGitRepo(agentDir))) {
+    return { isRepo: false };
+  }
+  const [prefix, branch, head, status] = await Promise.all([
+    runGit(agentDir, ['rev-parse', '--show-prefix']),
+    runGit(agentDir, ['symbolic-ref', '--short', '--quiet', 'HEAD']),
+    getHeadCommit(agentDir),
+    runGit(agentDir, ['status', '--porcelain=v1', '-z', '--untracked-files=all', '--', '.'])
+  ]);
+  if (status.exitCode !== 0) {
+    throw new Error(gitError(status, 'git status failed'));
+  }
+  return {
+    isRepo: true,
+    branch: branch.exitCode === 0 ? branch.stdout.trim() : null,
+    head,
+    files: parseGitStatus(status.stdout, prefix.stdout.trim())
+  };
+}
+
+/**
+ * Diffs the working tree against `base` (HEAD by default), optionally for one path. Untracked
+ * files are shown as added.
+ */
+export async function getGitDiff(
+  agentDir: string,
+  options: { base?: string | null; path?: string } = {}
+): Promise<GitDiffPayload> {
+  const head = await getHeadCommit(agentDir);
+  const base = options.base ?? head;
+  const pathArgs = options.path ? [options.path] : ['.'];
+  const tracked = await runGit(agentDir, [
+    'diff',
+    '--no-color',
+    '--no-ext-diff',
+    base ?? EMPTY_TREE,
+    '--',
+    ...pathArgs
+  ]);
+  if (tracked.exitCode !== 0) {
+    throw new Error(gitError(tracked, 'git diff failed'));
+  }
+
+  const untracked = await runGit(agentDir, [
+    'ls-files',
+    '--others',
+    '--exclude-standard',
+    '-z',
+    '--',
+    ...pathArgs
+  ]);
+  const untrackedPaths = untracked.stdout
+    .split('\0')
+    .filter((path) => path && path.split('/')[0] !== AGENT_STATE_DIR_NAME);
+  let diff = tracked.stdout;
+  for (const path of untrackedPaths) {
+    if (diff.length > MAX_DIFF_LENGTH) {
+      break;
+    }
+    // `--no-index` exits with 1 when the files differ, which is always the case here.
+    const added = await runGit(agentDir, [
+      'diff',
+      '--no-color',
+      '--no-index',
+      '--',
+      '/dev/null',
+      path
+    ]);
+    diff += added.stdout;
+  }
+
+  const truncated = diff.length > MAX_DIFF_LENGTH;
+  return { diff: truncated ? diff.slice(0, MAX_DIFF_LENGTH) : diff, base, truncated };
+}
+
+/**
+ * Stages or unstages `paths`. Returns an error message on failure.
+ */
+export async function setFilesStaged(
+  agentDir: string,
+  paths: string[],
+  staged: boolean
+): Promise<string | null> {
+  const args =
+    staged ? ['add', '--all', '--', ...paths]
+    : (await getHeadCommit(agentDir)) ? ['restore', '--staged', '--', ...paths]
+    : ['rm', '--cached', '--quiet', '-r', '--', ...paths];
+  const result = await runGit(agentDir, args);
+  return result.exitCode === 0 ? null : gitError(result, `git ${args[0]} failed`);
+}
+
+/**
+ * Commits the staged changes and returns the new commit, or an error message. When the agent
+ * directory is inside a larger repository, changes staged outside it are refused rather than
+ * committed along with the workspace.
+ */
+export async function commitStaged(
+  agentDir: string,
+  message: string
+): Promise<{ commit: string } | { error: string }> {
+  const outside = await runGit(agentDir, [
+    'diff',
+    '--cached',
+    '--name-only',
+    '-z',
+    '--',
+    ':(top)',
+    ':(exclude).'
+  ]);
+  if (outside.exitCode !== 0) {
+    return { error: gitError(outside, 'git diff failed') };
+  }
+  const outsidePaths = outside.stdout.split('\0').filter(Boolean);
+  if (outsidePaths.length > 0) {
+    return {
+      error: `Changes outside the agent directory are staged: ${outsidePaths.join(', ')}. Unstage them before committing here.`
+    };
+  }
+  const result = await runGit(agentDir, ['commit', '--quiet', '-m', message]);
+  if (result.exitCode !== 0) {
+    return { error: gitError(result, 'git commit failed') };
+  }
+  const commit = await getHeadCommit(agentDir);
+  return commit ? { commit } : { error: 'git commit did not create a commit' };
+}
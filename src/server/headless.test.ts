@@ -0,0 +1,86 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import type { Session } from './agent-session';
+import { createHeadlessRun, getTurnOutcome, HEADLESS_TIMEOUT_EXIT_CODE } from './headless';
+
+function result(fields: Partial<SDKResultMessage>): SDKResultMessage {
+  return {
+    type: 'result',
+    subtype: 'success',
+    is_error: false,
+    result: 'done',
+    ...fields
+  } as SDKResultMessage;
+}
+
+function fakeSession(transcriptPath: string): Session & { stopped: boolean } {
+  const session = {
+    stopped: false,
+    stop: async () => {
+      session.stopped = true;
+    },
+    getTranscriptPath: () => transcriptPath,
+    getMessages: () => [
+      { id: '0', role: 'user', content: 'Fix the build', timestamp: '2025-01-01T00:00:00.000Z' }
+    ]
+  };
+  return session as unknown as Session & { stopped: boolean };
+}
+
+describe('headless', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'headless-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reads the outcome of a result message', () => {
+    expect(getTurnOutcome(result({}))).toEqual({ isError: false });
+    expect(getTurnOutcome(result({ is_error: true, result: 'API Error: 500' }))).toEqual({
+      isError: true,
+      error: 'API Error: 500'
+    });
+    expect(
+      getTurnOutcome(result({ subtype: 'error_max_turns', is_error: true, errors: [] }))
+    ).toEqual({ isError: true, error: 'error_max_turns' });
+  });
+
+  test('writes the transcript and exits with 0 after a successful turn', async () => {
+    const session = fakeSession(join(dir, 'transcript.jsonl'));
+    const outputPath = join(dir, 'out', 'run.jsonl');
+    const run = createHeadlessRun({ outputPath });
+
+    run.onTurnEnd(session, { isError: false });
+
+    expect(await run.finish(session)).toBe(0);
+    expect(session.stopped).toBe(true);
+    const lines = readFileSync(outputPath, 'utf8').trim().split('\n');
+    expect(JSON.parse(lines[0]).content).toBe('Fix the build');
+  });
+
+  test('exits with 1 when the turn failed', async () => {
+    const session = fakeSession(join(dir, 'transcript.jsonl'));
+    const run = createHeadlessRun({});
+
+    run.onTurnEnd(session, { isError: true, error: 'error_during_execution' });
+
+    expect(await run.finish(session)).toBe(1);
+    expect(readFileSync(join(dir, 'transcript.jsonl'), 'utf8')).toContain('Fix the build');
+  });
+
+  test('stops the agent when the timeout passes first', async () => {
+    const session = fakeSession(join(dir, 'transcript.jsonl'));
+    const run = createHeadlessRun({ timeoutMs: 20 });
+
+    expect(await run.finish(session)).toBe(HEADLESS_TIMEOUT_EXIT_CODE);
+    expect(session.stopped).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+
+import type { Session } from './agent-session';
+import { saveTranscript } from './transcript';
+
+export type TurnOutcome = {
+  isError: boolean;
+  // The SDK's errors, or the result text when the model reported an error.
+  error?: string;
+};
+
+// Same as `timeout(1)`, so scripts can tell a run that ran out of time from one that failed.
+export const HEADLESS_TIMEOUT_EXIT_CODE = 124;
+
+export function getTurnOutcome(result: SDKResultMessage): TurnOutcome {
+  if (result.subtype === 'success') {
+    return result.is_error ? { isError: true, error: result.result } : { isError: false };
+  }
+  return { isError: true, error: result.errors.join('\n') || result.subtype };
+}
+
+export type HeadlessRun = {
+  onTurnEnd: (session: Session, outcome: TurnOutcome) => void;
+  finish: (session: Session) => Promise<number>;
+};
+
+/**
+ * Tracks a `--headless` run. `finish` waits for the session's first turn to end, stops the agent,
+ * writes the transcript and returns the exit code: 0 on success, 1 when the turn failed, or
+ * `HEADLESS_TIMEOUT_EXIT_CODE` when `timeoutMs` passed first.
+ */
+export function createHeadlessRun(options: {
+  outputPath?: string;
+  timeoutMs?: number;
+}): HeadlessRun {
+  let resolveOutcome: (outcome: TurnOutcome | null) => void;
+  const outcomePromise = new Promise<TurnOutcome | null>((resolve) => {
+    resolveOutcome = resolve;
+  });
+
+  return {
+    onTurnEnd: (_session, outcome) => resolveOutcome(outcome),
+    finish: async (session) => {
+      const timer =
+        options.timeoutMs ? setTimeout(() => resolveOutcome(null), options.timeoutMs) : null;
+      const outcome = await outcomePromise;
+      if (timer) {
+        clearTimeout(timer);
+      }
+
+      await session.stop();
+      const outputPath = options.outputPath ?? session.getTranscriptPath();
+      saveTranscript(outputPath, session.getMessages());
+      console.log(`[headless] transcript written to ${outputPath}`);
+
+      if (!outcome) {
+        console.error(`[headless] timed out after ${options.timeoutMs}ms`);
+        return HEADLESS_TIMEOUT_EXIT_CODE;
+      }
+      if (outcome.isError) {
+        console.error(`[headless] run failed: ${outcome.error ?? 'unknown error'}`);
+        return 1;
+      }
+      console.log('[headless] run completed');
+      return 0;
+    }
+  };
+}
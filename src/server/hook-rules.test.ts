@@ -0,0 +1,100 @@
+import { tmpdir } from 'os';
+import type { HookInput } from '@anthropic-ai/claude-agent-sdk';
+import { describe, expect, test } from 'bun:test';
+
+import { parseHookRules, runHookRules, type HookRule } from './hook-rules';
+
+const base = { session_id: 's', transcript_path: '/tmp/t.jsonl', cwd: tmpdir() };
+
+function preToolUse(toolName: string, toolInput: unknown): HookInput {
+  return {
+    ...base,
+    hook_event_name: 'PreToolUse',
+    tool_name: toolName,
+    tool_input: toolInput,
+    tool_use_id: 't1'
+  };
+}
+
+describe('hook rules', () => {
+  test('reports every invalid rule at once', () => {
+    expect(() =>
+      parseHookRules(
+        {
+          hooks: [
+            { event: 'SessionStart', command: 'true' },
+            { event: 'PostToolUse', block: { pattern: 'x' } },
+            { event: 'PreToolUse', matcher: '(', command: 'true', block: { pattern: '[' } }
+          ]
+        },
+        'hooks.json'
+      )
+    ).toThrow(
+      [
+        'Invalid hooks in hooks.json:',
+        '  - hooks[0].event must be one of PreToolUse, PostToolUse, Notification, Stop',
+        '  - hooks[1].block only applies to PreToolUse',
+        '  - hooks[2].matcher must be a valid regular expression',
+        '  - hooks[2] needs exactly one of "block" or "command"',
+        '  - hooks[2].block.pattern must be a valid regular expression'
+      ].join('\n')
+    );
+  });
+
+  test('blocks matching tool input and skips other tools', async () => {
+    const rules: HookRule[] = [
+      { event: 'PreToolUse', matcher: 'Bash', block: { pattern: 'rm\\s+-rf', reason: 'No rm -rf' } }
+    ];
+
+    const blocked = await runHookRules(
+      rules,
+      preToolUse('Bash', { command: 'rm -rf /' }),
+      tmpdir()
+    );
+    expect(blocked.blockedReason).toBe('No rm -rf');
+
+    const allowed = await runHookRules(rules, preToolUse('Bash', { command: 'ls' }), tmpdir());
+    expect(allowed).toEqual({ results: [] });
+
+    // The matcher must match the whole tool name.
+    const otherTool = await runHookRules(
+      rules,
+      preToolUse('BashOutput', { command: 'rm -rf /' }),
+      tmpdir()
+    );
+    expect(otherTool.blockedReason).toBeUndefined();
+  });
+
+  test('runs commands with the hook input on stdin', async () => {
+    const rules: HookRule[] = [
+      {
+        event: 'PreToolUse',
+        command: 'grep -q secret && { echo "Secrets stay put" >&2; exit 2; } || true'
+      },
+      { event: 'PostToolUse', matcher: 'Edit|Write', command: 'echo "formatted $FILE_PATH"' }
+    ];
+
+    const blocked = await runHookRules(
+      rules,
+      preToolUse('Read', { file_path: 'secret.txt' }),
+      tmpdir()
+    );
+    expect(blocked.blockedReason).toBe('Secrets stay put');
+
+    const formatted = await runHookRules(
+      rules,
+      {
+        ...base,
+        hook_event_name: 'PostToolUse',
+        tool_name: 'Edit',
+        tool_input: { file_path: 'src/a.ts' },
+        tool_response: {},
+        tool_use_id: 't2'
+      },
+      tmpdir()
+    );
+    expect(formatted.results).toEqual([
+      { rule: 'PostToolUse(Edit|Write) echo "formatted $FILE_PATH"', output: 'formatted src/a.ts' }
+    ]);
+  });
+});
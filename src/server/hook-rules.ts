@@ -0,0 +1,203 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { HookInput } from '@anthropic-ai/claude-agent-sdk';
+
+import type { HookRuleResult, ObservedHookEvent } from '../shared/types/hooks';
+
+export const HOOKS_FILE_NAME = 'agent-ui.hooks.json';
+
+const HOOK_EVENTS: ObservedHookEvent[] = ['PreToolUse', 'PostToolUse', 'Notification', 'Stop'];
+const DEFAULT_TIMEOUT_MS = 30_000;
+// Exit code that lets a PreToolUse command block the tool call, as in Claude Code hooks.
+const BLOCKING_EXIT_CODE = 2;
+
+export type HookRule = {
+  event: ObservedHookEvent;
+  // Regular expression matched against the whole tool name; omitted matches every tool.
+  matcher?: string;
+  // Blocks PreToolUse calls whose JSON-encoded input matches `pattern`.
+  block?: { pattern: string; reason?: string };
+  // Shell command run in the agent directory with the hook input as JSON on stdin.
+  command?: string;
+  timeoutMs?: number;
+};
+
+export type HookRulesOutcome = {
+  results: HookRuleResult[];
+  blockedReason?: string;
+};
+
+function isValidRegExp(pattern: unknown): pattern is string {
+  if (typeof pattern !== 'string') {
+    return false;
+  }
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateRule(value: unknown, index: number): string[] {
+  const label = `hooks[${index}]`;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [`${label} must be an object`];
+  }
+  const rule = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (!HOOK_EVENTS.includes(rule.event as ObservedHookEvent)) {
+    errors.push(`${label}.event must be one of ${HOOK_EVENTS.join(', ')}`);
+  }
+  if (rule.matcher !== undefined && !isValidRegExp(rule.matcher)) {
+    errors.push(`${label}.matcher must be a valid regular expression`);
+  }
+  if ((rule.block === undefined) === (rule.command === undefined)) {
+    errors.push(`${label} needs exactly one of "block" or "command"`);
+  }
+  if (rule.block !== undefined) {
+    const block = rule.block as { pattern?: unknown; reason?: unknown } | null;
+    if (rule.event !== 'PreToolUse') {
+      errors.push(`${label}.block only applies to PreToolUse`);
+    }
+    if (!isValidRegExp(block?.pattern)) {
+      errors.push(`${label}.block.pattern must be a valid regular expression`);
+    }
+    if (block?.reason !== undefined && typeof block.reason !== 'string') {
+      errors.push(`${label}.block.reason must be a string`);
+    }
+  }
+  if (rule.command !== undefined && (typeof rule.command !== 'string' || !rule.command.trim())) {
+    errors.push(`${label}.command must be a non-empty string`);
+  }
+  if (
+    rule.timeoutMs !== undefined &&
+    !(typeof rule.timeoutMs === 'number' && Number.isInteger(rule.timeoutMs) && rule.timeoutMs > 0)
+  ) {
+    errors.push(`${label}.timeoutMs must be a positive integer`);
+  }
+  return errors;
+}
+
+/**
+ * Validates a hooks file, reporting every invalid rule at once.
+ */
+export function parseHookRules(value: unknown, source: string): HookRule[] {
+  const hooks = (value as { hooks?: unknown } | null)?.hooks;
+  if (!Array.isArray(hooks)) {
+    throw new Error(`Invalid hooks in ${source}: expected { "hooks": [...] }.`);
+  }
+  const errors = hooks.flatMap((rule, index) => validateRule(rule, index));
+  if (errors.length > 0) {
+    throw new Error(`Invalid hooks in ${source}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+  return hooks as HookRule[];
+}
+
+export function loadHookRules(agentDir: string): HookRule[] {
+  const filePath = join(agentDir, HOOKS_FILE_NAME);
+  if (!existsSync(filePath)) {
+    return [];
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid hooks in ${filePath}: ${error instanceof Error ? error.message : 'unreadable JSON'}`
+    );
+  }
+  return parseHookRules(parsed, filePath);
+}
+
+function describeRule(rule: HookRule): string {
+  const target = rule.matcher ? `${rule.event}(${rule.matcher})` : rule.event;
+  return rule.block ? `${target} block /${rule.block.pattern}/` : `${target} ${rule.command}`;
+}
+
+function matchesRule(rule: HookRule, input: HookInput): boolean {
+  if (rule.event !== input.hook_event_name) {
+    return false;
+  }
+  if (!rule.matcher || !('tool_name' in input)) {
+    return true;
+  }
+  return new RegExp(`^(?:${rule.matcher})$`).test(input.tool_name);
+}
+
+async function runCommand(
+  rule: HookRule,
+  input: HookInput,
+  cwd: string
+): Promise<{ exitCode: number | null; stdout: string; stderr: string }> {
+  const toolInput =
+    'tool_input' in input ? (input.tool_input as Record<string, unknown> | null) : null;
+  const proc = Bun.spawn(['sh', '-c', rule.command!], {
+    cwd,
+    stdin: new TextEncoder().encode(JSON.stringify(input)),
+    stdout: 'pipe',
+    stderr: 'pipe',
+    env: {
+      ...process.env,
+      HOOK_EVENT: input.hook_event_name,
+      ...('tool_name' in input ? { TOOL_NAME: input.tool_name } : {}),
+      ...(typeof toolInput?.file_path === 'string' ? { FILE_PATH: toolInput.file_path } : {})
+    }
+  });
+  const timer = setTimeout(() => proc.kill(), rule.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  try {
+    const [stdout, stderr, exitCode] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited
+    ]);
+    return { exitCode: proc.signalCode ? null : exitCode, stdout, stderr };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs the rules matching `input` in file order. A PreToolUse call is blocked by the first
+ * matching `block` pattern or by a command exiting with code 2; later rules still run so their
+ * results are reported.
+ */
+export async function runHookRules(
+  rules: HookRule[],
+  input: HookInput,
+  cwd: string
+): Promise<HookRulesOutcome> {
+  const outcome: HookRulesOutcome = { results: [] };
+  for (const rule of rules.filter((item) => matchesRule(item, input))) {
+    const name = describeRule(rule);
+    if (rule.block) {
+      const toolInput = 'tool_input' in input ? JSON.stringify(input.tool_input) : '';
+      if (new RegExp(rule.block.pattern).test(toolInput)) {
+        const reason = rule.block.reason ?? `Blocked by hook rule /${rule.block.pattern}/`;
+        outcome.blockedReason ??= reason;
+        outcome.results.push({ rule: name, blocked: true, output: reason });
+      }
+      continue;
+    }
+    try {
+      const { exitCode, stdout, stderr } = await runCommand(rule, input, cwd);
+      if (exitCode === null) {
+        outcome.results.push({ rule: name, error: 'Timed out' });
+      } else if (exitCode === BLOCKING_EXIT_CODE && input.hook_event_name === 'PreToolUse') {
+        const reason = stderr.trim() || `Blocked by hook command: ${rule.command}`;
+        outcome.blockedReason ??= reason;
+        outcome.results.push({ rule: name, blocked: true, output: reason });
+      } else if (exitCode !== 0) {
+        outcome.results.push({ rule: name, error: stderr.trim() || `Exited with ${exitCode}` });
+      } else {
+        outcome.results.push({ rule: name, ...(stdout.trim() ? { output: stdout.trim() } : {}) });
+      }
+    } catch (error) {
+      outcome.results.push({
+        rule: name,
+        error: error instanceof Error ? error.message : 'Failed to run hook command'
+      });
+    }
+  }
+  return outcome;
+}
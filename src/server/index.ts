@@ -2,23 +2,73 @@ import { existsSync } from 'fs';
 import { mkdir, stat } from 'fs/promises';
 import { basename, join, relative, resolve } from 'path';
 
-import {
-  enqueueUserMessage,
-  getAgentState,
-  getLogLines,
-  getMessages,
-  getSystemInitInfo,
-  initializeAgent,
-  interruptCurrentResponse
-} from './agent-session';
+import { MAX_ATTACHMENT_BYTES } from '../shared/constants';
+import type { McpConfig } from '../shared/types/mcp';
+import type { PermissionResponsePayload } from '../shared/types/permission';
+import type { UpdateQueuedMessagePayload } from '../shared/types/queue';
+import type { SubagentDefinition } from '../shared/types/subagent';
+import type { Session } from './agent-session';
+import { saveAttachments } from './attachments';
+import { AUTH_TOKEN_ENV, configureAuth, handleAuth, isAuthEnabled, parseAuthTokens } from './auth';
+import { loadAgentConfig } from './config';
 import { buildDirectoryTree } from './dir-info';
-import { createSseClient } from './sse';
-
-type SendMessagePayload = {
-  text?: string;
-};
+import { watchWorkspace } from './fs-watch';
+import { commitStaged, getGitDiff, getGitStatus, setFilesStaged } from './git';
+import { createHeadlessRun } from './headless';
+import { HOOKS_FILE_NAME, loadHookRules } from './hook-rules';
+import { parseMcpConfig } from './mcp-config';
+import { isChatModelPreference } from './model-preference';
+import {
+  createScheduledJob,
+  deleteScheduledJob,
+  initializeScheduler,
+  listScheduledJobs,
+  runScheduledJobNow,
+  stopScheduler,
+  updateScheduledJob
+} from './scheduler';
+import {
+  createSession,
+  forkSession,
+  getCheckpoints,
+  getDefaultSession,
+  getDefaultSessionId,
+  getMcpConfig,
+  getModelPreference,
+  getPromptSettings,
+  getSession,
+  initializeSessions,
+  listSessions,
+  onSessionTurnEnd,
+  restartSessionQueries,
+  restoreWorkspaceCheckpoint,
+  setMcpConfig,
+  setModelPreference,
+  setPromptSettings,
+  stopSessions,
+  waitForWebhookDeliveries
+} from './session-manager';
+import { broadcast, createSseClient } from './sse';
+import { deleteSubagent, listSubagents, parseSubagent, saveSubagent } from './subagents';
+import {
+  EMPTY_TOOL_POLICY,
+  loadToolPolicy,
+  POLICY_FILE_NAME,
+  toAgentRelativePath
+} from './tool-policy';
+import { loadWebhookTargets, WEBHOOKS_FILE_NAME } from './webhooks';
 
-function parseArgs(argv: string[]): { agentDir: string; initialPrompt?: string; port: number } {
+function parseArgs(argv: string[]): {
+  agentDir: string;
+  initialPrompt?: string;
+  resumeSessionId?: string;
+  configPath?: string;
+  port: number;
+  headless: boolean;
+  outputPath?: string;
+  timeoutMs?: number;
+  authTokens: string[];
+} {
   const args = argv.slice(2);
   const getArgValue = (flag: string) => {
     const index = args.indexOf(flag);
@@ -30,13 +80,39 @@ function parseArgs(argv: string[]): { agentDir: string; initialPrompt?: string;
 
   const agentDir = getArgValue('--agent-dir') ?? '';
   const initialPrompt = getArgValue('--prompt') ?? undefined;
+  const resumeSessionId = getArgValue('--resume') ?? undefined;
+  const configPath = getArgValue('--config') ?? undefined;
   const port = Number(getArgValue('--port') ?? 3000);
+  const headless = args.includes('--headless') || args.includes('--exit-on-complete');
+  const outputPath = getArgValue('--output');
+  const timeout = getArgValue('--timeout');
+  const timeoutSeconds = Number(timeout);
+  const authTokens = parseAuthTokens(getArgValue('--auth-token') ?? process.env[AUTH_TOKEN_ENV]);
 
   if (!agentDir) {
     throw new Error('Missing required argument: --agent-dir <path>');
   }
+  if (headless && !initialPrompt?.trim()) {
+    throw new Error('--headless needs a prompt to run: --prompt <text>');
+  }
+  if (!headless && (args.includes('--output') || args.includes('--timeout'))) {
+    throw new Error('--output and --timeout only apply to headless runs: add --headless');
+  }
+  if (timeout !== null && !(timeoutSeconds > 0)) {
+    throw new Error(`Invalid --timeout: expected a number of seconds, got "${timeout}"`);
+  }
 
-  return { agentDir, initialPrompt, port: Number.isNaN(port) ? 3000 : port };
+  return {
+    agentDir,
+    initialPrompt,
+    resumeSessionId,
+    configPath,
+    port: Number.isNaN(port) ? 3000 : port,
+    headless,
+    outputPath: outputPath ? resolve(outputPath) : undefined,
+    timeoutMs: timeout !== null ? timeoutSeconds * 1000 : undefined,
+    authTokens
+  };
 }
 
 async function ensureAgentDir(dir: string): Promise<string> {
@@ -118,6 +194,477 @@ function jsonResponse(body: unknown, status = 200): Response {
   });
 }
 
+function openSessionStream(session: Session): Response {
+  const { client, response } = createSseClient(() => {}, session.id);
+  client.send('chat:init', session.getAgentState());
+  session.getMessages().forEach((message) => {
+    client.send('chat:message-replay', { message });
+  });
+  client.send('chat:logs', { lines: session.getLogLines() });
+  const systemInitInfo = session.getSystemInitInfo();
+  if (systemInitInfo) {
+    client.send('chat:system-init', { info: systemInitInfo });
+  }
+  client.send('chat:usage', session.getUsage());
+  client.send('chat:queue', { items: session.getQueuedMessages() });
+  session.getPendingPermissionRequests().forEach((permissionRequest) => {
+    client.send('chat:permission-request', permissionRequest);
+  });
+  client.send('chat:model', getModelPreference());
+  client.send('chat:prompt-settings', getPromptSettings());
+  client.send('chat:mcp', session.getMcpStatus());
+  client.send('sessions:update', {
+    sessions: listSessions(),
+    defaultSessionId: getDefaultSessionId()
+  });
+  return response;
+}
+
+/**
+ * Reads a send request: JSON `{ text }`, or multipart form data with a `text` field and one
+ * `attachments` entry per file.
+ */
+async function readSendMessageRequest(
+  request: Request
+): Promise<{ text: string; files: File[] } | null> {
+  try {
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const formData = await request.formData();
+      const text = formData.get('text');
+      const files = formData
+        .getAll('attachments')
+        .filter((value): value is File => typeof value !== 'string');
+      return { text: typeof text === 'string' ? text.trim() : '', files };
+    }
+    const payload = (await request.json()) as { text?: string };
+    return { text: payload?.text?.trim() ?? '', files: [] };
+  } catch {
+    return null;
+  }
+}
+
+async function handleSendMessage(session: Session, request: Request): Promise<Response> {
+  const payload = await readSendMessageRequest(request);
+  if (!payload) {
+    return jsonResponse({ success: false, error: 'Invalid message payload.' }, 400);
+  }
+  const { text, files } = payload;
+  if (!text && files.length === 0) {
+    return jsonResponse({ success: false, error: 'Message cannot be empty.' }, 400);
+  }
+  const oversized = files.find((file) => file.size > MAX_ATTACHMENT_BYTES);
+  if (oversized) {
+    return jsonResponse(
+      {
+        success: false,
+        error: `Attachment "${oversized.name}" is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`
+      },
+      413
+    );
+  }
+
+  try {
+    console.log(
+      `[chat] session=${session.id} send text="${text.slice(0, 200)}" attachments=${files.length}`
+    );
+    const attachments = await saveAttachments(session.getAgentState().agentDir, files);
+    session.enqueueUserMessage(text, attachments);
+    return jsonResponse({ success: true, attachments });
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+}
+
+async function handleStopMessage(session: Session): Promise<Response> {
+  try {
+    console.log(`[chat] session=${session.id} stop`);
+    const stopped = await session.interruptCurrentResponse();
+    if (!stopped) {
+      return jsonResponse({ success: false, error: 'No active response to stop.' }, 400);
+    }
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+}
+
+async function handleResetSession(session: Session): Promise<Response> {
+  try {
+    console.log(`[chat] session=${session.id} reset`);
+    await session.reset();
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+}
+
+async function handleForkSession(session: Session, request: Request): Promise<Response> {
+  let payload: { messageId?: unknown };
+  try {
+    payload = (await request.json()) as { messageId?: unknown };
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+  }
+  if (typeof payload?.messageId !== 'string' || !payload.messageId) {
+    return jsonResponse({ success: false, error: 'Expected { messageId }.' }, 400);
+  }
+  try {
+    const fork = forkSession(session, payload.messageId);
+    if (!fork) {
+      return jsonResponse({ success: false, error: 'Message not found.' }, 404);
+    }
+    return jsonResponse({ success: true, session: fork.session.getSummary(), draft: fork.draft });
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+}
+
+async function handleRewindSession(session: Session, request: Request): Promise<Response> {
+  let payload: { messageId?: unknown; text?: unknown };
+  try {
+    payload = (await request.json()) as { messageId?: unknown; text?: unknown };
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+  }
+  if (typeof payload?.messageId !== 'string' || typeof payload.text !== 'string') {
+    return jsonResponse({ success: false, error: 'Expected { messageId, text }.' }, 400);
+  }
+  const message = session.getMessages().find((item) => item.id === payload.messageId);
+  if (!message || message.role !== 'user') {
+    return jsonResponse({ success: false, error: 'User message not found.' }, 404);
+  }
+  if (!payload.text.trim() && !message.attachments?.length) {
+    return jsonResponse({ success: false, error: 'Message text is required.' }, 400);
+  }
+  try {
+    const error = await session.rewindToMessage(payload.messageId, payload.text);
+    if (error) {
+      return jsonResponse({ success: false, error }, 409);
+    }
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+}
+
+async function handleQueueItem(
+  session: Session,
+  itemId: string,
+  request: Request
+): Promise<Response> {
+  if (request.method === 'DELETE') {
+    if (!session.cancelQueuedMessage(itemId)) {
+      return jsonResponse({ success: false, error: 'Queued message not found.' }, 404);
+    }
+    return jsonResponse({ success: true });
+  }
+  if (request.method !== 'PATCH') {
+    return jsonResponse({ success: false, error: 'Method not allowed.' }, 405);
+  }
+  let payload: UpdateQueuedMessagePayload;
+  try {
+    payload = (await request.json()) as UpdateQueuedMessagePayload;
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+  }
+  if (payload?.text !== undefined && (typeof payload.text !== 'string' || !payload.text.trim())) {
+    return jsonResponse({ success: false, error: 'Message cannot be empty.' }, 400);
+  }
+  if (payload?.position !== undefined && !Number.isFinite(payload.position)) {
+    return jsonResponse({ success: false, error: 'Invalid position.' }, 400);
+  }
+  if (!session.updateQueuedMessage(itemId, payload)) {
+    return jsonResponse({ success: false, error: 'Queued message not found.' }, 404);
+  }
+  return jsonResponse({ success: true });
+}
+
+const PERMISSION_DECISIONS = new Set(['allow', 'allow-always', 'deny']);
+
+async function handlePermissionResponse(session: Session, request: Request): Promise<Response> {
+  let payload: PermissionResponsePayload;
+  try {
+    payload = (await request.json()) as PermissionResponsePayload;
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+  }
+  if (!payload?.requestId || !PERMISSION_DECISIONS.has(payload.decision)) {
+    return jsonResponse({ success: false, error: 'Missing requestId or invalid decision.' }, 400);
+  }
+  console.log(
+    `[chat] session=${session.id} permission id=${payload.requestId} decision=${payload.decision}`
+  );
+  if (!session.respondToPermission(payload)) {
+    return jsonResponse({ success: false, error: 'Permission request not found.' }, 404);
+  }
+  return jsonResponse({ success: true });
+}
+
+async function handleSetModelPreference(request: Request): Promise<Response> {
+  let payload: { preference?: unknown };
+  try {
+    payload = (await request.json()) as { preference?: unknown };
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+  }
+  if (!isChatModelPreference(payload?.preference)) {
+    return jsonResponse(
+      { success: false, error: 'Invalid model preference.', ...getModelPreference() },
+      400
+    );
+  }
+  try {
+    const result = await setModelPreference(payload.preference);
+    return jsonResponse({ success: true, ...result });
+  } catch (error) {
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...getModelPreference()
+      },
+      500
+    );
+  }
+}
+
+async function handleSetPromptSettings(request: Request): Promise<Response> {
+  let payload: { appendSystemPrompt?: unknown; outputStyle?: unknown };
+  try {
+    payload = (await request.json()) as { appendSystemPrompt?: unknown; outputStyle?: unknown };
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+  }
+  const { appendSystemPrompt, outputStyle } = payload ?? {};
+  if (typeof appendSystemPrompt !== 'string') {
+    return jsonResponse({ success: false, error: 'appendSystemPrompt must be a string.' }, 400);
+  }
+  if (outputStyle !== null && typeof outputStyle !== 'string') {
+    return jsonResponse({ success: false, error: 'outputStyle must be a string or null.' }, 400);
+  }
+  const { outputStyles } = getPromptSettings();
+  if (outputStyle !== null && !outputStyles.some((style) => style.name === outputStyle)) {
+    return jsonResponse({ success: false, error: `Unknown output style: ${outputStyle}` }, 400);
+  }
+  try {
+    const result = setPromptSettings({ appendSystemPrompt, outputStyle });
+    return jsonResponse({ success: true, ...result });
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+}
+
+async function handleMcpStatus(session: Session): Promise<Response> {
+  try {
+    return jsonResponse(await session.refreshMcpStatus());
+  } catch (error) {
+    console.error('[mcp] failed to read status', error);
+    return jsonResponse(session.getMcpStatus());
+  }
+}
+
+async function handleToggleMcpServer(session: Session, request: Request): Promise<Response> {
+  let payload: { name?: unknown; enabled?: unknown };
+  try {
+    payload = (await request.json()) as { name?: unknown; enabled?: unknown };
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+  }
+  if (typeof payload?.name !== 'string' || typeof payload.enabled !== 'boolean') {
+    return jsonResponse({ success: false, error: 'Expected { name, enabled }.' }, 400);
+  }
+  if (!session.setMcpServerEnabled(payload.name, payload.enabled)) {
+    return jsonResponse({ success: false, error: 'MCP server not found.' }, 404);
+  }
+  return jsonResponse({ success: true, ...session.getMcpStatus() });
+}
+
+async function handleSetMcpConfig(request: Request): Promise<Response> {
+  let config: McpConfig;
+  try {
+    config = parseMcpConfig(await request.json());
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Invalid JSON payload.' },
+      400
+    );
+  }
+  try {
+    return jsonResponse({ success: true, ...setMcpConfig(config) });
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+}
+
+async function handleSaveSubagent(
+  agentDir: string,
+  request: Request,
+  previousName?: string
+): Promise<Response> {
+  let agent: SubagentDefinition;
+  try {
+    agent = parseSubagent(await request.json());
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Invalid JSON payload.' },
+      400
+    );
+  }
+  try {
+    const error = saveSubagent(agentDir, agent, previousName);
+    if (error) {
+      return jsonResponse({ success: false, error }, previousName ? 404 : 409);
+    }
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+  console.log(
+    `[agents] saved name=${agent.name}${previousName ? ` previous=${previousName}` : ''}`
+  );
+  restartSessionQueries();
+  return jsonResponse({ success: true, agent });
+}
+
+async function handleSaveScheduledJob(request: Request, id?: string): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+  }
+  try {
+    const job = id ? updateScheduledJob(id, body) : createScheduledJob(body);
+    if (!job) {
+      return jsonResponse({ success: false, error: 'Scheduled job not found.' }, 404);
+    }
+    return jsonResponse({ success: true, job });
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      400
+    );
+  }
+}
+
+function handleRestoreCheckpoint(id: string): Response {
+  if (listSessions().some((session) => session.sessionState === 'running')) {
+    return jsonResponse(
+      { success: false, error: 'Stop the running agent before restoring a checkpoint.' },
+      409
+    );
+  }
+  try {
+    const restoredFiles = restoreWorkspaceCheckpoint(id);
+    if (!restoredFiles) {
+      return jsonResponse({ success: false, error: 'Checkpoint not found.' }, 404);
+    }
+    return jsonResponse({ success: true, restoredFiles });
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+}
+
+async function handleGitRequest(action: () => Promise<Response>): Promise<Response> {
+  try {
+    return await action();
+  } catch (error) {
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+}
+
+async function handleGitDiff(agentDir: string, url: URL): Promise<Response> {
+  const path = url.searchParams.get('path');
+  const relativePath = path ? toAgentRelativePath(agentDir, path) : null;
+  if (path && !relativePath) {
+    return jsonResponse({ success: false, error: 'Path is outside the agent directory.' }, 400);
+  }
+  const sessionId = url.searchParams.get('sessionId');
+  const session = sessionId ? getSession(sessionId) : null;
+  if (sessionId && !session) {
+    return jsonResponse({ success: false, error: 'Session not found.' }, 404);
+  }
+  return jsonResponse(
+    await getGitDiff(agentDir, {
+      base: session?.getGitBaseCommit(),
+      path: relativePath ?? undefined
+    })
+  );
+}
+
+async function handleGitStage(agentDir: string, request: Request): Promise<Response> {
+  let payload: { paths?: unknown; staged?: unknown };
+  try {
+    payload = (await request.json()) as { paths?: unknown; staged?: unknown };
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+  }
+  const paths = Array.isArray(payload?.paths) ? payload.paths : [];
+  if (
+    paths.length === 0 ||
+    !paths.every((path) => typeof path === 'string' && path) ||
+    typeof payload.staged !== 'boolean'
+  ) {
+    return jsonResponse({ success: false, error: 'Expected { paths, staged }.' }, 400);
+  }
+  const relativePaths = (paths as string[]).map((path) => toAgentRelativePath(agentDir, path));
+  if (relativePaths.some((path) => !path)) {
+    return jsonResponse({ success: false, error: 'Path is outside the agent directory.' }, 400);
+  }
+  const error = await setFilesStaged(agentDir, relativePaths as string[], payload.staged);
+  if (error) {
+    return jsonResponse({ success: false, error }, 409);
+  }
+  return jsonResponse({ success: true });
+}
+
+async function handleGitCommit(agentDir: string, request: Request): Promise<Response> {
+  let payload: { message?: unknown };
+  try {
+    payload = (await request.json()) as { message?: unknown };
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+  }
+  if (typeof payload?.message !== 'string' || !payload.message.trim()) {
+    return jsonResponse({ success: false, error: 'A commit message is required.' }, 400);
+  }
+  const result = await commitStaged(agentDir, payload.message.trim());
+  if ('error' in result) {
+    return jsonResponse({ success: false, error: result.error }, 409);
+  }
+  console.log(`[git] committed ${result.commit}`);
+  return jsonResponse({ success: true, commit: result.commit });
+}
+
 async function serveStatic(pathname: string): Promise<Response | null> {
   const distRoot = resolve(process.cwd(), 'dist');
   const resolvedPath = pathname === '/' ? 'index.html' : pathname.slice(1);
@@ -136,71 +683,302 @@ async function serveStatic(pathname: string): Promise<Response | null> {
 }
 
 async function main() {
-  const { agentDir, initialPrompt, port } = parseArgs(process.argv);
+  const {
+    agentDir,
+    initialPrompt,
+    resumeSessionId,
+    configPath,
+    port,
+    headless,
+    outputPath,
+    timeoutMs,
+    authTokens
+  } = parseArgs(process.argv);
   const resolvedAgentDir = await ensureAgentDir(agentDir);
+  const config = loadAgentConfig(resolvedAgentDir, configPath);
+  console.log(`[config] ${JSON.stringify(config)}`);
+  const hookRules = loadHookRules(resolvedAgentDir);
+  if (hookRules.length > 0) {
+    console.log(`[hooks] loaded ${hookRules.length} rule(s) from ${HOOKS_FILE_NAME}`);
+  }
+
+  const toolPolicy = loadToolPolicy(resolvedAgentDir);
+  if (toolPolicy !== EMPTY_TOOL_POLICY) {
+    console.log(
+      `[policy] ${POLICY_FILE_NAME} allow=${toolPolicy.allow.length} deny=${toolPolicy.deny.length} confineToAgentDir=${toolPolicy.confineToAgentDir}`
+    );
+  }
+
+  const webhookTargets = loadWebhookTargets(resolvedAgentDir);
+  if (webhookTargets.length > 0) {
+    console.log(`[webhooks] loaded ${webhookTargets.length} target(s) from ${WEBHOOKS_FILE_NAME}`);
+  }
+
+  const headlessRun = headless ? createHeadlessRun({ outputPath, timeoutMs }) : null;
+  if (headlessRun) {
+    onSessionTurnEnd(headlessRun.onTurnEnd);
+  }
+  const defaultSession = initializeSessions(resolvedAgentDir, initialPrompt, {
+    resumeSessionId,
+    config,
+    hookRules,
+    toolPolicy,
+    denyPermissionPrompts: headless,
+    webhookTargets
+  });
+  if (headlessRun) {
+    const exitCode = await headlessRun.finish(defaultSession);
+    await waitForWebhookDeliveries();
+    process.exit(exitCode);
+  }
 
-  initializeAgent(resolvedAgentDir, initialPrompt);
+  initializeScheduler(resolvedAgentDir);
 
-  Bun.serve({
+  configureAuth(authTokens);
+  if (isAuthEnabled()) {
+    console.log(`[auth] token auth enabled with ${authTokens.length} token(s)`);
+  } else {
+    console.warn(
+      `[auth] no token set; anyone who can reach port ${port} can drive the agent. Pass --auth-token or set ${AUTH_TOKEN_ENV}.`
+    );
+  }
+
+  let stopWatching: (() => void) | null = null;
+  try {
+    stopWatching = await watchWorkspace(resolvedAgentDir, (change) =>
+      broadcast('agent:fs-change', change)
+    );
+  } catch (error) {
+    console.error('[fs-watch] could not watch the agent directory', error);
+  }
+
+  const server = Bun.serve({
     port,
     idleTimeout: 0,
-    async fetch(request) {
+    async fetch(request, server) {
       const url = new URL(request.url);
       const pathname = url.pathname;
       console.log(`[http] ${request.method} ${pathname}`);
 
+      const authResponse = await handleAuth(
+        request,
+        server.requestIP(request)?.address ?? 'unknown'
+      );
+      if (authResponse) {
+        return authResponse;
+      }
+
       if (pathname === '/chat/stream' && request.method === 'GET') {
-        const { client, response } = createSseClient(() => {});
-        const state = getAgentState();
-        client.send('chat:init', state);
-        getMessages().forEach((message) => {
-          client.send('chat:message-replay', { message });
-        });
-        client.send('chat:logs', { lines: getLogLines() });
-        const systemInitInfo = getSystemInitInfo();
-        if (systemInitInfo) {
-          client.send('chat:system-init', { info: systemInitInfo });
-        }
-        return response;
+        return openSessionStream(getDefaultSession());
       }
 
       if (pathname === '/chat/send' && request.method === 'POST') {
-        let payload: SendMessagePayload;
-        try {
-          payload = (await request.json()) as SendMessagePayload;
-        } catch {
-          return jsonResponse({ success: false, error: 'Invalid JSON payload.' }, 400);
+        return handleSendMessage(getDefaultSession(), request);
+      }
+
+      if (pathname === '/chat/stop' && request.method === 'POST') {
+        return handleStopMessage(getDefaultSession());
+      }
+
+      if (pathname === '/chat/permission' && request.method === 'POST') {
+        return handlePermissionResponse(getDefaultSession(), request);
+      }
+
+      if (pathname === '/chat/reset' && request.method === 'POST') {
+        return handleResetSession(getDefaultSession());
+      }
+
+      if (pathname === '/chat/fork' && request.method === 'POST') {
+        return handleForkSession(getDefaultSession(), request);
+      }
+
+      if (pathname === '/chat/rewind' && request.method === 'POST') {
+        return handleRewindSession(getDefaultSession(), request);
+      }
+
+      if (pathname === '/chat/queue' && request.method === 'GET') {
+        return jsonResponse({ items: getDefaultSession().getQueuedMessages() });
+      }
+
+      const queueItemRoute = pathname.match(/^\/(?:chat|sessions\/([^/]+))\/queue\/([^/]+)$/);
+      if (queueItemRoute) {
+        const session =
+          queueItemRoute[1] ?
+            getSession(decodeURIComponent(queueItemRoute[1]))
+          : getDefaultSession();
+        if (!session) {
+          return jsonResponse({ success: false, error: 'Session not found.' }, 404);
+        }
+        return handleQueueItem(session, decodeURIComponent(queueItemRoute[2]), request);
+      }
+
+      if (pathname === '/chat/mcp' && request.method === 'GET') {
+        return handleMcpStatus(getDefaultSession());
+      }
+
+      if (pathname === '/chat/mcp' && request.method === 'PATCH') {
+        return handleToggleMcpServer(getDefaultSession(), request);
+      }
+
+      if (pathname === '/chat/usage' && request.method === 'GET') {
+        return jsonResponse(getDefaultSession().getUsage());
+      }
+
+      if (pathname === '/chat/model' && request.method === 'GET') {
+        return jsonResponse(getModelPreference());
+      }
+
+      if (pathname === '/chat/model' && request.method === 'PUT') {
+        return handleSetModelPreference(request);
+      }
+
+      if (pathname === '/chat/prompt' && request.method === 'GET') {
+        return jsonResponse(getPromptSettings());
+      }
+
+      if (pathname === '/chat/prompt' && request.method === 'PUT') {
+        return handleSetPromptSettings(request);
+      }
+
+      if (pathname === '/sessions' && request.method === 'GET') {
+        return jsonResponse({ sessions: listSessions(), defaultSessionId: getDefaultSessionId() });
+      }
+
+      if (pathname === '/sessions' && request.method === 'POST') {
+        const session = createSession();
+        return jsonResponse({ success: true, session: session.getSummary() });
+      }
+
+      const sessionRoute = pathname.match(
+        /^\/sessions\/([^/]+)\/(stream|send|stop|permission|usage|reset|fork|rewind|queue|mcp)$/
+      );
+      if (sessionRoute) {
+        const session = getSession(decodeURIComponent(sessionRoute[1]));
+        if (!session) {
+          return jsonResponse({ success: false, error: 'Session not found.' }, 404);
+        }
+        const action = sessionRoute[2];
+        if (action === 'stream' && request.method === 'GET') {
+          return openSessionStream(session);
+        }
+        if (action === 'send' && request.method === 'POST') {
+          return handleSendMessage(session, request);
+        }
+        if (action === 'stop' && request.method === 'POST') {
+          return handleStopMessage(session);
+        }
+        if (action === 'permission' && request.method === 'POST') {
+          return handlePermissionResponse(session, request);
+        }
+        if (action === 'usage' && request.method === 'GET') {
+          return jsonResponse(session.getUsage());
         }
-        const text = payload?.text?.trim() ?? '';
-        if (!text) {
-          return jsonResponse({ success: false, error: 'Message cannot be empty.' }, 400);
+        if (action === 'reset' && request.method === 'POST') {
+          return handleResetSession(session);
         }
+        if (action === 'fork' && request.method === 'POST') {
+          return handleForkSession(session, request);
+        }
+        if (action === 'rewind' && request.method === 'POST') {
+          return handleRewindSession(session, request);
+        }
+        if (action === 'queue' && request.method === 'GET') {
+          return jsonResponse({ items: session.getQueuedMessages() });
+        }
+        if (action === 'mcp' && request.method === 'GET') {
+          return handleMcpStatus(session);
+        }
+        if (action === 'mcp' && request.method === 'PATCH') {
+          return handleToggleMcpServer(session, request);
+        }
+      }
 
-        try {
-          console.log(`[chat] send text="${text.slice(0, 200)}"`);
-          await enqueueUserMessage(text);
+      if (pathname === '/agent/mcp' && request.method === 'GET') {
+        return jsonResponse(getMcpConfig());
+      }
+
+      if (pathname === '/agent/mcp' && request.method === 'PUT') {
+        return handleSetMcpConfig(request);
+      }
+
+      if (pathname === '/agent/checkpoints' && request.method === 'GET') {
+        return jsonResponse({ checkpoints: getCheckpoints() });
+      }
+
+      const checkpointRoute = pathname.match(/^\/agent\/checkpoints\/([^/]+)\/restore$/);
+      if (checkpointRoute && request.method === 'POST') {
+        return handleRestoreCheckpoint(decodeURIComponent(checkpointRoute[1]));
+      }
+
+      if (pathname === '/agent/git/status' && request.method === 'GET') {
+        return handleGitRequest(async () => jsonResponse(await getGitStatus(resolvedAgentDir)));
+      }
+
+      if (pathname === '/agent/git/diff' && request.method === 'GET') {
+        return handleGitRequest(() => handleGitDiff(resolvedAgentDir, url));
+      }
+
+      if (pathname === '/agent/git/stage' && request.method === 'POST') {
+        return handleGitRequest(() => handleGitStage(resolvedAgentDir, request));
+      }
+
+      if (pathname === '/agent/git/commit' && request.method === 'POST') {
+        return handleGitRequest(() => handleGitCommit(resolvedAgentDir, request));
+      }
+
+      if (pathname === '/agent/agents' && request.method === 'GET') {
+        return jsonResponse({ agents: listSubagents(resolvedAgentDir) });
+      }
+
+      if (pathname === '/agent/agents' && request.method === 'POST') {
+        return handleSaveSubagent(resolvedAgentDir, request);
+      }
+
+      const subagentRoute = pathname.match(/^\/agent\/agents\/([^/]+)$/);
+      if (subagentRoute) {
+        const name = decodeURIComponent(subagentRoute[1]);
+        if (request.method === 'PUT') {
+          return handleSaveSubagent(resolvedAgentDir, request, name);
+        }
+        if (request.method === 'DELETE') {
+          if (!deleteSubagent(resolvedAgentDir, name)) {
+            return jsonResponse({ success: false, error: 'Subagent not found.' }, 404);
+          }
+          console.log(`[agents] deleted name=${name}`);
+          restartSessionQueries();
           return jsonResponse({ success: true });
-        } catch (error) {
-          return jsonResponse(
-            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
-            500
-          );
         }
       }
 
-      if (pathname === '/chat/stop' && request.method === 'POST') {
-        try {
-          console.log('[chat] stop');
-          const stopped = await interruptCurrentResponse();
-          if (!stopped) {
-            return jsonResponse({ success: false, error: 'No active response to stop.' }, 400);
+      if (pathname === '/agent/schedules' && request.method === 'GET') {
+        return jsonResponse(listScheduledJobs());
+      }
+
+      if (pathname === '/agent/schedules' && request.method === 'POST') {
+        return handleSaveScheduledJob(request);
+      }
+
+      const scheduleRunRoute = pathname.match(/^\/agent\/schedules\/([^/]+)\/run$/);
+      if (scheduleRunRoute && request.method === 'POST') {
+        const run = runScheduledJobNow(decodeURIComponent(scheduleRunRoute[1]));
+        if (!run) {
+          return jsonResponse({ success: false, error: 'Scheduled job not found.' }, 404);
+        }
+        return jsonResponse({ success: true, run });
+      }
+
+      const scheduleRoute = pathname.match(/^\/agent\/schedules\/([^/]+)$/);
+      if (scheduleRoute) {
+        const id = decodeURIComponent(scheduleRoute[1]);
+        if (request.method === 'PATCH') {
+          return handleSaveScheduledJob(request, id);
+        }
+        if (request.method === 'DELETE') {
+          if (!deleteScheduledJob(id)) {
+            return jsonResponse({ success: false, error: 'Scheduled job not found.' }, 404);
           }
+          console.log(`[scheduler] deleted job=${id}`);
           return jsonResponse({ success: true });
-        } catch (error) {
-          return jsonResponse(
-            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
-            500
-          );
         }
       }
 
@@ -314,6 +1092,19 @@ async function main() {
   });
 
   console.log(`Web UI server listening on http://localhost:${port}`);
+
+  // A second signal while shutting down exits at once.
+  const shutdown = async (signal: string) => {
+    console.log(`[server] ${signal} received, shutting down`);
+    stopScheduler();
+    stopWatching?.();
+    await server.stop(true);
+    await stopSessions();
+    await waitForWebhookDeliveries();
+    process.exit(0);
+  };
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
 }
 
 main().catch((error) => {
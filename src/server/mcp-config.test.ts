@@ -0,0 +1,57 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, test } from 'bun:test';
+
+import { loadMcpConfig, MCP_CONFIG_FILE_NAME, parseMcpConfig, saveMcpConfig } from './mcp-config';
+
+describe('mcp config', () => {
+  test('accepts stdio, sse and http servers', () => {
+    const config = {
+      mcpServers: {
+        files: { command: 'npx', args: ['-y', 'server-files'], env: { ROOT: '/tmp' } },
+        events: { type: 'sse', url: 'http://localhost:8080/sse' },
+        remote_api: { type: 'http', url: 'https://example.com/mcp', headers: { Auth: 'x' } }
+      }
+    };
+
+    expect(parseMcpConfig(config)).toEqual(config as never);
+  });
+
+  test('reports every invalid server at once', () => {
+    expect(() =>
+      parseMcpConfig({
+        mcpServers: {
+          'bad name': { command: 'x' },
+          noCommand: { args: [] },
+          badUrl: { type: 'http', url: 'not a url' },
+          badType: { type: 'websocket' }
+        }
+      })
+    ).toThrow(
+      [
+        'Invalid MCP config:',
+        '  - "bad name": names may only contain letters, numbers, "-" and "_"',
+        '  - "noCommand": command is required',
+        '  - "badUrl": url must be a valid URL',
+        '  - "badType": type must be "stdio", "sse" or "http"'
+      ].join('\n')
+    );
+    expect(() => parseMcpConfig({ servers: {} })).toThrow('mcpServers must be an object');
+  });
+
+  test('saves to and loads from .mcp.json, ignoring invalid files', () => {
+    const agentDir = mkdtempSync(join(tmpdir(), 'mcp-config-'));
+    try {
+      expect(loadMcpConfig(agentDir)).toEqual({ mcpServers: {} });
+
+      saveMcpConfig(agentDir, { mcpServers: { echo: { command: 'echo' } } });
+      expect(loadMcpConfig(agentDir)).toEqual({ mcpServers: { echo: { command: 'echo' } } });
+
+      writeFileSync(join(agentDir, MCP_CONFIG_FILE_NAME), '{ not json');
+      expect(loadMcpConfig(agentDir)).toEqual({ mcpServers: {} });
+    } finally {
+      rmSync(agentDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import type { McpConfig, McpServerConfig } from '../shared/types/mcp';
+
+export const MCP_CONFIG_FILE_NAME = '.mcp.json';
+
+const SERVER_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    Boolean(value) &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.values(value as object).every((item) => typeof item === 'string')
+  );
+}
+
+function validateServer(name: string, value: unknown): string[] {
+  if (!SERVER_NAME_PATTERN.test(name)) {
+    return [`"${name}": names may only contain letters, numbers, "-" and "_"`];
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [`"${name}": expected an object`];
+  }
+  const server = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (server.type === 'sse' || server.type === 'http') {
+    if (typeof server.url !== 'string' || !URL.canParse(server.url)) {
+      errors.push(`"${name}": url must be a valid URL`);
+    }
+    if (server.headers !== undefined && !isStringRecord(server.headers)) {
+      errors.push(`"${name}": headers must map names to strings`);
+    }
+    return errors;
+  }
+  if (server.type !== undefined && server.type !== 'stdio') {
+    return [`"${name}": type must be "stdio", "sse" or "http"`];
+  }
+  if (typeof server.command !== 'string' || !server.command.trim()) {
+    errors.push(`"${name}": command is required`);
+  }
+  if (
+    server.args !== undefined &&
+    !(Array.isArray(server.args) && server.args.every((arg) => typeof arg === 'string'))
+  ) {
+    errors.push(`"${name}": args must be an array of strings`);
+  }
+  if (server.env !== undefined && !isStringRecord(server.env)) {
+    errors.push(`"${name}": env must map names to strings`);
+  }
+  return errors;
+}
+
+/**
+ * Validates an `.mcp.json` payload, reporting every invalid server at once.
+ */
+export function parseMcpConfig(value: unknown): McpConfig {
+  const servers = (value as { mcpServers?: unknown } | null)?.mcpServers;
+  if (!servers || typeof servers !== 'object' || Array.isArray(servers)) {
+    throw new Error('mcpServers must be an object of server configs.');
+  }
+  const errors = Object.entries(servers).flatMap(([name, server]) => validateServer(name, server));
+  if (errors.length > 0) {
+    throw new Error(`Invalid MCP config:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+  }
+  return { mcpServers: servers as Record<string, McpServerConfig> };
+}
+
+export function loadMcpConfig(agentDir: string): McpConfig {
+  const filePath = join(agentDir, MCP_CONFIG_FILE_NAME);
+  if (!existsSync(filePath)) {
+    return { mcpServers: {} };
+  }
+  try {
+    return parseMcpConfig(JSON.parse(readFileSync(filePath, 'utf8')));
+  } catch (error) {
+    console.warn(
+      `[mcp] ignoring ${filePath}: ${error instanceof Error ? error.message : 'unreadable JSON'}`
+    );
+    return { mcpServers: {} };
+  }
+}
+
+export function saveMcpConfig(agentDir: string, config: McpConfig): void {
+  const filePath = join(agentDir, MCP_CONFIG_FILE_NAME);
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify(config, null, 2)}\n`);
+  renameSync(tempPath, filePath);
+}
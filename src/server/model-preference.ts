@@ -0,0 +1,40 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+import type { ChatModelPreference } from '../shared/types/ipc';
+
+export const DEFAULT_MODEL_PREFERENCE: ChatModelPreference = 'smart-sonnet';
+
+const MODEL_IDS: Record<ChatModelPreference, string> = {
+  fast: 'claude-haiku-4-5-20251001',
+  'smart-sonnet': 'claude-sonnet-4-5-20250929',
+  'smart-opus': 'claude-opus-4-5-20251101'
+};
+
+export function isChatModelPreference(value: unknown): value is ChatModelPreference {
+  return typeof value === 'string' && value in MODEL_IDS;
+}
+
+export function resolveModelId(preference: ChatModelPreference): string {
+  return MODEL_IDS[preference];
+}
+
+export function loadModelPreference(filePath: string): ChatModelPreference {
+  if (!existsSync(filePath)) {
+    return DEFAULT_MODEL_PREFERENCE;
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as { preference?: unknown } | null;
+    return isChatModelPreference(parsed?.preference) ? parsed.preference : DEFAULT_MODEL_PREFERENCE;
+  } catch {
+    console.warn(`[model] ignoring unreadable preference at ${filePath}`);
+    return DEFAULT_MODEL_PREFERENCE;
+  }
+}
+
+export function saveModelPreference(filePath: string, preference: ChatModelPreference): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify({ preference }, null, 2)}\n`);
+  renameSync(tempPath, filePath);
+}
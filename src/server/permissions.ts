@@ -0,0 +1,177 @@
+export type PermissionRule = {
+  toolName: string;
+  pattern?: string;
+};
+
+const SUBJECT_KEYS: Record<string, string> = {
+  Bash: 'command',
+  Read: 'file_path',
+  Write: 'file_path',
+  Edit: 'file_path',
+  NotebookEdit: 'notebook_path',
+  Glob: 'pattern',
+  Grep: 'pattern',
+  WebFetch: 'url',
+  WebSearch: 'query'
+};
+
+/**
+ * Returns the argument a rule pattern is matched against for a tool call, e.g. the command for
+ * Bash or the file path for Write.
+ */
+export function getPermissionSubject(
+  toolName: string,
+  input: Record<string, unknown>
+): string | undefined {
+  const key = SUBJECT_KEYS[toolName];
+  const value = key ? input[key] : undefined;
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Suggests an "always allow" pattern for a subject: the first word of a shell command followed by
+ * a wildcard, or the exact subject for everything else.
+ */
+export function suggestPermissionPattern(toolName: string, subject?: string): string | undefined {
+  if (!subject) {
+    return undefined;
+  }
+  if (toolName === 'Bash') {
+    const command = subject.trim().split(/\s+/)[0];
+    return command ? `${command} *` : undefined;
+  }
+  return subject;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('*')
+    .map((part) =>
+      part
+        .split('?')
+        .map((piece) => piece.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+        .join('.')
+    )
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 's');
+}
+
+export function matchesGlob(pattern: string, value: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+type ShellQuote = '"' | "'" | null;
+
+const COMMAND_SEPARATORS = new Set([';', '&', '|', '\n']);
+
+/**
+ * Splits a shell command into the simple commands it runs: at `;`, `&&`, `||`, `|`, `&` and
+ * newlines, and around subshells and `$(...)` or backtick substitutions. Returns null when a quote
+ * or substitution is left open.
+ */
+export function splitShellCommand(command: string): string[] | null {
+  const parts: string[] = [];
+  // Open subshells and substitutions, with the quote state to return to when each one closes.
+  const stack: { close: string; quote: ShellQuote }[] = [];
+  let quote: ShellQuote = null;
+  let current = '';
+  const flush = () => {
+    if (current.trim()) {
+      parts.push(current.trim());
+    }
+    current = '';
+  };
+
+  for (let index = 0; index < command.length; index += 1) {
+    const char = command[index];
+    if (quote === "'") {
+      quote = char === "'" ? null : quote;
+      current += char;
+      continue;
+    }
+    if (char === '\\') {
+      current += char + (command[index + 1] ?? '');
+      index += 1;
+      continue;
+    }
+    const open = stack[stack.length - 1];
+    if (open && char === open.close && (char === '`' || quote === null)) {
+      flush();
+      quote = open.quote;
+      stack.pop();
+      continue;
+    }
+    // Substitutions run even inside double quotes.
+    if (char === '`' || (char === '$' && command[index + 1] === '(')) {
+      flush();
+      stack.push({ close: char === '`' ? '`' : ')', quote });
+      quote = null;
+      index += char === '$' ? 1 : 0;
+      continue;
+    }
+    if (quote === '"') {
+      quote = char === '"' ? null : quote;
+      current += char;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === '(') {
+      flush();
+      stack.push({ close: ')', quote: null });
+    } else if (char === ')') {
+      flush();
+    } else if (
+      COMMAND_SEPARATORS.has(char) &&
+      // `2>&1` and `&>` are redirects, not separators.
+      !(char === '&' && (/[<>]/.test(command[index - 1] ?? '') || command[index + 1] === '>'))
+    ) {
+      flush();
+    } else {
+      current += char;
+    }
+  }
+
+  if (quote !== null || stack.length > 0) {
+    return null;
+  }
+  flush();
+  return parts;
+}
+
+/**
+ * Matches a glob against a Bash command. With `every`, as for allow rules, each command chained
+ * or substituted into it must match; with `some`, as for deny rules, one is enough.
+ */
+export function matchesShellCommand(
+  pattern: string,
+  command: string,
+  mode: 'every' | 'some'
+): boolean {
+  const parts = splitShellCommand(command);
+  if (mode === 'every') {
+    return !!parts && parts.length > 0 && parts.every((part) => matchesGlob(pattern, part));
+  }
+  return matchesGlob(pattern, command) || !!parts?.some((part) => matchesGlob(pattern, part));
+}
+
+export function ruleMatches(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, unknown>
+): boolean {
+  if (rule.toolName !== toolName) {
+    return false;
+  }
+  if (!rule.pattern) {
+    return true;
+  }
+  const subject = getPermissionSubject(toolName, input);
+  if (subject === undefined) {
+    return false;
+  }
+  return toolName === 'Bash' ?
+      matchesShellCommand(rule.pattern, subject, 'every')
+    : matchesGlob(rule.pattern, subject);
+}
@@ -0,0 +1,59 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, test } from 'bun:test';
+
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  listOutputStyles,
+  loadPromptSettings,
+  savePromptSettings
+} from './prompt-settings';
+
+describe('prompt settings', () => {
+  test('round-trips saved settings and falls back to the defaults', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'prompt-settings-'));
+    try {
+      const filePath = join(dir, 'prompt.json');
+      expect(loadPromptSettings(filePath)).toEqual(DEFAULT_PROMPT_SETTINGS);
+
+      savePromptSettings(filePath, {
+        appendSystemPrompt: 'Answer in French.',
+        outputStyle: 'Learning'
+      });
+      expect(loadPromptSettings(filePath)).toEqual({
+        appendSystemPrompt: 'Answer in French.',
+        outputStyle: 'Learning'
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('lists project output styles from their frontmatter', () => {
+    const agentDir = mkdtempSync(join(tmpdir(), 'output-styles-'));
+    try {
+      const stylesDir = join(agentDir, '.claude', 'output-styles');
+      mkdirSync(stylesDir, { recursive: true });
+      writeFileSync(
+        join(stylesDir, 'terse.md'),
+        '---\nname: Terse\ndescription: "Short answers only"\n---\nKeep it short.\n'
+      );
+      writeFileSync(join(stylesDir, 'plain.md'), 'No frontmatter here.\n');
+
+      const styles = listOutputStyles(agentDir, ['project']);
+      expect(
+        styles.filter((style) => style.source === 'built-in').map((style) => style.name)
+      ).toEqual(['default', 'Explanatory', 'Learning']);
+      expect(styles.filter((style) => style.source === 'project')).toEqual([
+        { name: 'plain', source: 'project' },
+        { name: 'Terse', description: 'Short answers only', source: 'project' }
+      ]);
+      expect(listOutputStyles(agentDir, []).some((style) => style.source === 'project')).toBe(
+        false
+      );
+    } finally {
+      rmSync(agentDir, { recursive: true, force: true });
+    }
+  });
+});
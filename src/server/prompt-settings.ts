@@ -0,0 +1,95 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, extname, join } from 'path';
+import type { SettingSource } from '@anthropic-ai/claude-agent-sdk';
+
+import type { OutputStyleInfo, OutputStyleSource, PromptSettings } from '../shared/types/prompt';
+import { parseFrontmatter } from './frontmatter';
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  appendSystemPrompt: '',
+  outputStyle: null
+};
+
+const BUILT_IN_OUTPUT_STYLES: OutputStyleInfo[] = [
+  {
+    name: 'default',
+    description: 'Claude Code’s standard software engineering style',
+    source: 'built-in'
+  },
+  {
+    name: 'Explanatory',
+    description: 'Explains implementation choices and codebase patterns',
+    source: 'built-in'
+  },
+  {
+    name: 'Learning',
+    description: 'Pauses to ask you to write small pieces of code yourself',
+    source: 'built-in'
+  }
+];
+
+export function loadPromptSettings(filePath: string): PromptSettings {
+  if (!existsSync(filePath)) {
+    return { ...DEFAULT_PROMPT_SETTINGS };
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as Partial<PromptSettings> | null;
+    return {
+      appendSystemPrompt:
+        typeof parsed?.appendSystemPrompt === 'string' ? parsed.appendSystemPrompt : '',
+      outputStyle: typeof parsed?.outputStyle === 'string' ? parsed.outputStyle : null
+    };
+  } catch {
+    console.warn(`[prompt] ignoring unreadable settings at ${filePath}`);
+    return { ...DEFAULT_PROMPT_SETTINGS };
+  }
+}
+
+export function savePromptSettings(filePath: string, settings: PromptSettings): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify(settings, null, 2)}\n`);
+  renameSync(tempPath, filePath);
+}
+
+function readOutputStyleDir(dir: string, source: OutputStyleSource): OutputStyleInfo[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((name) => extname(name) === '.md')
+    .sort()
+    .map((name) => {
+      try {
+        const { attributes } = parseFrontmatter(readFileSync(join(dir, name), 'utf8'));
+        return {
+          name: attributes.name || basename(name, '.md'),
+          ...(attributes.description ? { description: attributes.description } : {}),
+          source
+        };
+      } catch {
+        return { name: basename(name, '.md'), source };
+      }
+    });
+}
+
+/**
+ * Lists the output styles Claude Code can load for the agent directory: the built-in ones plus
+ * markdown styles under `.claude/output-styles/` for each enabled setting source.
+ */
+export function listOutputStyles(
+  agentDir: string,
+  settingSources: SettingSource[]
+): OutputStyleInfo[] {
+  const styles = [...BUILT_IN_OUTPUT_STYLES];
+  if (settingSources.includes('user')) {
+    styles.push(...readOutputStyleDir(join(homedir(), '.claude', 'output-styles'), 'user'));
+  }
+  if (settingSources.includes('project')) {
+    styles.push(...readOutputStyleDir(join(agentDir, '.claude', 'output-styles'), 'project'));
+  }
+  // Later sources override earlier ones with the same name, as in Claude Code.
+  const byName = new Map(styles.map((style) => [style.name, style]));
+  return Array.from(byName.values());
+}
@@ -0,0 +1,252 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+
+import type { Session } from './agent-session';
+import type { TurnOutcome } from './headless';
+import {
+  createScheduledJob,
+  initializeScheduler,
+  listScheduledJobs,
+  parseScheduledJobInput,
+  runDueJobs,
+  runScheduledJobNow,
+  updateScheduledJob
+} from './scheduler';
+
+const schedulesDir = (agentDir: string) => join(agentDir, '.agent-ui', 'schedules');
+
+// Stands in for a Session: messages wait in `queue` until `take` hands one to a turn.
+function createFakeSession(id: string) {
+  const queue: string[] = [];
+  let activeId: string | null = null;
+  let reply = '';
+  return {
+    id,
+    stop: mock(async () => {}),
+    enqueueUserMessage: () => {
+      const itemId = `${id}-item-${queue.length + 1}`;
+      queue.push(itemId);
+      return itemId;
+    },
+    getQueuedMessages: () => queue.map((itemId) => ({ id: itemId })),
+    cancelQueuedMessage: (itemId: string) => queue.splice(queue.indexOf(itemId), 1).length > 0,
+    getActiveQueueItemId: () => activeId,
+    getUsage: () => ({ turns: [{ costUsd: 0.25 }] }),
+    getMessages: () => [
+      { id: '1', role: 'user', content: 'prompt', timestamp: '' },
+      { id: '2', role: 'assistant', content: reply, timestamp: '' }
+    ],
+    take: (itemId: string, nextReply: string) => {
+      queue.splice(queue.indexOf(itemId), 1);
+      activeId = itemId;
+      reply = nextReply;
+    }
+  };
+}
+
+type FakeSession = ReturnType<typeof createFakeSession>;
+
+const sessions = new Map<string, FakeSession>();
+const createSessionOptions: unknown[] = [];
+let turnEndListener: ((session: Session, outcome: TurnOutcome) => void) | null = null;
+
+mock.module('./session-manager', () => ({
+  createSession: (options?: unknown) => {
+    createSessionOptions.push(options);
+    const session = createFakeSession(`session-${sessions.size + 1}`);
+    sessions.set(session.id, session);
+    return session;
+  },
+  getDefaultSession: () => sessions.get('default'),
+  getSession: (id: string) => sessions.get(id) ?? null,
+  onSessionTurnEnd: (listener: typeof turnEndListener) => {
+    turnEndListener = listener;
+    return () => {};
+  }
+}));
+
+function endTurn(session: FakeSession): void {
+  turnEndListener?.(session as unknown as Session, { isError: false });
+}
+
+describe('scheduler', () => {
+  let agentDir: string;
+
+  beforeEach(() => {
+    agentDir = mkdtempSync(join(tmpdir(), 'agent-ui-scheduler-'));
+  });
+
+  afterEach(() => {
+    rmSync(agentDir, { recursive: true, force: true });
+    sessions.clear();
+    createSessionOptions.length = 0;
+  });
+
+  test('validates job input and fills in defaults', () => {
+    expect(
+      parseScheduledJobInput({ name: ' Nightly ', prompt: 'Summarize ./logs', cron: '@daily' })
+    ).toEqual({
+      name: 'Nightly',
+      prompt: 'Summarize ./logs',
+      cron: '@daily',
+      target: 'new-session',
+      paused: false
+    });
+    expect(() =>
+      parseScheduledJobInput({ name: 'a\nb', prompt: '', cron: '0 0 30 2 *', target: 'other' })
+    ).toThrow(
+      'Invalid job:\n  - name must be a single line\n  - prompt is required\n  - cron expression "0 0 30 2 *" never matches a date\n  - target must be one of new-session, default-session'
+    );
+  });
+
+  test('merges partial updates over the existing job', () => {
+    const existing = parseScheduledJobInput({
+      name: 'Nightly',
+      prompt: 'Check',
+      cron: '0 2 * * *'
+    });
+
+    expect(parseScheduledJobInput({ paused: true }, existing)).toEqual({
+      ...existing,
+      paused: true
+    });
+    expect(() => parseScheduledJobInput({ cron: 'sometimes' }, existing)).toThrow(
+      'expected 5 fields'
+    );
+  });
+
+  test('persists jobs and schedules the next run unless paused', () => {
+    initializeScheduler(agentDir);
+    const job = createScheduledJob({ name: 'Nightly', prompt: 'Check', cron: '0 2 * * *' });
+
+    expect(job.nextRunAt).not.toBeNull();
+    const saved = JSON.parse(readFileSync(join(schedulesDir(agentDir), 'jobs.json'), 'utf8'));
+    expect(saved.jobs).toHaveLength(1);
+    expect(saved.jobs[0].nextRunAt).toBeUndefined();
+
+    expect(updateScheduledJob(job.id, { paused: true })?.nextRunAt).toBeNull();
+    expect(updateScheduledJob('missing', { paused: true })).toBeNull();
+
+    initializeScheduler(agentDir);
+    expect(listScheduledJobs().jobs).toEqual([
+      expect.objectContaining({ id: job.id, paused: true, nextRunAt: null })
+    ]);
+  });
+
+  test('marks runs left running by a previous server as errors', () => {
+    mkdirSync(schedulesDir(agentDir), { recursive: true });
+    writeFileSync(
+      join(schedulesDir(agentDir), 'runs.json'),
+      JSON.stringify({
+        runs: [
+          {
+            id: 'run-1',
+            jobId: 'job-1',
+            sessionId: 'session-1',
+            manual: false,
+            status: 'running',
+            startedAt: '2025-01-01T02:00:00.000Z'
+          }
+        ]
+      })
+    );
+
+    initializeScheduler(agentDir);
+
+    expect(listScheduledJobs().runs[0]).toMatchObject({
+      id: 'run-1',
+      status: 'error',
+      error: 'The server stopped before the run finished.'
+    });
+  });
+
+  test('runs new-session jobs in sessions that deny permission prompts', () => {
+    initializeScheduler(agentDir);
+    const job = createScheduledJob({ name: 'Nightly', prompt: 'Check', cron: '@daily' });
+
+    const run = runScheduledJobNow(job.id);
+
+    expect(run).toMatchObject({ status: 'running', sessionId: 'session-1' });
+    expect(createSessionOptions).toEqual([{ denyPermissionPrompts: true }]);
+  });
+
+  test('finishes a run only with the turn that answered its prompt', () => {
+    const session = createFakeSession('default');
+    sessions.set('default', session);
+    initializeScheduler(agentDir);
+    const job = createScheduledJob({
+      name: 'Digest',
+      prompt: 'Summarize',
+      cron: '@daily',
+      target: 'default-session',
+      paused: true
+    });
+    const otherItemId = session.enqueueUserMessage();
+    const run = runScheduledJobNow(job.id)!;
+    const runItemId = session.getQueuedMessages()[1].id;
+
+    // Another message's turn ends while the job's prompt is still waiting.
+    session.take(otherItemId, 'Unrelated reply');
+    endTurn(session);
+    expect(listScheduledJobs().runs[0]).toMatchObject({ id: run.id, status: 'running' });
+
+    session.take(runItemId, 'Digest ready');
+    endTurn(session);
+    expect(listScheduledJobs().runs[0]).toMatchObject({
+      status: 'success',
+      summary: 'Digest ready',
+      costUsd: 0.25
+    });
+  });
+
+  test('marks runs whose prompt was cancelled before it was answered', () => {
+    const session = createFakeSession('default');
+    sessions.set('default', session);
+    initializeScheduler(agentDir);
+    const job = createScheduledJob({
+      name: 'Digest',
+      prompt: 'Summarize',
+      cron: '@daily',
+      target: 'default-session',
+      paused: true
+    });
+    runScheduledJobNow(job.id);
+
+    session.cancelQueuedMessage(session.getQueuedMessages()[0].id);
+    runDueJobs();
+
+    expect(listScheduledJobs().runs[0]).toMatchObject({
+      status: 'cancelled',
+      error: 'The prompt was cancelled, or the agent stopped, before it was answered.'
+    });
+  });
+
+  test('fails runs that take too long and stops their session', () => {
+    initializeScheduler(agentDir);
+    const job = createScheduledJob({
+      name: 'Nightly',
+      prompt: 'Check',
+      cron: '@daily',
+      paused: true
+    });
+    const run = runScheduledJobNow(job.id)!;
+    const session = sessions.get(run.sessionId!)!;
+    session.take(session.getQueuedMessages()[0].id, '');
+
+    runDueJobs(new Date(Date.parse(run.startedAt) + 30 * 60 * 1000));
+    expect(listScheduledJobs().runs[0].status).toBe('running');
+
+    runDueJobs(new Date(Date.parse(run.startedAt) + 60 * 60 * 1000));
+    expect(listScheduledJobs().runs[0]).toMatchObject({
+      status: 'error',
+      error: 'The run did not finish within 60 minutes.'
+    });
+    expect(session.stop).toHaveBeenCalled();
+
+    // The run's own turn ending later does not overwrite the timeout.
+    endTurn(session);
+    expect(listScheduledJobs().runs[0].status).toBe('error');
+  });
+});
@@ -0,0 +1,388 @@
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+import { AGENT_STATE_DIR_NAME } from '../shared/constants';
+import type {
+  JobRun,
+  ScheduledJob,
+  ScheduledJobInput,
+  ScheduleListPayload,
+  ScheduleTarget
+} from '../shared/types/schedule';
+import type { Session } from './agent-session';
+import { getNextCronTime, parseCron } from './cron';
+import type { TurnOutcome } from './headless';
+import { createSession, getDefaultSession, getSession, onSessionTurnEnd } from './session-manager';
+import { broadcast } from './sse';
+import { summarizeTurn } from './webhooks';
+
+type StoredJob = Omit<ScheduledJob, 'nextRunAt'>;
+
+// A run whose prompt is queued or being answered; it ends with the turn that took the message.
+type PendingRun = {
+  runId: string;
+  sessionId: string;
+  queueItemId: string;
+  startedAt: number;
+  // Sessions the scheduler created are stopped when their run times out.
+  ownsSession: boolean;
+};
+
+const SCHEDULE_TARGETS: ScheduleTarget[] = ['new-session', 'default-session'];
+const TICK_INTERVAL_MS = 15_000;
+const MAX_STORED_RUNS = 200;
+const MAX_SUMMARY_LENGTH = 500;
+const RUN_TIMEOUT_MS = 60 * 60 * 1000;
+
+let agentDir = '';
+let jobs: StoredJob[] = [];
+let runs: JobRun[] = [];
+const nextRunTimes = new Map<string, Date>();
+const pendingRuns = new Map<string, PendingRun>();
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+let unsubscribeTurnEnd: (() => void) | null = null;
+
+function getJobsPath(): string {
+  return join(agentDir, AGENT_STATE_DIR_NAME, 'schedules', 'jobs.json');
+}
+
+function getRunsPath(): string {
+  return join(agentDir, AGENT_STATE_DIR_NAME, 'schedules', 'runs.json');
+}
+
+function writeJson(filePath: string, value: unknown): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify(value, null, 2)}\n`);
+  renameSync(tempPath, filePath);
+}
+
+function readJsonArray(filePath: string, key: string): unknown[] {
+  if (!existsSync(filePath)) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as Record<string, unknown> | null;
+    return Array.isArray(parsed?.[key]) ? parsed[key] : [];
+  } catch {
+    console.warn(`[scheduler] ignoring unreadable ${filePath}`);
+    return [];
+  }
+}
+
+/**
+ * Validates a job from a create request, or a partial update merged over `existing`. Every
+ * problem is reported at once.
+ */
+export function parseScheduledJobInput(
+  value: unknown,
+  existing?: ScheduledJobInput
+): ScheduledJobInput {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid job: expected an object.');
+  }
+  const record: Record<string, unknown> = {
+    target: 'new-session',
+    paused: false,
+    ...existing,
+    ...(value as Record<string, unknown>)
+  };
+  const errors: string[] = [];
+
+  if (typeof record.name !== 'string' || !record.name.trim()) {
+    errors.push('name is required');
+  } else if (/[\r\n]/.test(record.name)) {
+    errors.push('name must be a single line');
+  }
+  if (typeof record.prompt !== 'string' || !record.prompt.trim()) {
+    errors.push('prompt is required');
+  }
+  if (typeof record.cron !== 'string') {
+    errors.push('cron is required');
+  } else {
+    try {
+      if (!getNextCronTime(parseCron(record.cron), new Date())) {
+        errors.push(`cron expression "${record.cron}" never matches a date`);
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'cron is invalid');
+    }
+  }
+  if (!SCHEDULE_TARGETS.includes(record.target as ScheduleTarget)) {
+    errors.push(`target must be one of ${SCHEDULE_TARGETS.join(', ')}`);
+  }
+  if (typeof record.paused !== 'boolean') {
+    errors.push('paused must be true or false');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid job:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+  }
+  return {
+    name: (record.name as string).trim(),
+    prompt: (record.prompt as string).trim(),
+    cron: (record.cron as string).trim(),
+    target: record.target as ScheduleTarget,
+    paused: record.paused as boolean
+  };
+}
+
+function toScheduledJob(job: StoredJob): ScheduledJob {
+  return { ...job, nextRunAt: nextRunTimes.get(job.id)?.toISOString() ?? null };
+}
+
+export function listScheduledJobs(): ScheduleListPayload {
+  return { jobs: jobs.map(toScheduledJob), runs };
+}
+
+function broadcastSchedules(): void {
+  broadcast('schedules:update', listScheduledJobs());
+}
+
+function saveJobs(): void {
+  writeJson(getJobsPath(), { jobs });
+}
+
+function saveRuns(): void {
+  runs = runs.slice(0, MAX_STORED_RUNS);
+  writeJson(getRunsPath(), { runs });
+}
+
+function scheduleNextRun(job: StoredJob, after: Date): void {
+  const nextRun = job.paused ? null : getNextCronTime(parseCron(job.cron), after);
+  if (nextRun) {
+    nextRunTimes.set(job.id, nextRun);
+  } else {
+    nextRunTimes.delete(job.id);
+  }
+}
+
+function finishRun(runId: string, update: Partial<JobRun>): void {
+  pendingRuns.delete(runId);
+  runs = runs.map((run) =>
+    run.id === runId ? { ...run, ...update, finishedAt: new Date().toISOString() } : run
+  );
+  saveRuns();
+  broadcastSchedules();
+}
+
+function handleTurnEnd(session: Session, outcome: TurnOutcome): void {
+  // Only the run whose prompt this turn answered; other turns in the session are not the job's.
+  const queueItemId = session.getActiveQueueItemId();
+  for (const pending of [...pendingRuns.values()]) {
+    if (pending.sessionId !== session.id || pending.queueItemId !== queueItemId) {
+      continue;
+    }
+    const usage = session.getUsage();
+    finishRun(pending.runId, {
+      status: outcome.isError ? 'error' : 'success',
+      ...(outcome.error ? { error: outcome.error } : {}),
+      summary: summarizeTurn(agentDir, session.getMessages()).lastAssistantText.slice(
+        0,
+        MAX_SUMMARY_LENGTH
+      ),
+      costUsd: usage.turns[usage.turns.length - 1]?.costUsd
+    });
+  }
+}
+
+// Catches runs that will never see their turn end: the prompt was cancelled from the queue, the
+// agent was stopped, or the run went on past the timeout.
+function checkPendingRuns(now: Date): void {
+  for (const pending of [...pendingRuns.values()]) {
+    const session = getSession(pending.sessionId);
+    const isQueued = session?.getQueuedMessages().some((item) => item.id === pending.queueItemId);
+    const isActive = session?.getActiveQueueItemId() === pending.queueItemId;
+    if (!isQueued && !isActive) {
+      finishRun(pending.runId, {
+        status: 'cancelled',
+        error: 'The prompt was cancelled, or the agent stopped, before it was answered.'
+      });
+    } else if (now.getTime() - pending.startedAt >= RUN_TIMEOUT_MS) {
+      finishRun(pending.runId, {
+        status: 'error',
+        error: `The run did not finish within ${RUN_TIMEOUT_MS / 60_000} minutes.`
+      });
+      if (isQueued) {
+        session?.cancelQueuedMessage(pending.queueItemId);
+      } else if (pending.ownsSession) {
+        void session?.stop();
+      }
+    }
+  }
+}
+
+function startRun(job: StoredJob, manual: boolean): JobRun {
+  const run: JobRun = {
+    id: randomUUID(),
+    jobId: job.id,
+    sessionId: null,
+    manual,
+    status: 'running',
+    startedAt: new Date().toISOString()
+  };
+
+  if (runs.some((previous) => previous.jobId === job.id && previous.status === 'running')) {
+    run.status = 'skipped';
+    run.finishedAt = run.startedAt;
+    run.error = 'The previous run has not finished yet.';
+  } else {
+    const ownsSession = job.target === 'new-session';
+    // Nobody is there to answer permission prompts, so a run cannot wait on one forever.
+    const session =
+      ownsSession ? createSession({ denyPermissionPrompts: true }) : getDefaultSession();
+    const queueItemId = session.enqueueUserMessage(job.prompt);
+    run.sessionId = session.id;
+    if (queueItemId) {
+      pendingRuns.set(run.id, {
+        runId: run.id,
+        sessionId: session.id,
+        queueItemId,
+        startedAt: Date.parse(run.startedAt),
+        ownsSession
+      });
+    }
+  }
+
+  console.log(
+    `[scheduler] job=${job.id} name="${job.name}" run=${run.id} status=${run.status} session=${run.sessionId ?? 'none'}`
+  );
+  runs = [run, ...runs];
+  saveRuns();
+  broadcastSchedules();
+  return run;
+}
+
+export function runDueJobs(now = new Date()): void {
+  checkPendingRuns(now);
+  for (const job of jobs) {
+    const nextRun = nextRunTimes.get(job.id);
+    if (job.paused || !nextRun || nextRun > now) {
+      continue;
+    }
+    scheduleNextRun(job, now);
+    startRun(job, false);
+  }
+}
+
+export function createScheduledJob(value: unknown): ScheduledJob {
+  const input = parseScheduledJobInput(value);
+  const now = new Date().toISOString();
+  const job: StoredJob = { id: randomUUID(), ...input, createdAt: now, updatedAt: now };
+  jobs = [...jobs, job];
+  scheduleNextRun(job, new Date());
+  saveJobs();
+  broadcastSchedules();
+  console.log(`[scheduler] created job=${job.id} cron="${job.cron}"`);
+  return toScheduledJob(job);
+}
+
+/**
+ * Applies a partial update to a job. Returns null when the job does not exist; throws when the
+ * result is invalid.
+ */
+export function updateScheduledJob(id: string, value: unknown): ScheduledJob | null {
+  const existing = jobs.find((job) => job.id === id);
+  if (!existing) {
+    return null;
+  }
+  const job: StoredJob = {
+    ...existing,
+    ...parseScheduledJobInput(value, existing),
+    updatedAt: new Date().toISOString()
+  };
+  jobs = jobs.map((current) => (current.id === id ? job : current));
+  scheduleNextRun(job, new Date());
+  saveJobs();
+  broadcastSchedules();
+  return toScheduledJob(job);
+}
+
+export function deleteScheduledJob(id: string): boolean {
+  if (!jobs.some((job) => job.id === id)) {
+    return false;
+  }
+  jobs = jobs.filter((job) => job.id !== id);
+  nextRunTimes.delete(id);
+  // Runs still in progress carry on in their session; only the history is dropped.
+  runs = runs.filter((run) => run.jobId !== id);
+  pendingRuns.forEach((pending, runId) => {
+    if (!runs.some((run) => run.id === runId)) {
+      pendingRuns.delete(runId);
+    }
+  });
+  saveJobs();
+  saveRuns();
+  broadcastSchedules();
+  return true;
+}
+
+export function runScheduledJobNow(id: string): JobRun | null {
+  const job = jobs.find((current) => current.id === id);
+  return job ? startRun(job, true) : null;
+}
+
+/**
+ * Loads the jobs saved in the agent directory and starts checking for due runs. Runs missed while
+ * the server was down are skipped; each job next runs at its first match from now.
+ */
+export function initializeScheduler(nextAgentDir: string): void {
+  agentDir = nextAgentDir;
+  nextRunTimes.clear();
+  pendingRuns.clear();
+
+  jobs = readJsonArray(getJobsPath(), 'jobs').flatMap((value) => {
+    const record = value as Partial<StoredJob> | null;
+    try {
+      if (typeof record?.id !== 'string') {
+        throw new Error('Invalid job: missing id.');
+      }
+      const input = parseScheduledJobInput(record);
+      const createdAt = typeof record.createdAt === 'string' ? record.createdAt : '';
+      const updatedAt = typeof record.updatedAt === 'string' ? record.updatedAt : createdAt;
+      return [{ id: record.id, ...input, createdAt, updatedAt }];
+    } catch (error) {
+      console.warn(`[scheduler] skipping saved job: ${(error as Error).message}`);
+      return [];
+    }
+  });
+  jobs.forEach((job) => scheduleNextRun(job, new Date()));
+
+  let hadRunningRuns = false;
+  runs = (readJsonArray(getRunsPath(), 'runs') as JobRun[])
+    .filter((run) => typeof run?.id === 'string' && typeof run.jobId === 'string')
+    .map((run) => {
+      if (run.status !== 'running') {
+        return run;
+      }
+      hadRunningRuns = true;
+      return {
+        ...run,
+        status: 'error',
+        error: 'The server stopped before the run finished.',
+        finishedAt: new Date().toISOString()
+      };
+    });
+  if (hadRunningRuns) {
+    saveRuns();
+  }
+
+  stopScheduler();
+  unsubscribeTurnEnd = onSessionTurnEnd(handleTurnEnd);
+  tickTimer = setInterval(() => runDueJobs(), TICK_INTERVAL_MS);
+  tickTimer.unref?.();
+  console.log(`[scheduler] init jobs=${jobs.length}`);
+}
+
+/**
+ * Stops checking for due runs and following session turns. Runs already started keep going.
+ */
+export function stopScheduler(): void {
+  unsubscribeTurnEnd?.();
+  unsubscribeTurnEnd = null;
+  if (tickTimer) {
+    clearInterval(tickTimer);
+    tickTimer = null;
+  }
+}
@@ -0,0 +1,403 @@
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, renameSync } from 'fs';
+import { join } from 'path';
+
+import { AGENT_STATE_DIR_NAME } from '../shared/constants';
+import type { Checkpoint } from '../shared/types/checkpoint';
+import type { ChatModelPreference, GetChatModelPreferenceResponse } from '../shared/types/ipc';
+import type { McpConfig } from '../shared/types/mcp';
+import type { PromptSettings, PromptSettingsPayload } from '../shared/types/prompt';
+import { Session, type SessionSummary } from './agent-session';
+import { listCheckpoints, restoreCheckpoint } from './checkpoints';
+import { DEFAULT_AGENT_CONFIG, type AgentConfig } from './config';
+import type { TurnOutcome } from './headless';
+import type { HookRule } from './hook-rules';
+import { loadMcpConfig, saveMcpConfig } from './mcp-config';
+import {
+  DEFAULT_MODEL_PREFERENCE,
+  loadModelPreference,
+  resolveModelId,
+  saveModelPreference
+} from './model-preference';
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  listOutputStyles,
+  loadPromptSettings,
+  savePromptSettings
+} from './prompt-settings';
+import {
+  listStoredSessionIds,
+  loadSessionMetadata,
+  saveSessionMetadata,
+  type SessionMetadata
+} from './session-store';
+import { broadcast } from './sse';
+import { EMPTY_TOOL_POLICY, type ToolPolicy } from './tool-policy';
+import { forkTranscript, saveTranscript } from './transcript';
+import {
+  createWebhookPayload,
+  deliverWebhook,
+  getTurnEndEvents,
+  getWebhookLogPath,
+  summarizeTurn,
+  targetsFor,
+  type WebhookEvent,
+  type WebhookPayload,
+  type WebhookTarget
+} from './webhooks';
+
+const sessions = new Map<string, Session>();
+let agentDir = '';
+let defaultSessionId: string | null = null;
+let config: AgentConfig = DEFAULT_AGENT_CONFIG;
+let hookRules: HookRule[] = [];
+let toolPolicy: ToolPolicy = EMPTY_TOOL_POLICY;
+let modelPreference: ChatModelPreference = DEFAULT_MODEL_PREFERENCE;
+let promptSettings: PromptSettings = DEFAULT_PROMPT_SETTINGS;
+let mcpConfig: McpConfig = { mcpServers: {} };
+let denyPermissionPrompts = false;
+const turnEndListeners = new Set<(session: Session, outcome: TurnOutcome) => void>();
+let webhookTargets: WebhookTarget[] = [];
+const pendingDeliveries = new Set<Promise<boolean>>();
+
+function getSessionsDir(): string {
+  return join(agentDir, AGENT_STATE_DIR_NAME, 'sessions');
+}
+
+function getModelPreferencePath(): string {
+  return join(agentDir, AGENT_STATE_DIR_NAME, 'model.json');
+}
+
+function getPromptSettingsPath(): string {
+  return join(agentDir, AGENT_STATE_DIR_NAME, 'prompt.json');
+}
+
+function broadcastSessionList(): void {
+  broadcast('sessions:update', { sessions: listSessions(), defaultSessionId });
+}
+
+function broadcastCheckpoints(): void {
+  broadcast('checkpoints:update', { checkpoints: listCheckpoints(agentDir) });
+}
+
+function notifyWebhooks(
+  session: Session,
+  event: WebhookEvent,
+  details?: Pick<WebhookPayload, 'error' | 'permissionRequest'>
+): void {
+  const targets = targetsFor(webhookTargets, event);
+  if (targets.length === 0) {
+    return;
+  }
+  const usage = session.getUsage();
+  const payload = createWebhookPayload(event, {
+    session: { id: session.id, title: session.getSummary().title },
+    summary: {
+      ...summarizeTurn(agentDir, session.getMessages()),
+      usage: { lastTurn: usage.turns[usage.turns.length - 1] ?? null, total: usage.total }
+    },
+    ...details
+  });
+  const logPath = getWebhookLogPath(agentDir);
+  targets.forEach((target) => {
+    const delivery = deliverWebhook(target, payload, { logPath });
+    pendingDeliveries.add(delivery);
+    void delivery.finally(() => pendingDeliveries.delete(delivery));
+  });
+}
+
+function handleTurnEnd(session: Session, outcome: TurnOutcome): void {
+  // The turn's own message has left the queue by now, so an empty queue means the agent is done.
+  getTurnEndEvents(outcome, session.getQueuedMessages().length).forEach((event) =>
+    notifyWebhooks(session, event, outcome.error ? { error: outcome.error } : undefined)
+  );
+  turnEndListeners.forEach((listener) => listener(session, outcome));
+}
+
+/**
+ * Calls `listener` whenever a turn of any session ends. Returns a function that unsubscribes.
+ */
+export function onSessionTurnEnd(
+  listener: (session: Session, outcome: TurnOutcome) => void
+): () => void {
+  turnEndListeners.add(listener);
+  return () => {
+    turnEndListeners.delete(listener);
+  };
+}
+
+/**
+ * Resolves once webhook deliveries still in flight, including their retries, have finished.
+ */
+export async function waitForWebhookDeliveries(): Promise<void> {
+  await Promise.allSettled([...pendingDeliveries]);
+}
+
+function buildSession(id: string, options?: { denyPermissionPrompts?: boolean }): Session {
+  const stateDir = join(getSessionsDir(), id);
+  const metadata = loadSessionMetadata(join(stateDir, 'session.json'));
+  const session = new Session({
+    id,
+    agentDir,
+    stateDir,
+    title: metadata.title,
+    createdAt: metadata.createdAt,
+    sdkSessionId: metadata.sdkSessionId,
+    forkSession: metadata.forkSession,
+    resumeSessionAt: metadata.resumeSessionAt,
+    gitBaseCommit: metadata.gitBaseCommit,
+    model: resolveModelId(modelPreference),
+    config,
+    promptSettings,
+    mcpServers: mcpConfig.mcpServers,
+    disabledMcpServers: metadata.disabledMcpServers,
+    hookRules,
+    toolPolicy,
+    denyPermissionPrompts: options?.denyPermissionPrompts ?? denyPermissionPrompts,
+    onChange: broadcastSessionList,
+    onCheckpoint: broadcastCheckpoints,
+    onTurnEnd: handleTurnEnd,
+    onPermissionRequest: (session, request) =>
+      notifyWebhooks(session, 'permission-request', { permissionRequest: request })
+  });
+  sessions.set(id, session);
+  return session;
+}
+
+/**
+ * Moves the single-session state written by earlier versions (`.agent-ui/transcript.jsonl` and
+ * `.agent-ui/session.json`) into its own session directory.
+ */
+function migrateLegacySession(): void {
+  const stateRoot = join(agentDir, AGENT_STATE_DIR_NAME);
+  const legacyFiles = ['transcript.jsonl', 'session.json'].filter((name) =>
+    existsSync(join(stateRoot, name))
+  );
+  if (legacyFiles.length === 0) {
+    return;
+  }
+  const id = randomUUID();
+  const targetDir = join(getSessionsDir(), id);
+  mkdirSync(targetDir, { recursive: true });
+  legacyFiles.forEach((name) => {
+    renameSync(join(stateRoot, name), join(targetDir, name));
+  });
+  console.log(`[sessions] migrated legacy session to id=${id}`);
+}
+
+export function initializeSessions(
+  nextAgentDir: string,
+  initialPrompt?: string | null,
+  options?: {
+    resumeSessionId?: string;
+    config?: AgentConfig;
+    hookRules?: HookRule[];
+    toolPolicy?: ToolPolicy;
+    denyPermissionPrompts?: boolean;
+    webhookTargets?: WebhookTarget[];
+  }
+): Session {
+  agentDir = nextAgentDir;
+  config = options?.config ?? DEFAULT_AGENT_CONFIG;
+  hookRules = options?.hookRules ?? [];
+  toolPolicy = options?.toolPolicy ?? EMPTY_TOOL_POLICY;
+  denyPermissionPrompts = options?.denyPermissionPrompts ?? false;
+  webhookTargets = options?.webhookTargets ?? [];
+  sessions.clear();
+  modelPreference = loadModelPreference(getModelPreferencePath());
+  promptSettings = loadPromptSettings(getPromptSettingsPath());
+  mcpConfig = loadMcpConfig(agentDir);
+  migrateLegacySession();
+
+  const restored = listStoredSessionIds(getSessionsDir()).map((id) => buildSession(id));
+  restored.forEach((session) => session.initialize());
+
+  const latest = restored.sort((a, b) =>
+    b.getSummary().updatedAt.localeCompare(a.getSummary().updatedAt)
+  )[0];
+  const needsFreshSession =
+    !latest || (Boolean(initialPrompt?.trim()) && latest.getSummary().messageCount > 0);
+
+  const defaultSession = needsFreshSession ? buildSession(randomUUID()) : latest;
+  if (options?.resumeSessionId) {
+    defaultSession.resume(options.resumeSessionId);
+  }
+  if (needsFreshSession) {
+    defaultSession.initialize(initialPrompt);
+  } else if (initialPrompt?.trim()) {
+    // The latest restored session is still empty, so the prompt can seed it directly.
+    defaultSession.enqueueUserMessage(initialPrompt.trim());
+  }
+  defaultSessionId = defaultSession.id;
+  console.log(
+    `[sessions] init dir=${agentDir} sessions=${sessions.size} default=${defaultSessionId}`
+  );
+  return defaultSession;
+}
+
+/**
+ * Creates a session. Sessions started without anyone watching, such as scheduled runs, pass
+ * `denyPermissionPrompts` so tool calls that need approval fail instead of waiting forever.
+ */
+export function createSession(options?: { denyPermissionPrompts?: boolean }): Session {
+  const session = buildSession(randomUUID(), options);
+  session.initialize();
+  console.log(`[sessions] created id=${session.id}`);
+  broadcastSessionList();
+  return session;
+}
+
+/**
+ * Creates a session holding `source`'s transcript up to `messageId`. When the source has an SDK
+ * session the fork branches it, so the agent remembers exactly the copied conversation; otherwise
+ * only the transcript is copied. Returns null when the message does not exist.
+ */
+export function forkSession(
+  source: Session,
+  messageId: string
+): { session: Session; draft: string | null } | null {
+  const fork = forkTranscript(source.getMessages(), messageId);
+  if (!fork) {
+    return null;
+  }
+  const id = randomUUID();
+  const stateDir = join(getSessionsDir(), id);
+  const sourceSdkSessionId = source.getSdkSessionId();
+  const metadata: SessionMetadata = {
+    id,
+    title: `${source.getSummary().title} (fork)`,
+    createdAt: new Date().toISOString(),
+    gitBaseCommit: source.getGitBaseCommit() ?? undefined
+  };
+  if (sourceSdkSessionId && fork.messages.length > 0) {
+    if (fork.resumeSessionAt || fork.isComplete) {
+      metadata.sdkSessionId = sourceSdkSessionId;
+      metadata.forkSession = true;
+      metadata.resumeSessionAt = fork.resumeSessionAt ?? undefined;
+    } else {
+      console.warn(
+        `[sessions] fork of ${source.id} at message=${messageId} has no SDK resume point; copying the transcript only`
+      );
+    }
+  }
+  saveTranscript(join(stateDir, 'transcript.jsonl'), fork.messages);
+  saveSessionMetadata(join(stateDir, 'session.json'), metadata);
+
+  const session = buildSession(id);
+  session.initialize();
+  console.log(
+    `[sessions] forked id=${id} from=${source.id} message=${messageId} sdk=${metadata.sdkSessionId ?? 'none'} at=${metadata.resumeSessionAt ?? 'latest'}`
+  );
+  broadcastSessionList();
+  return { session, draft: fork.draft };
+}
+
+/**
+ * Ends every session's running query, resolving once they have all shut down.
+ */
+export async function stopSessions(): Promise<void> {
+  await Promise.all([...sessions.values()].map((session) => session.stop()));
+}
+
+export function getSession(id: string): Session | null {
+  return sessions.get(id) ?? null;
+}
+
+export function getDefaultSession(): Session {
+  const session = defaultSessionId ? sessions.get(defaultSessionId) : undefined;
+  if (!session) {
+    throw new Error('Sessions have not been initialized.');
+  }
+  return session;
+}
+
+export function getDefaultSessionId(): string | null {
+  return defaultSessionId;
+}
+
+export function listSessions(): SessionSummary[] {
+  return Array.from(sessions.values())
+    .map((session) => session.getSummary())
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getModelPreference(): GetChatModelPreferenceResponse {
+  return { preference: modelPreference, model: resolveModelId(modelPreference) };
+}
+
+/**
+ * Persists the preference and applies it to every session: running queries switch models
+ * immediately, idle sessions pick it up on their next `query()`.
+ */
+export async function setModelPreference(
+  preference: ChatModelPreference
+): Promise<GetChatModelPreferenceResponse> {
+  modelPreference = preference;
+  saveModelPreference(getModelPreferencePath(), preference);
+  const model = resolveModelId(preference);
+  console.log(`[sessions] model preference=${preference} model=${model}`);
+  await Promise.all(Array.from(sessions.values()).map((session) => session.setModel(model)));
+  const payload = getModelPreference();
+  broadcast('chat:model', payload);
+  return payload;
+}
+
+export function getPromptSettings(): PromptSettingsPayload {
+  return {
+    settings: promptSettings,
+    outputStyles: listOutputStyles(agentDir, config.settingSources)
+  };
+}
+
+/**
+ * Persists the prompt settings and hands them to every session. Sessions restart their query once
+ * the current turn ends so the next turn uses them; transcripts and SDK sessions are kept.
+ */
+export function setPromptSettings(settings: PromptSettings): PromptSettingsPayload {
+  promptSettings = settings;
+  savePromptSettings(getPromptSettingsPath(), settings);
+  console.log(`[sessions] prompt settings outputStyle=${settings.outputStyle ?? 'settings'}`);
+  sessions.forEach((session) => session.setPromptSettings(settings));
+  const payload = getPromptSettings();
+  broadcast('chat:prompt-settings', payload);
+  return payload;
+}
+
+export function getMcpConfig(): McpConfig {
+  return mcpConfig;
+}
+
+/**
+ * Writes the project's `.mcp.json` and hands the servers to every session.
+ */
+export function setMcpConfig(nextConfig: McpConfig): McpConfig {
+  mcpConfig = nextConfig;
+  saveMcpConfig(agentDir, nextConfig);
+  console.log(`[sessions] mcp servers=${Object.keys(nextConfig.mcpServers).join(',') || 'none'}`);
+  sessions.forEach((session) => session.setMcpServers(nextConfig.mcpServers));
+  return mcpConfig;
+}
+
+/**
+ * Restarts running queries after their current turn so they pick up changed `.claude/` files.
+ */
+export function restartSessionQueries(): void {
+  sessions.forEach((session) => session.requestRestart());
+}
+
+export function getCheckpoints(): Checkpoint[] {
+  return listCheckpoints(agentDir);
+}
+
+/**
+ * Rolls the workspace back to before checkpoint `id`. Returns the restored paths, or null when the
+ * checkpoint does not exist.
+ */
+export function restoreWorkspaceCheckpoint(id: string): string[] | null {
+  const restored = restoreCheckpoint(agentDir, id);
+  if (restored) {
+    console.log(`[checkpoints] restored id=${id} files=${restored.length}`);
+    broadcastCheckpoints();
+  }
+  return restored;
+}
@@ -0,0 +1,73 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+export type SessionMetadata = {
+  id?: string;
+  title?: string;
+  createdAt?: string;
+  sdkSessionId?: string;
+  // A fork that has not run yet branches `sdkSessionId` at `resumeSessionAt` on its first query.
+  forkSession?: boolean;
+  resumeSessionAt?: string;
+  // HEAD of the agent directory's git repository when the session started.
+  gitBaseCommit?: string;
+  // MCP servers from `.mcp.json` turned off for this session.
+  disabledMcpServers?: string[];
+};
+
+function asOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function loadSessionMetadata(filePath: string): SessionMetadata {
+  if (!existsSync(filePath)) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as unknown;
+    if (!parsed || typeof parsed !== 'object') {
+      return {};
+    }
+    const record = parsed as Record<string, unknown>;
+    return {
+      id: asOptionalString(record.id),
+      title: asOptionalString(record.title),
+      createdAt: asOptionalString(record.createdAt),
+      sdkSessionId: asOptionalString(record.sdkSessionId),
+      forkSession: record.forkSession === true ? true : undefined,
+      resumeSessionAt: asOptionalString(record.resumeSessionAt),
+      gitBaseCommit: asOptionalString(record.gitBaseCommit),
+      disabledMcpServers:
+        Array.isArray(record.disabledMcpServers) ?
+          record.disabledMcpServers.filter((name): name is string => typeof name === 'string')
+        : undefined
+    };
+  } catch {
+    console.warn(`[session] ignoring unreadable metadata at ${filePath}`);
+    return {};
+  }
+}
+
+export function saveSessionMetadata(filePath: string, metadata: SessionMetadata): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify(metadata, null, 2)}\n`);
+  renameSync(tempPath, filePath);
+}
+
+/**
+ * Lists the ids of session directories under `sessionsDir` that hold any persisted state.
+ */
+export function listStoredSessionIds(sessionsDir: string): string[] {
+  if (!existsSync(sessionsDir)) {
+    return [];
+  }
+  return readdirSync(sessionsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .filter(
+      (name) =>
+        existsSync(join(sessionsDir, name, 'session.json')) ||
+        existsSync(join(sessionsDir, name, 'transcript.jsonl'))
+    );
+}
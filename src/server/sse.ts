@@ -2,6 +2,7 @@ import { randomUUID } from 'crypto';
 
 type SseClient = {
   id: string;
+  channel?: string;
   send: (event: string, data: unknown) => void;
   close: () => void;
 };
@@ -69,14 +70,25 @@ function heartbeatChunk(): Uint8Array {
   return encoder.encode(': ping\n\n');
 }
 
-export function broadcast(event: string, data: unknown): void {
-  console.log(`[sse] ${event} -> ${summarizePayload(event, data)}`);
+/**
+ * Sends an event to every connected client, or only to clients subscribed to `channel`
+ * (a session id) when one is given.
+ */
+export function broadcast(event: string, data: unknown, channel?: string): void {
+  const target = channel ? ` channel=${channel}` : '';
+  console.log(`[sse] ${event}${target} -> ${summarizePayload(event, data)}`);
   for (const client of clients) {
+    if (channel && client.channel !== channel) {
+      continue;
+    }
     client.send(event, data);
   }
 }
 
-export function createSseClient(onClose: (client: SseClient) => void): {
+export function createSseClient(
+  onClose: (client: SseClient) => void,
+  channel?: string
+): {
   client: SseClient;
   response: Response;
 } {
@@ -114,6 +126,7 @@ export function createSseClient(onClose: (client: SseClient) => void): {
 
   client = {
     id: randomUUID(),
+    channel,
     send: (event, data) => {
       try {
         const payload = formatSse(event, data);
@@ -0,0 +1,79 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, test } from 'bun:test';
+
+import type { SubagentDefinition } from '../shared/types/subagent';
+import { deleteSubagent, listSubagents, parseSubagent, saveSubagent } from './subagents';
+
+const reviewer: SubagentDefinition = {
+  name: 'code-reviewer',
+  description: 'Reviews diffs: style, bugs and "risky" changes',
+  tools: ['Read', 'Grep'],
+  model: 'sonnet',
+  prompt: 'You review code.'
+};
+
+function withAgentDir(run: (agentDir: string) => void): void {
+  const agentDir = mkdtempSync(join(tmpdir(), 'subagents-'));
+  try {
+    run(agentDir);
+  } finally {
+    rmSync(agentDir, { recursive: true, force: true });
+  }
+}
+
+describe('subagents', () => {
+  test('reports every invalid field at once', () => {
+    expect(() =>
+      parseSubagent({ name: 'Code Reviewer', description: '', tools: 'Read', model: 'gpt' })
+    ).toThrow(
+      [
+        'Invalid subagent:',
+        '  - name must use lowercase letters, numbers and single hyphens',
+        '  - description is required',
+        '  - tools must be a list of tool names',
+        '  - model must be one of sonnet, opus, haiku, inherit',
+        '  - prompt is required'
+      ].join('\n')
+    );
+  });
+
+  test('round-trips definitions through frontmatter files', () => {
+    withAgentDir((agentDir) => {
+      expect(saveSubagent(agentDir, reviewer)).toBeNull();
+      expect(saveSubagent(agentDir, reviewer)).toBe(
+        'A subagent named "code-reviewer" already exists.'
+      );
+
+      const filePath = join(agentDir, '.claude', 'agents', 'code-reviewer.md');
+      expect(readFileSync(filePath, 'utf8')).toContain('tools: Read, Grep\nmodel: sonnet\n---');
+      expect(listSubagents(agentDir)).toEqual([reviewer]);
+    });
+  });
+
+  test('renames on update and skips invalid files', () => {
+    withAgentDir((agentDir) => {
+      const agentsDir = join(agentDir, '.claude', 'agents');
+      mkdirSync(agentsDir, { recursive: true });
+      writeFileSync(join(agentsDir, 'broken.md'), '---\nname: broken\n---\n');
+      saveSubagent(agentDir, reviewer);
+
+      const renamed = { ...reviewer, name: 'reviewer', tools: undefined };
+      expect(saveSubagent(agentDir, renamed, 'code-reviewer')).toBeNull();
+      expect(saveSubagent(agentDir, renamed, 'missing')).toBe('Subagent not found: missing');
+      expect(existsSync(join(agentsDir, 'code-reviewer.md'))).toBe(false);
+      expect(listSubagents(agentDir)).toEqual([
+        {
+          name: 'reviewer',
+          description: reviewer.description,
+          model: 'sonnet',
+          prompt: 'You review code.'
+        }
+      ]);
+
+      expect(deleteSubagent(agentDir, 'reviewer')).toBe(true);
+      expect(deleteSubagent(agentDir, 'reviewer')).toBe(false);
+    });
+  });
+});
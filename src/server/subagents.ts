@@ -0,0 +1,166 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync
+} from 'fs';
+import { extname, join } from 'path';
+
+import type { SubagentDefinition, SubagentModel } from '../shared/types/subagent';
+import { parseFrontmatter } from './frontmatter';
+
+const SUBAGENT_MODELS: SubagentModel[] = ['sonnet', 'opus', 'haiku', 'inherit'];
+const NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+type StoredSubagent = SubagentDefinition & { fileName: string };
+
+function getAgentsDir(agentDir: string): string {
+  return join(agentDir, '.claude', 'agents');
+}
+
+/**
+ * Validates a subagent definition, reporting every problem at once. The same rules apply to
+ * payloads from the UI and to files read from disk.
+ */
+export function parseSubagent(value: unknown): SubagentDefinition {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid subagent: expected an object.');
+  }
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof record.name !== 'string' || !NAME_PATTERN.test(record.name)) {
+    errors.push('name must use lowercase letters, numbers and single hyphens');
+  }
+  if (typeof record.description !== 'string' || !record.description.trim()) {
+    errors.push('description is required');
+  } else if (/[\r\n]/.test(record.description)) {
+    errors.push('description must be a single line');
+  }
+  if (
+    record.tools !== undefined &&
+    !(
+      Array.isArray(record.tools) &&
+      record.tools.every((tool) => typeof tool === 'string' && /^[^\s,]+$/.test(tool))
+    )
+  ) {
+    errors.push('tools must be a list of tool names');
+  }
+  if (record.model !== undefined && !SUBAGENT_MODELS.includes(record.model as SubagentModel)) {
+    errors.push(`model must be one of ${SUBAGENT_MODELS.join(', ')}`);
+  }
+  if (typeof record.prompt !== 'string' || !record.prompt.trim()) {
+    errors.push('prompt is required');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid subagent:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+  }
+  const tools = record.tools as string[] | undefined;
+  return {
+    name: record.name as string,
+    description: (record.description as string).trim(),
+    ...(tools && tools.length > 0 ? { tools } : {}),
+    ...(record.model ? { model: record.model as SubagentModel } : {}),
+    prompt: (record.prompt as string).trim()
+  };
+}
+
+export function serializeSubagent(agent: SubagentDefinition): string {
+  const lines = [
+    '---',
+    `name: ${agent.name}`,
+    `description: ${JSON.stringify(agent.description)}`,
+    ...(agent.tools ? [`tools: ${agent.tools.join(', ')}`] : []),
+    ...(agent.model ? [`model: ${agent.model}`] : []),
+    '---',
+    '',
+    agent.prompt,
+    ''
+  ];
+  return lines.join('\n');
+}
+
+function readSubagentFile(filePath: string): SubagentDefinition {
+  const { attributes, body } = parseFrontmatter(readFileSync(filePath, 'utf8'));
+  return parseSubagent({
+    name: attributes.name,
+    description: attributes.description,
+    tools:
+      attributes.tools ?
+        attributes.tools
+          .split(',')
+          .map((tool) => tool.trim())
+          .filter(Boolean)
+      : undefined,
+    model: attributes.model || undefined,
+    prompt: body
+  });
+}
+
+function listStoredSubagents(agentDir: string): StoredSubagent[] {
+  const dir = getAgentsDir(agentDir);
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((fileName) => extname(fileName) === '.md')
+    .flatMap((fileName) => {
+      try {
+        return [{ ...readSubagentFile(join(dir, fileName)), fileName }];
+      } catch (error) {
+        console.warn(
+          `[agents] skipping ${fileName}: ${error instanceof Error ? error.message : error}`
+        );
+        return [];
+      }
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function listSubagents(agentDir: string): SubagentDefinition[] {
+  return listStoredSubagents(agentDir).map(({ fileName: _fileName, ...agent }) => agent);
+}
+
+/**
+ * Writes `agent` to `.claude/agents/<name>.md`. Pass `previousName` to update an existing
+ * subagent, which may also rename it. Returns an error message when the name is taken or the
+ * subagent to update does not exist.
+ */
+export function saveSubagent(
+  agentDir: string,
+  agent: SubagentDefinition,
+  previousName?: string
+): string | null {
+  const stored = listStoredSubagents(agentDir);
+  const existing = previousName ? stored.find((item) => item.name === previousName) : undefined;
+  if (previousName && !existing) {
+    return `Subagent not found: ${previousName}`;
+  }
+  if (agent.name !== previousName && stored.some((item) => item.name === agent.name)) {
+    return `A subagent named "${agent.name}" already exists.`;
+  }
+  const dir = getAgentsDir(agentDir);
+  mkdirSync(dir, { recursive: true });
+  const fileName = existing?.fileName ?? `${agent.name}.md`;
+  const targetName = existing && agent.name !== existing.name ? `${agent.name}.md` : fileName;
+  const tempPath = join(dir, `${targetName}.tmp`);
+  writeFileSync(tempPath, serializeSubagent(agent));
+  renameSync(tempPath, join(dir, targetName));
+  if (targetName !== fileName) {
+    rmSync(join(dir, fileName), { force: true });
+  }
+  return null;
+}
+
+export function deleteSubagent(agentDir: string, name: string): boolean {
+  const existing = listStoredSubagents(agentDir).find((item) => item.name === name);
+  if (!existing) {
+    return false;
+  }
+  rmSync(join(getAgentsDir(agentDir), existing.fileName), { force: true });
+  return true;
+}
@@ -0,0 +1,201 @@
+import { existsSync, readFileSync } from 'fs';
+import { isAbsolute, join, relative, resolve, sep } from 'path';
+
+import { getPermissionSubject, matchesGlob, matchesShellCommand } from './permissions';
+
+export const POLICY_FILE_NAME = 'agent-ui.policy.json';
+
+export type ToolPolicyRule = {
+  // Tool name, or a glob such as `mcp__github__*`.
+  tool: string;
+  // Glob matched against the command (Bash), the path relative to the agent directory (file
+  // tools), the host name (WebFetch) or the tool's main argument otherwise.
+  pattern?: string;
+  reason?: string;
+};
+
+export type ToolPolicy = {
+  allow: ToolPolicyRule[];
+  deny: ToolPolicyRule[];
+  // Denies file tools whose path resolves outside the agent directory.
+  confineToAgentDir: boolean;
+};
+
+export type ToolPolicyDecision = { behavior: 'allow' } | { behavior: 'deny'; message: string };
+
+export const EMPTY_TOOL_POLICY: ToolPolicy = { allow: [], deny: [], confineToAgentDir: false };
+
+const PATH_KEYS = ['file_path', 'notebook_path', 'path'];
+const POLICY_KEYS = new Set(['allow', 'deny', 'confineToAgentDir']);
+
+function validateRules(value: unknown, key: 'allow' | 'deny'): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    return [`${key} must be an array of rules`];
+  }
+  return value.flatMap((rule, index) => {
+    const label = `${key}[${index}]`;
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      return [`${label} must be an object`];
+    }
+    const record = rule as Record<string, unknown>;
+    const errors: string[] = [];
+    if (typeof record.tool !== 'string' || !record.tool.trim()) {
+      errors.push(`${label}.tool is required`);
+    }
+    if (record.pattern !== undefined && typeof record.pattern !== 'string') {
+      errors.push(`${label}.pattern must be a string`);
+    }
+    if (record.reason !== undefined && typeof record.reason !== 'string') {
+      errors.push(`${label}.reason must be a string`);
+    }
+    return errors;
+  });
+}
+
+/**
+ * Validates a policy file, reporting every problem at once.
+ */
+export function parseToolPolicy(value: unknown, source: string): ToolPolicy {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid policy in ${source}: expected a JSON object.`);
+  }
+  const record = value as Record<string, unknown>;
+  const errors = [
+    ...Object.keys(record)
+      .filter((key) => !POLICY_KEYS.has(key))
+      .map((key) => `unknown option "${key}"`),
+    ...validateRules(record.allow, 'allow'),
+    ...validateRules(record.deny, 'deny')
+  ];
+  if (record.confineToAgentDir !== undefined && typeof record.confineToAgentDir !== 'boolean') {
+    errors.push('confineToAgentDir must be a boolean');
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy in ${source}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+  return {
+    allow: (record.allow as ToolPolicyRule[] | undefined) ?? [],
+    deny: (record.deny as ToolPolicyRule[] | undefined) ?? [],
+    confineToAgentDir: record.confineToAgentDir === true
+  };
+}
+
+export function loadToolPolicy(agentDir: string): ToolPolicy {
+  const filePath = join(agentDir, POLICY_FILE_NAME);
+  if (!existsSync(filePath)) {
+    return EMPTY_TOOL_POLICY;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid policy in ${filePath}: ${error instanceof Error ? error.message : 'unreadable JSON'}`
+    );
+  }
+  return parseToolPolicy(parsed, filePath);
+}
+
+function getInputPath(input: Record<string, unknown>): string | undefined {
+  const key = PATH_KEYS.find((name) => typeof input[name] === 'string');
+  return key ? (input[key] as string) : undefined;
+}
+
+// Relative to the agent directory with `/` separators, or null when the path leaves it.
+export function toAgentRelativePath(agentDir: string, path: string): string | null {
+  const relativePath = relative(agentDir, resolve(agentDir, path));
+  if (relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+    return null;
+  }
+  return relativePath.split(sep).join('/');
+}
+
+function getPolicySubject(
+  agentDir: string,
+  toolName: string,
+  input: Record<string, unknown>
+): string | undefined {
+  if (toolName === 'WebFetch' && typeof input.url === 'string') {
+    return URL.canParse(input.url) ? new URL(input.url).hostname : undefined;
+  }
+  const path = toolName === 'Bash' ? undefined : getInputPath(input);
+  if (path !== undefined) {
+    return toAgentRelativePath(agentDir, path) ?? resolve(agentDir, path);
+  }
+  return getPermissionSubject(toolName, input);
+}
+
+const FILE_EDIT_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
+
+/**
+ * Returns which of `fileNames`, files at the top of the agent directory, a tool call would change,
+ * or null. Bash commands count when they mention the file at all.
+ */
+export function findProtectedFileEdit(
+  agentDir: string,
+  toolName: string,
+  input: Record<string, unknown>,
+  fileNames: string[]
+): string | null {
+  if (toolName === 'Bash') {
+    const command = typeof input.command === 'string' ? input.command.toLowerCase() : '';
+    return fileNames.find((name) => command.includes(name.toLowerCase())) ?? null;
+  }
+  const path = FILE_EDIT_TOOLS.has(toolName) ? getInputPath(input) : undefined;
+  // Compared without case, since macOS and Windows file names are case-insensitive.
+  const relativePath = path === undefined ? null : toAgentRelativePath(agentDir, path);
+  return fileNames.find((name) => name.toLowerCase() === relativePath?.toLowerCase()) ?? null;
+}
+
+// Bash allow rules must cover every command in a compound command; a deny rule needs only one.
+function findRule(
+  rules: ToolPolicyRule[],
+  toolName: string,
+  subject: string | undefined,
+  mode: 'every' | 'some'
+): ToolPolicyRule | undefined {
+  const matchesSubject = (pattern: string) =>
+    subject !== undefined &&
+    (toolName === 'Bash' ?
+      matchesShellCommand(pattern, subject, mode)
+    : matchesGlob(pattern, subject));
+  return rules.find(
+    (rule) => matchesGlob(rule.tool, toolName) && (!rule.pattern || matchesSubject(rule.pattern))
+  );
+}
+
+/**
+ * Decides a tool call from the policy: deny rules win, then the agent directory confinement,
+ * then allow rules. Returns null when the policy has no opinion and the user should be asked.
+ */
+export function evaluateToolPolicy(
+  policy: ToolPolicy,
+  agentDir: string,
+  toolName: string,
+  input: Record<string, unknown>
+): ToolPolicyDecision | null {
+  const subject = getPolicySubject(agentDir, toolName, input);
+  const denyRule = findRule(policy.deny, toolName, subject, 'some');
+  if (denyRule) {
+    const target = subject ? ` for ${subject}` : '';
+    return {
+      behavior: 'deny',
+      message: denyRule.reason ?? `Tool policy denies ${toolName}${target}.`
+    };
+  }
+  const path = toolName === 'Bash' ? undefined : getInputPath(input);
+  if (
+    policy.confineToAgentDir &&
+    path !== undefined &&
+    toAgentRelativePath(agentDir, path) === null
+  ) {
+    return {
+      behavior: 'deny',
+      message: `Tool policy keeps ${toolName} inside the agent directory; ${path} is outside it.`
+    };
+  }
+  return findRule(policy.allow, toolName, subject, 'every') ? { behavior: 'allow' } : null;
+}
@@ -0,0 +1,137 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import type { MessageWire } from './agent-session';
+import {
+  finalizeRestoredMessages,
+  forkTranscript,
+  loadTranscript,
+  nextMessageSequence,
+  saveTranscript
+} from './transcript';
+
+describe('transcript', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'transcript-'));
+    filePath = join(dir, 'state', 'transcript.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('returns an empty list when no transcript exists', () => {
+    expect(loadTranscript(filePath)).toEqual([]);
+  });
+
+  test('round-trips messages through save and load', () => {
+    const messages: MessageWire[] = [
+      { id: '0', role: 'user', content: 'hello', timestamp: '2025-01-01T00:00:00.000Z' },
+      {
+        id: '1',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'hi there' }],
+        timestamp: '2025-01-01T00:00:01.000Z'
+      }
+    ];
+    saveTranscript(filePath, messages);
+    expect(loadTranscript(filePath)).toEqual(messages);
+  });
+
+  test('skips malformed lines', () => {
+    saveTranscript(filePath, []);
+    writeFileSync(
+      filePath,
+      [
+        JSON.stringify({ id: '0', role: 'user', content: 'ok', timestamp: 't' }),
+        '{"id": "1", "role": "assis',
+        JSON.stringify({ id: '2', role: 'system', content: 'bad role', timestamp: 't' })
+      ].join('\n')
+    );
+    expect(loadTranscript(filePath).map((message) => message.id)).toEqual(['0']);
+  });
+
+  test('finalizes blocks that were still streaming', () => {
+    const messages: MessageWire[] = [
+      {
+        id: '0',
+        role: 'assistant',
+        content: [
+          { type: 'thinking', thinking: 'hmm', thinkingStreamIndex: 0 },
+          {
+            type: 'tool_use',
+            tool: { id: 'tool-1', name: 'Bash', input: {}, streamIndex: 1, isLoading: true }
+          }
+        ],
+        timestamp: 't'
+      }
+    ];
+    finalizeRestoredMessages(messages);
+    const content = messages[0].content as Exclude<MessageWire['content'], string>;
+    expect(content[0].isComplete).toBe(true);
+    expect(content[1].tool?.isLoading).toBe(false);
+  });
+
+  test('computes the next message sequence from numeric ids', () => {
+    expect(nextMessageSequence([])).toBe(0);
+    expect(
+      nextMessageSequence([
+        { id: '3', role: 'user', content: '', timestamp: 't' },
+        { id: '7', role: 'assistant', content: '', timestamp: 't' }
+      ])
+    ).toBe(8);
+  });
+
+  describe('forkTranscript', () => {
+    const conversation: MessageWire[] = [
+      { id: '0', role: 'user', content: 'first', timestamp: 't' },
+      { id: '1', role: 'assistant', content: 'one', timestamp: 't', sdkUuid: 'uuid-1' },
+      { id: '2', role: 'user', content: 'second', timestamp: 't' },
+      { id: '3', role: 'assistant', content: 'two', timestamp: 't', sdkUuid: 'uuid-3' }
+    ];
+
+    test('keeps messages up to an assistant reply and resumes at its uuid', () => {
+      const fork = forkTranscript(conversation, '1');
+      expect(fork?.messages.map((message) => message.id)).toEqual(['0', '1']);
+      expect(fork?.resumeSessionAt).toBe('uuid-1');
+      expect(fork?.isComplete).toBe(false);
+      expect(fork?.draft).toBeNull();
+    });
+
+    test('branches before a user message and returns its text as a draft', () => {
+      const fork = forkTranscript(conversation, '2');
+      expect(fork?.messages.map((message) => message.id)).toEqual(['0', '1']);
+      expect(fork?.resumeSessionAt).toBe('uuid-1');
+      expect(fork?.draft).toBe('second');
+    });
+
+    test('copies messages instead of sharing them', () => {
+      const fork = forkTranscript(conversation, '3');
+      expect(fork?.isComplete).toBe(true);
+      fork!.messages[0].content = 'changed';
+      expect(conversation[0].content).toBe('first');
+    });
+
+    test('has no resume point when the last kept reply has no uuid', () => {
+      const fork = forkTranscript(
+        [
+          { id: '0', role: 'user', content: 'hi', timestamp: 't' },
+          { id: '1', role: 'assistant', content: 'old reply', timestamp: 't' },
+          { id: '2', role: 'user', content: 'again', timestamp: 't' }
+        ],
+        '1'
+      );
+      expect(fork?.resumeSessionAt).toBeNull();
+      expect(fork?.isComplete).toBe(false);
+    });
+
+    test('returns null for an unknown message', () => {
+      expect(forkTranscript(conversation, '9')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+import type { MessageWire } from './agent-session';
+
+function isMessageWire(value: unknown): value is MessageWire {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.id === 'string' &&
+    (record.role === 'user' || record.role === 'assistant') &&
+    (typeof record.content === 'string' || Array.isArray(record.content)) &&
+    typeof record.timestamp === 'string'
+  );
+}
+
+/**
+ * Reads a JSONL transcript (one MessageWire per line). Malformed lines are skipped so a
+ * partially written file never prevents the server from starting.
+ */
+export function loadTranscript(filePath: string): MessageWire[] {
+  if (!existsSync(filePath)) {
+    return [];
+  }
+  const messages: MessageWire[] = [];
+  const lines = readFileSync(filePath, 'utf8').split('\n');
+  for (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(line) as unknown;
+      if (isMessageWire(parsed)) {
+        messages.push(parsed);
+      }
+    } catch {
+      console.warn(`[transcript] skipping malformed line in ${filePath}`);
+    }
+  }
+  return messages;
+}
+
+/**
+ * Writes the full transcript atomically (temp file + rename) so a crash mid-write leaves the
+ * previous snapshot intact.
+ */
+export function saveTranscript(filePath: string, messages: MessageWire[]): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const body = messages.map((message) => JSON.stringify(message)).join('\n');
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, body ? `${body}\n` : '');
+  renameSync(tempPath, filePath);
+}
+
+/**
+ * Closes out blocks that were still streaming when the previous process exited, so replayed
+ * messages do not render as perpetually in progress.
+ */
+export function finalizeRestoredMessages(messages: MessageWire[]): void {
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      continue;
+    }
+    for (const block of message.content) {
+      if (block.type === 'thinking' && !block.isComplete) {
+        block.isComplete = true;
+      }
+      if (block.type === 'tool_use' && block.tool) {
+        block.tool.isLoading = false;
+        block.tool.subagentCalls?.forEach((call) => {
+          call.isLoading = false;
+        });
+      }
+    }
+  }
+}
+
+export function nextMessageSequence(messages: MessageWire[]): number {
+  return messages.reduce((max, message) => {
+    const value = Number(message.id);
+    return Number.isInteger(value) && value >= max ? value + 1 : max;
+  }, 0);
+}
+
+export type TranscriptFork = {
+  messages: MessageWire[];
+  // Where the SDK session should be branched, when the kept messages end on a known reply.
+  resumeSessionAt: string | null;
+  // The whole transcript was kept, so the SDK session can be branched at its latest message.
+  isComplete: boolean;
+  // Text of a forked user message, which is left out so it can be edited and resent.
+  draft: string | null;
+};
+
+/**
+ * Copies the transcript up to and including `messageId`. Forking at a user message branches just
+ * before it instead. Returns null when the message is not in the transcript.
+ */
+export function forkTranscript(messages: MessageWire[], messageId: string): TranscriptFork | null {
+  const index = messages.findIndex((message) => message.id === messageId);
+  if (index === -1) {
+    return null;
+  }
+  const target = messages[index];
+  const end = target.role === 'user' ? index : index + 1;
+  const kept = structuredClone(messages.slice(0, end));
+  finalizeRestoredMessages(kept);
+  const lastAssistant = kept.findLast((message) => message.role === 'assistant');
+  return {
+    messages: kept,
+    resumeSessionAt: lastAssistant?.sdkUuid ?? null,
+    isComplete: end === messages.length,
+    draft: target.role === 'user' && typeof target.content === 'string' ? target.content : null
+  };
+}
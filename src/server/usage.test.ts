@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { TurnUsage } from '../shared/types/usage';
+import { EMPTY_TOKEN_USAGE, summarizeUsage, toTokenUsage } from './usage';
+
+function turn(costUsd: number, outputTokens: number): TurnUsage {
+  return {
+    completedAt: new Date().toISOString(),
+    durationMs: 1000,
+    numTurns: 1,
+    costUsd,
+    isError: false,
+    usage: { ...EMPTY_TOKEN_USAGE, inputTokens: 10, outputTokens },
+    subagentUsage: EMPTY_TOKEN_USAGE
+  };
+}
+
+describe('usage', () => {
+  test('reads snake_case usage and treats missing counts as zero', () => {
+    expect(
+      toTokenUsage({ input_tokens: 5, output_tokens: 7, cache_read_input_tokens: null })
+    ).toEqual({
+      inputTokens: 5,
+      outputTokens: 7,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0
+    });
+    expect(toTokenUsage(undefined)).toEqual(EMPTY_TOKEN_USAGE);
+  });
+
+  test('sums cost, duration and tokens across turns', () => {
+    const summary = summarizeUsage([turn(0.25, 100), turn(0.5, 50)]);
+    expect(summary.turns).toHaveLength(2);
+    expect(summary.total.costUsd).toBeCloseTo(0.75);
+    expect(summary.total.durationMs).toBe(2000);
+    expect(summary.total.usage.inputTokens).toBe(20);
+    expect(summary.total.usage.outputTokens).toBe(150);
+  });
+});
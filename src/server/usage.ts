@@ -0,0 +1,84 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+import type { SessionUsage, TokenUsage, TurnUsage } from '../shared/types/usage';
+
+export const EMPTY_TOKEN_USAGE: TokenUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadInputTokens: 0,
+  cacheCreationInputTokens: 0
+};
+
+function asCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Reads the snake_case usage object of an API message or SDK result.
+ */
+export function toTokenUsage(usage: unknown): TokenUsage {
+  if (!usage || typeof usage !== 'object') {
+    return EMPTY_TOKEN_USAGE;
+  }
+  const record = usage as Record<string, unknown>;
+  return {
+    inputTokens: asCount(record.input_tokens),
+    outputTokens: asCount(record.output_tokens),
+    cacheReadInputTokens: asCount(record.cache_read_input_tokens),
+    cacheCreationInputTokens: asCount(record.cache_creation_input_tokens)
+  };
+}
+
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadInputTokens: a.cacheReadInputTokens + b.cacheReadInputTokens,
+    cacheCreationInputTokens: a.cacheCreationInputTokens + b.cacheCreationInputTokens
+  };
+}
+
+export function summarizeUsage(turns: TurnUsage[]): SessionUsage {
+  return {
+    turns,
+    total: {
+      costUsd: turns.reduce((sum, turn) => sum + turn.costUsd, 0),
+      durationMs: turns.reduce((sum, turn) => sum + turn.durationMs, 0),
+      usage: turns.reduce((sum, turn) => addTokenUsage(sum, turn.usage), EMPTY_TOKEN_USAGE)
+    }
+  };
+}
+
+function isTurnUsage(value: unknown): value is TurnUsage {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.completedAt === 'string' &&
+    typeof record.costUsd === 'number' &&
+    Boolean(record.usage) &&
+    Boolean(record.subagentUsage)
+  );
+}
+
+export function loadUsage(filePath: string): TurnUsage[] {
+  if (!existsSync(filePath)) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as { turns?: unknown };
+    return Array.isArray(parsed?.turns) ? parsed.turns.filter(isTurnUsage) : [];
+  } catch {
+    console.warn(`[usage] ignoring unreadable usage at ${filePath}`);
+    return [];
+  }
+}
+
+export function saveUsage(filePath: string, turns: TurnUsage[]): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify({ turns }, null, 2)}\n`);
+  renameSync(tempPath, filePath);
+}
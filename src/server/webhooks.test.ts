@@ -0,0 +1,198 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import type { MessageWire } from './agent-session';
+import {
+  createWebhookPayload,
+  deliverWebhook,
+  getTurnEndEvents,
+  parseWebhookTargets,
+  summarizeTurn,
+  targetsFor,
+  type WebhookPayload
+} from './webhooks';
+
+function payload(): WebhookPayload {
+  return createWebhookPayload('turn-complete', {
+    session: { id: 'session-1', title: 'Fix the build' },
+    summary: {
+      lastAssistantText: 'Done.',
+      filesTouched: ['src/a.ts'],
+      usage: {
+        lastTurn: null,
+        total: {
+          costUsd: 0,
+          durationMs: 0,
+          usage: {
+            inputTokens: 0,
+            outputTokens: 0,
+            cacheReadInputTokens: 0,
+            cacheCreationInputTokens: 0
+          }
+        }
+      }
+    }
+  });
+}
+
+describe('webhooks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'webhooks-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reports every invalid target at once', () => {
+    expect(() =>
+      parseWebhookTargets(
+        {
+          webhooks: [
+            { url: 'ftp://example.com' },
+            { url: 'https://example.com', events: ['turn-done'] },
+            { url: 'https://example.com', headers: { Authorization: 1 } }
+          ]
+        },
+        'test.json'
+      )
+    ).toThrow(
+      /webhooks\[0\]\.url must be an http or https URL\n.*webhooks\[1\]\.events.*\n.*webhooks\[2\]\.headers/
+    );
+    expect(() => parseWebhookTargets({}, 'test.json')).toThrow('expected { "webhooks": [...] }');
+  });
+
+  test('selects the targets subscribed to an event', () => {
+    const targets = parseWebhookTargets(
+      {
+        webhooks: [
+          { url: 'https://all.example.com' },
+          { url: 'https://errors.example.com', events: ['turn-error'] }
+        ]
+      },
+      'test.json'
+    );
+
+    expect(targetsFor(targets, 'turn-complete').map((target) => target.url)).toEqual([
+      'https://all.example.com'
+    ]);
+    expect(targetsFor(targets, 'turn-error')).toHaveLength(2);
+  });
+
+  test('sends session-idle only after a successful turn that drained the queue', () => {
+    expect(getTurnEndEvents({ isError: false }, 0)).toEqual(['turn-complete', 'session-idle']);
+    expect(getTurnEndEvents({ isError: false }, 2)).toEqual(['turn-complete']);
+    expect(getTurnEndEvents({ isError: true, error: 'API error' }, 0)).toEqual(['turn-error']);
+  });
+
+  test('summarizes the latest turn', () => {
+    const messages: MessageWire[] = [
+      { id: '0', role: 'user', content: 'Old request', timestamp: '' },
+      {
+        id: '1',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'Old reply' }],
+        timestamp: ''
+      },
+      { id: '2', role: 'user', content: 'Fix the build', timestamp: '' },
+      {
+        id: '3',
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Looking.' },
+          {
+            type: 'tool_use',
+            tool: {
+              id: 't1',
+              name: 'Edit',
+              input: { file_path: join(dir, 'src/b.ts') },
+              streamIndex: 0
+            }
+          },
+          {
+            type: 'tool_use',
+            tool: {
+              id: 't2',
+              name: 'Task',
+              input: {},
+              streamIndex: 1,
+              subagentCalls: [{ id: 't3', name: 'Write', input: { file_path: 'src/a.ts' } }]
+            }
+          },
+          { type: 'tool_use', tool: { id: 't4', name: 'Read', input: {}, streamIndex: 2 } },
+          { type: 'text', text: 'Fixed it.' }
+        ],
+        timestamp: ''
+      }
+    ];
+
+    expect(summarizeTurn(dir, messages)).toEqual({
+      lastAssistantText: 'Looking.\nFixed it.',
+      filesTouched: ['src/a.ts', 'src/b.ts']
+    });
+  });
+
+  test('retries failed deliveries and logs every attempt', async () => {
+    const received: Array<{ event: string | null; body: WebhookPayload }> = [];
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        received.push({
+          event: request.headers.get('x-agent-ui-event'),
+          body: (await request.json()) as WebhookPayload
+        });
+        return new Response(null, { status: received.length === 1 ? 503 : 204 });
+      }
+    });
+    const logPath = join(dir, 'webhooks.log.jsonl');
+
+    try {
+      const ok = await deliverWebhook({ url: `http://localhost:${server.port}/hook` }, payload(), {
+        logPath,
+        retryDelaysMs: [10, 10]
+      });
+
+      expect(ok).toBe(true);
+      expect(received).toHaveLength(2);
+      expect(received[1].event).toBe('turn-complete');
+      expect(received[1].body.summary.filesTouched).toEqual(['src/a.ts']);
+      const log = readFileSync(logPath, 'utf8')
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(log.map((entry) => [entry.attempt, entry.status, entry.ok])).toEqual([
+        [1, 503, false],
+        [2, 204, true]
+      ]);
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test('does not retry client errors', async () => {
+    let requests = 0;
+    const server = Bun.serve({
+      port: 0,
+      fetch() {
+        requests += 1;
+        return new Response('bad request', { status: 400 });
+      }
+    });
+
+    try {
+      const ok = await deliverWebhook({ url: `http://localhost:${server.port}/` }, payload(), {
+        logPath: join(dir, 'webhooks.log.jsonl'),
+        retryDelaysMs: [10, 10]
+      });
+
+      expect(ok).toBe(false);
+      expect(requests).toBe(1);
+    } finally {
+      server.stop(true);
+    }
+  });
+});
@@ -0,0 +1,283 @@
+import { randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+import { AGENT_STATE_DIR_NAME } from '../shared/constants';
+import type { PermissionRequest } from '../shared/types/permission';
+import type { SessionUsage, TurnUsage } from '../shared/types/usage';
+import type { MessageWire } from './agent-session';
+import { getCheckpointPath } from './checkpoints';
+import type { TurnOutcome } from './headless';
+
+export const WEBHOOKS_FILE_NAME = 'agent-ui.webhooks.json';
+
+export const WEBHOOK_EVENTS = [
+  'turn-complete',
+  'turn-error',
+  'permission-request',
+  'session-idle'
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export type WebhookTarget = {
+  url: string;
+  // Omitted means every event.
+  events?: WebhookEvent[];
+  headers?: Record<string, string>;
+};
+
+export type TurnSummary = {
+  // Text of the last assistant reply since the latest user message.
+  lastAssistantText: string;
+  // Agent-relative paths changed with Write, Edit, MultiEdit or NotebookEdit.
+  filesTouched: string[];
+};
+
+export type WebhookPayload = {
+  event: WebhookEvent;
+  deliveryId: string;
+  timestamp: string;
+  session: { id: string; title: string };
+  summary: TurnSummary & {
+    usage: { lastTurn: TurnUsage | null; total: SessionUsage['total'] };
+  };
+  error?: string;
+  permissionRequest?: PermissionRequest;
+};
+
+export type WebhookDelivery = {
+  deliveryId: string;
+  event: WebhookEvent;
+  url: string;
+  attempt: number;
+  ok: boolean;
+  status?: number;
+  error?: string;
+  timestamp: string;
+};
+
+// Waits before each retry; a delivery is attempted once more than there are delays.
+const DEFAULT_RETRY_DELAYS_MS = [1_000, 5_000, 25_000];
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export function getWebhookLogPath(agentDir: string): string {
+  return join(agentDir, AGENT_STATE_DIR_NAME, 'webhooks.log.jsonl');
+}
+
+function validateTarget(value: unknown, index: number): string[] {
+  const label = `webhooks[${index}]`;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [`${label} must be an object`];
+  }
+  const target = value as Record<string, unknown>;
+  const errors: string[] = [];
+  let url: URL | null = null;
+  try {
+    url = typeof target.url === 'string' ? new URL(target.url) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || !['http:', 'https:'].includes(url.protocol)) {
+    errors.push(`${label}.url must be an http or https URL`);
+  }
+  if (
+    target.events !== undefined &&
+    !(
+      Array.isArray(target.events) &&
+      target.events.length > 0 &&
+      target.events.every((event) => WEBHOOK_EVENTS.includes(event as WebhookEvent))
+    )
+  ) {
+    errors.push(`${label}.events must be a non-empty array of ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+  if (
+    target.headers !== undefined &&
+    !(
+      target.headers &&
+      typeof target.headers === 'object' &&
+      !Array.isArray(target.headers) &&
+      Object.values(target.headers).every((header) => typeof header === 'string')
+    )
+  ) {
+    errors.push(`${label}.headers must map header names to strings`);
+  }
+  return errors;
+}
+
+/**
+ * Validates a webhooks file, reporting every invalid target at once.
+ */
+export function parseWebhookTargets(value: unknown, source: string): WebhookTarget[] {
+  const webhooks = (value as { webhooks?: unknown } | null)?.webhooks;
+  if (!Array.isArray(webhooks)) {
+    throw new Error(`Invalid webhooks in ${source}: expected { "webhooks": [...] }.`);
+  }
+  const errors = webhooks.flatMap((target, index) => validateTarget(target, index));
+  if (errors.length > 0) {
+    throw new Error(`Invalid webhooks in ${source}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+  return webhooks as WebhookTarget[];
+}
+
+export function loadWebhookTargets(agentDir: string): WebhookTarget[] {
+  const filePath = join(agentDir, WEBHOOKS_FILE_NAME);
+  if (!existsSync(filePath)) {
+    return [];
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid webhooks in ${filePath}: ${error instanceof Error ? error.message : 'unreadable JSON'}`
+    );
+  }
+  return parseWebhookTargets(parsed, filePath);
+}
+
+export function targetsFor(targets: WebhookTarget[], event: WebhookEvent): WebhookTarget[] {
+  return targets.filter((target) => !target.events || target.events.includes(event));
+}
+
+/**
+ * The events a finished turn sends. `session-idle` follows a successful turn that left nothing in
+ * the queue; after a failed turn `turn-error` is the only one.
+ */
+export function getTurnEndEvents(outcome: TurnOutcome, queuedMessages: number): WebhookEvent[] {
+  if (outcome.isError) {
+    return ['turn-error'];
+  }
+  return queuedMessages === 0 ? ['turn-complete', 'session-idle'] : ['turn-complete'];
+}
+
+/**
+ * Summarizes the latest turn: everything after the last user message.
+ */
+export function summarizeTurn(agentDir: string, messages: MessageWire[]): TurnSummary {
+  let start = messages.length;
+  while (start > 0 && messages[start - 1].role !== 'user') {
+    start -= 1;
+  }
+
+  let lastAssistantText = '';
+  const filesTouched = new Set<string>();
+  const recordFile = (name: string, input: unknown) => {
+    const path =
+      input && typeof input === 'object' ?
+        getCheckpointPath(agentDir, name, input as Record<string, unknown>)
+      : null;
+    if (path) {
+      filesTouched.add(path);
+    }
+  };
+
+  for (const message of messages.slice(start)) {
+    if (typeof message.content === 'string') {
+      lastAssistantText = message.content;
+      continue;
+    }
+    const text = message.content
+      .filter((block) => block.type === 'text' && block.text)
+      .map((block) => block.text)
+      .join('\n');
+    if (text) {
+      lastAssistantText = text;
+    }
+    for (const block of message.content) {
+      if (block.type !== 'tool_use' || !block.tool) {
+        continue;
+      }
+      recordFile(block.tool.name, block.tool.parsedInput ?? block.tool.input);
+      block.tool.subagentCalls?.forEach((call) =>
+        recordFile(call.name, call.parsedInput ?? call.input)
+      );
+    }
+  }
+
+  return { lastAssistantText, filesTouched: [...filesTouched].sort() };
+}
+
+function appendDeliveryLog(logPath: string, delivery: WebhookDelivery): void {
+  try {
+    mkdirSync(dirname(logPath), { recursive: true });
+    appendFileSync(logPath, `${JSON.stringify(delivery)}\n`);
+  } catch (error) {
+    console.error('[webhooks] failed to write delivery log', error);
+  }
+}
+
+// Client errors other than rate limiting will not succeed on a retry.
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * POSTs `payload` to `target`, retrying network errors and 5xx/429 responses after each of
+ * `retryDelaysMs`. Every attempt is appended to the delivery log. Resolves to whether it succeeded.
+ */
+export async function deliverWebhook(
+  target: WebhookTarget,
+  payload: WebhookPayload,
+  options: { logPath: string; retryDelaysMs?: number[] }
+): Promise<boolean> {
+  const retryDelaysMs = options.retryDelaysMs ?? DEFAULT_RETRY_DELAYS_MS;
+  const body = JSON.stringify(payload);
+
+  for (let attempt = 1; attempt <= retryDelaysMs.length + 1; attempt += 1) {
+    const delivery: WebhookDelivery = {
+      deliveryId: payload.deliveryId,
+      event: payload.event,
+      url: target.url,
+      attempt,
+      ok: false,
+      timestamp: new Date().toISOString()
+    };
+    let retryable = true;
+    try {
+      const response = await fetch(target.url, {
+        method: 'POST',
+        headers: {
+          ...target.headers,
+          'Content-Type': 'application/json',
+          'X-Agent-UI-Event': payload.event,
+          'X-Agent-UI-Delivery': payload.deliveryId
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      delivery.status = response.status;
+      delivery.ok = response.ok;
+      retryable = isRetryableStatus(response.status);
+      // The body is never used; cancelling it frees the connection instead of waiting for GC.
+      await response.body?.cancel();
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : 'Request failed';
+    }
+    appendDeliveryLog(options.logPath, delivery);
+
+    if (delivery.ok) {
+      return true;
+    }
+    console.warn(
+      `[webhooks] ${payload.event} to ${target.url} failed attempt=${attempt} ${delivery.status ?? delivery.error}`
+    );
+    if (!retryable || attempt > retryDelaysMs.length) {
+      return false;
+    }
+    await Bun.sleep(retryDelaysMs[attempt - 1]);
+  }
+  return false;
+}
+
+export function createWebhookPayload(
+  event: WebhookEvent,
+  fields: Omit<WebhookPayload, 'event' | 'deliveryId' | 'timestamp'>
+): WebhookPayload {
+  return {
+    event,
+    deliveryId: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...fields
+  };
+}
@@ -1,2 +1,3 @@
 export const MAX_ATTACHMENT_BYTES = 32 * 1024 * 1024; // 32 MB
 export const ATTACHMENTS_DIR_NAME = 'attachments';
+export const AGENT_STATE_DIR_NAME = '.agent-ui';
@@ -0,0 +1,27 @@
+export type CheckpointFile = {
+  // Relative to the agent directory.
+  path: string;
+  // False when the agent created the file, so restoring deletes it.
+  existed: boolean;
+};
+
+// The workspace files the agent changed during one user turn, as they were before the turn.
+export type Checkpoint = {
+  id: string;
+  sessionId: string;
+  // The user message that started the turn.
+  messageId: string;
+  preview: string;
+  createdAt: string;
+  files: CheckpointFile[];
+};
+
+export type CheckpointListPayload = {
+  checkpoints: Checkpoint[];
+};
+
+export type RestoreCheckpointResponse = {
+  success: boolean;
+  error?: string;
+  restoredFiles?: string[];
+};
@@ -0,0 +1,12 @@
+export type FsChangeEntry = {
+  // Relative to the agent directory.
+  path: string;
+  type: 'file' | 'dir';
+};
+
+// One debounced batch of workspace changes. A removed directory is listed once, without its contents.
+export type FsChangePayload = {
+  added: FsChangeEntry[];
+  changed: string[];
+  removed: string[];
+};
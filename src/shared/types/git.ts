@@ -0,0 +1,32 @@
+export type GitFileChange = {
+  path: string;
+  // Set for renames and copies.
+  originalPath?: string;
+  // `git status --porcelain` letters for the index and the working tree, e.g. 'M', 'A', '?'.
+  index: string;
+  worktree: string;
+};
+
+export type GitStatusPayload =
+  | { isRepo: false }
+  | {
+      isRepo: true;
+      // Null on a detached HEAD.
+      branch: string | null;
+      // Null before the first commit.
+      head: string | null;
+      files: GitFileChange[];
+    };
+
+export type GitDiffPayload = {
+  diff: string;
+  // The commit the diff is taken against; null before the first commit.
+  base: string | null;
+  truncated: boolean;
+};
+
+export type GitCommitResponse = {
+  success: boolean;
+  error?: string;
+  commit?: string;
+};
@@ -0,0 +1,37 @@
+export type ObservedHookEvent = 'PreToolUse' | 'PostToolUse' | 'Notification' | 'Stop';
+
+// What one configured hook rule did for an event.
+export type HookRuleResult = {
+  rule: string;
+  blocked?: boolean;
+  output?: string;
+  error?: string;
+};
+
+export type PreToolUseHookPayload = {
+  toolUseId: string;
+  toolName: string;
+  toolInput: unknown;
+  // Set when a hook rule denied the tool call.
+  blockedReason?: string;
+  results: HookRuleResult[];
+  timestamp: string;
+};
+
+export type PostToolUseHookPayload = {
+  toolUseId: string;
+  toolName: string;
+  results: HookRuleResult[];
+  timestamp: string;
+};
+
+export type NotificationHookPayload = {
+  message: string;
+  title?: string;
+  notificationType: string;
+  timestamp: string;
+};
+
+export type StopHookPayload = {
+  timestamp: string;
+};
@@ -26,10 +26,12 @@ export interface SendMessagePayload {
 
 export interface GetChatModelPreferenceResponse {
   preference: ChatModelPreference;
+  model: string;
 }
 
 export interface SetChatModelPreferenceResponse extends SuccessResponse {
   preference: ChatModelPreference;
+  model?: string;
 }
 
 export interface SavedAttachmentInfo {
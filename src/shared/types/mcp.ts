@@ -0,0 +1,46 @@
+export type McpStdioServerConfig = {
+  type?: 'stdio';
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+};
+
+export type McpSseServerConfig = {
+  type: 'sse';
+  url: string;
+  headers?: Record<string, string>;
+};
+
+export type McpHttpServerConfig = {
+  type: 'http';
+  url: string;
+  headers?: Record<string, string>;
+};
+
+export type McpServerConfig = McpStdioServerConfig | McpSseServerConfig | McpHttpServerConfig;
+
+// The shape of the project's `.mcp.json`.
+export type McpConfig = {
+  mcpServers: Record<string, McpServerConfig>;
+};
+
+// 'disabled' servers are turned off for the session; 'inactive' ones wait for the next query.
+export type McpServerConnectionStatus =
+  | 'connected'
+  | 'failed'
+  | 'needs-auth'
+  | 'pending'
+  | 'disabled'
+  | 'inactive';
+
+export type McpServerState = {
+  name: string;
+  enabled: boolean;
+  status: McpServerConnectionStatus;
+  error?: string;
+  tools: string[];
+};
+
+export type McpStatusPayload = {
+  servers: McpServerState[];
+};
@@ -0,0 +1,26 @@
+export type PermissionDecision = 'allow' | 'allow-always' | 'deny';
+
+export type PermissionRequest = {
+  id: string;
+  toolName: string;
+  toolUseId: string;
+  input: Record<string, unknown>;
+  subject?: string;
+  suggestedPattern?: string;
+  decisionReason?: string;
+  blockedPath?: string;
+  agentId?: string;
+  createdAt: string;
+};
+
+export type PermissionResponsePayload = {
+  requestId: string;
+  decision: PermissionDecision;
+  pattern?: string;
+  message?: string;
+};
+
+export type PermissionResolvedPayload = {
+  id: string;
+  decision: PermissionDecision | 'cancelled';
+};
@@ -0,0 +1,19 @@
+export type PromptSettings = {
+  // Extra instructions added to the system prompt.
+  appendSystemPrompt: string;
+  // null leaves the output style to the Claude settings files.
+  outputStyle: string | null;
+};
+
+export type OutputStyleSource = 'built-in' | 'project' | 'user';
+
+export type OutputStyleInfo = {
+  name: string;
+  description?: string;
+  source: OutputStyleSource;
+};
+
+export type PromptSettingsPayload = {
+  settings: PromptSettings;
+  outputStyles: OutputStyleInfo[];
+};
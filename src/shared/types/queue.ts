@@ -0,0 +1,18 @@
+import type { SavedAttachmentInfo } from './ipc';
+
+export type QueuedMessage = {
+  id: string;
+  text: string;
+  attachments: SavedAttachmentInfo[];
+  createdAt: string;
+};
+
+export type MessageQueuePayload = {
+  items: QueuedMessage[];
+};
+
+export type UpdateQueuedMessagePayload = {
+  text?: string;
+  // New zero-based position in the queue.
+  position?: number;
+};
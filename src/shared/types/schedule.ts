@@ -0,0 +1,54 @@
+// Where a job's prompt runs: a new session per run, or the queue of the default session.
+export type ScheduleTarget = 'new-session' | 'default-session';
+
+export type ScheduledJobInput = {
+  name: string;
+  prompt: string;
+  // Five-field cron expression in the server's local time.
+  cron: string;
+  target: ScheduleTarget;
+  paused: boolean;
+};
+
+export type ScheduledJob = ScheduledJobInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  // Null while paused.
+  nextRunAt: string | null;
+};
+
+export type JobRunStatus = 'running' | 'success' | 'error' | 'skipped' | 'cancelled';
+
+export type JobRun = {
+  id: string;
+  jobId: string;
+  sessionId: string | null;
+  // True when started with "Run now" rather than by the schedule.
+  manual: boolean;
+  status: JobRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+  // The start of the agent's last reply.
+  summary?: string;
+  costUsd?: number;
+};
+
+export type ScheduleListPayload = {
+  jobs: ScheduledJob[];
+  // Newest first.
+  runs: JobRun[];
+};
+
+export type SaveScheduledJobResponse = {
+  success: boolean;
+  error?: string;
+  job?: ScheduledJob;
+};
+
+export type RunScheduledJobResponse = {
+  success: boolean;
+  error?: string;
+  run?: JobRun;
+};
@@ -0,0 +1,15 @@
+export type SubagentModel = 'sonnet' | 'opus' | 'haiku' | 'inherit';
+
+// A subagent defined in `.claude/agents/<name>.md`.
+export type SubagentDefinition = {
+  name: string;
+  description: string;
+  // Omitted to inherit every tool from the main agent.
+  tools?: string[];
+  model?: SubagentModel;
+  prompt: string;
+};
+
+export type SubagentListResponse = {
+  agents: SubagentDefinition[];
+};
@@ -0,0 +1,27 @@
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+};
+
+export type TurnUsage = {
+  completedAt: string;
+  durationMs: number;
+  numTurns: number;
+  costUsd: number;
+  isError: boolean;
+  // Main agent and subagent tokens combined.
+  usage: TokenUsage;
+  // Tokens spent by subagents started with the Task tool.
+  subagentUsage: TokenUsage;
+};
+
+export type SessionUsage = {
+  turns: TurnUsage[];
+  total: {
+    costUsd: number;
+    durationMs: number;
+    usage: TokenUsage;
+  };
+};
@@ -15,7 +15,10 @@ export default defineConfig({
     port: 5173,
     proxy: {
       '/chat': 'http://localhost:3000',
-      '/agent': 'http://localhost:3000'
+      '/agent': 'http://localhost:3000',
+      '/sessions': 'http://localhost:3000',
+      '/login': 'http://localhost:3000',
+      '/logout': 'http://localhost:3000'
     }
   },
   build: {